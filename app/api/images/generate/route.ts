@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { searchImages } from "@/lib/images";
+import { getSite } from "@/lib/sites";
+
+// POST: Generate a featured image from a description with the site's image
+// generator, { siteId, prompt }
+export async function POST(request: NextRequest) {
+  try {
+    const { siteId, prompt } = await request.json();
+    if (typeof prompt !== "string" || prompt.trim().length < 3) {
+      return NextResponse.json(
+        { success: false, error: "Prompt must be at least 3 characters" },
+        { status: 400 }
+      );
+    }
+
+    const site = getSite(siteId);
+    const result = await searchImages(site, prompt, { providers: ["ai"], signal: request.signal });
+    if (result.candidates.length === 0) {
+      return NextResponse.json(
+        { success: false, error: result.errors[0]?.error ?? "No image generator configured" },
+        { status: result.errors.length > 0 ? 502 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error generating image:", error);
+    return errorResponse(error, "Failed to generate image");
+  }
+}
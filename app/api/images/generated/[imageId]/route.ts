@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { getGeneratedImage } from "@/lib/images";
+
+// GET: A generated featured image, for the dashboard preview
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ imageId: string }> }
+) {
+  try {
+    const { imageId } = await params;
+    const { record, data } = await getGeneratedImage(imageId);
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": record.mimeType,
+        // Never changes once generated
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading generated image:", error);
+    return errorResponse(error, "Failed to read generated image");
+  }
+}
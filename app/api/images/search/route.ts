@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { isImageProviderId, searchImages } from "@/lib/images";
+import { getSite } from "@/lib/sites";
+
+// GET: Featured image candidates for q from the site's image providers
+// (optionally only those in providers, comma-separated)
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get("q")?.trim() ?? "";
+    if (query.length < 3) {
+      return NextResponse.json(
+        { success: false, error: "Search text must be at least 3 characters" },
+        { status: 400 }
+      );
+    }
+
+    const providers = searchParams.get("providers")?.split(",").map((id) => id.trim()).filter(Boolean);
+    const unknown = providers?.filter((id) => !isImageProviderId(id)) ?? [];
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown image provider: ${unknown.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const perProvider = searchParams.get("perProvider");
+    const site = getSite(searchParams.get("siteId"));
+    const result = await searchImages(site, query, {
+      providers: providers?.filter(isImageProviderId),
+      perProvider: perProvider ? parseInt(perProvider) || undefined : undefined,
+      signal: request.signal,
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error searching images:", error);
+    return errorResponse(error, "Failed to search images");
+  }
+}
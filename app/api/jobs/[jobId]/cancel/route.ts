@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { cancelJob } from "@/lib/jobs";
+
+// POST: Cancel a queued or running job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await cancelJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error) {
+    console.error("Error cancelling job:", error);
+    return errorResponse(error, "Failed to cancel job");
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { resumeJob } from "@/lib/jobs";
+
+// POST: Re-run the failed and cancelled items of a job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await resumeJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error) {
+    console.error("Error resuming job:", error);
+    return errorResponse(error, "Failed to resume job");
+  }
+}
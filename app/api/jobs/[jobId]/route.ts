@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { getJob } from "@/lib/jobs";
+
+// GET: Inspect a job, including per-item status and results
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await getJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    return errorResponse(error, "Failed to fetch job");
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { enqueueJob, listJobs } from "@/lib/jobs";
+import { parseLLMSelection } from "@/lib/llm";
+import { isLLMConfigured } from "@/lib/optimizer";
+import { getSite } from "@/lib/sites";
+
+// GET: List optimization jobs (optionally for one site)
+export async function GET(request: NextRequest) {
+  try {
+    const jobs = await listJobs(request.nextUrl.searchParams.get("siteId"));
+    return NextResponse.json({ success: true, data: jobs });
+  } catch (error) {
+    console.error("Error listing jobs:", error);
+    return errorResponse(error, "Failed to list jobs");
+  }
+}
+
+// POST: Enqueue a batch of posts for background optimization
+export async function POST(request: NextRequest) {
+  try {
+    const { siteId, postIds, concurrency, maxAttempts, llm: llmInput, promptTemplate } = await request.json();
+
+    const llm = parseLLMSelection(llmInput);
+    if (llm === null) {
+      return NextResponse.json(
+        { success: false, error: "Invalid LLM provider" },
+        { status: 400 }
+      );
+    }
+
+    if (!isLLMConfigured(getSite(siteId), llm)) {
+      return NextResponse.json(
+        { success: false, error: "No LLM provider configured" },
+        { status: 400 }
+      );
+    }
+
+    const ids = Array.isArray(postIds)
+      ? postIds.filter((id: unknown): id is number => Number.isInteger(id) && (id as number) > 0)
+      : [];
+    if (ids.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No posts to optimize" },
+        { status: 400 }
+      );
+    }
+
+    // Optional; when given, positive whole numbers (the queue clamps them)
+    for (const [name, value] of Object.entries({ concurrency, maxAttempts })) {
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        return NextResponse.json(
+          { success: false, error: `${name} must be a positive integer` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const job = await enqueueJob({
+      siteId,
+      postIds: ids,
+      concurrency,
+      maxAttempts,
+      llm,
+      promptTemplate: typeof promptTemplate === "string" && promptTemplate ? promptTemplate : undefined,
+    });
+    return NextResponse.json({ success: true, data: job }, { status: 202 });
+  } catch (error) {
+    console.error("Error enqueueing job:", error);
+    return errorResponse(error, "Failed to enqueue job");
+  }
+}
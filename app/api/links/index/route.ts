@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { getLinkIndex, syncLinkIndex, type LinkIndex } from "@/lib/links";
+import { connectToSite, getSite } from "@/lib/sites";
+
+function summary(index: LinkIndex | null) {
+  return index && {
+    siteId: index.siteId,
+    posts: index.posts.length,
+    rebuiltAt: index.rebuiltAt,
+    syncedAt: index.syncedAt,
+  };
+}
+
+// GET: State of the site's internal link index (null before the first sync)
+export async function GET(request: NextRequest) {
+  try {
+    const site = getSite(request.nextUrl.searchParams.get("siteId"));
+    const index = await getLinkIndex(site.id);
+
+    return NextResponse.json({ success: true, data: summary(index) });
+  } catch (error) {
+    console.error("Error reading link index:", error);
+    return errorResponse(error, "Failed to read link index");
+  }
+}
+
+// POST: Sync the index now, { siteId, rebuild } (rebuild refetches every post)
+export async function POST(request: NextRequest) {
+  try {
+    const { siteId, rebuild } = await request.json();
+    const { site, wp } = connectToSite(siteId);
+
+    const index = await syncLinkIndex(site, wp, { rebuild: rebuild === true, force: true });
+
+    return NextResponse.json({ success: true, data: summary(index) });
+  } catch (error) {
+    console.error("Error syncing link index:", error);
+    return errorResponse(error, "Failed to sync link index");
+  }
+}
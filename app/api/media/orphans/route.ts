@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { deleteOrphanedMedia, findOrphanedMedia } from "@/lib/images";
+import { connectToSite } from "@/lib/sites";
+
+// GET: Media uploaded by this tool that no post uses as featured image (dry run)
+export async function GET(request: NextRequest) {
+  try {
+    const { site, wp } = connectToSite(request.nextUrl.searchParams.get("siteId"));
+    const orphans = await findOrphanedMedia(site, wp);
+
+    return NextResponse.json({ success: true, data: orphans });
+  } catch (error) {
+    console.error("Error finding orphaned media:", error);
+    return errorResponse(error, "Failed to find orphaned media");
+  }
+}
+
+// POST: Permanently delete orphaned media, { siteId, mediaIds } as listed by GET
+export async function POST(request: NextRequest) {
+  try {
+    const { siteId, mediaIds } = await request.json();
+    const { site, wp } = connectToSite(siteId);
+
+    const result = await deleteOrphanedMedia(site, wp, Array.isArray(mediaIds) ? mediaIds : []);
+    console.log('[DEBUG] Media cleanup:', result);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error deleting orphaned media:", error);
+    return errorResponse(error, "Failed to delete orphaned media");
+  }
+}
@@ -1,296 +1,114 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// OpenAI API Configuration
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o';
-
-// Pixabay API Configuration
-const PIXABAY_API_KEY = process.env.PIXABAY_API_KEY;
-
-// Helper function to search Pixabay for images
-async function searchPixabay(query: string): Promise<{ url: string; source: string } | null> {
-  if (!PIXABAY_API_KEY) {
-    console.warn('No Pixabay API key configured');
-    return null;
-  }
-
-  // Ensure query is not empty or too short
-  let searchQuery = query.trim();
-  if (!searchQuery || searchQuery.length < 3) {
-    console.warn('Query too short for Pixabay search:', query);
-    return null;
-  }
-
-  // Clean up query - remove special chars, limit length
-  searchQuery = searchQuery
-    .replace(/[^\w\s-]/g, '') // Remove special chars except spaces and hyphens
-    .replace(/\s+/g, ' ')     // Normalize spaces
-    .trim();
-
-  if (searchQuery.length > 100) {
-    searchQuery = searchQuery.substring(0, 100).replace(/\s+\S*$/, '');
-  }
-
-  try {
-    // Build URL manually to avoid any encoding issues
-    const params = new URLSearchParams({
-      key: PIXABAY_API_KEY,
-      q: searchQuery,
-      image_type: 'photo',
-      orientation: 'horizontal',
-      per_page: '3',
-      safesearch: 'true'
-    });
-    
-    const pixabayUrl = `https://pixabay.com/api/?${params.toString()}`;
-    console.log('Searching Pixabay with query:', searchQuery);
-    
-    const response = await fetch(pixabayUrl);
-    
-    // Log response details
-    console.log('Pixabay response status:', response.status);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Pixabay error response:', errorText.substring(0, 500));
-      return null;
-    }
-
-    const data = await response.json();
-    console.log('Pixabay hits:', data.hits?.length || 0);
-    
-    if (data.hits && data.hits.length > 0) {
-      const bestImage = data.hits.find((hit: any) => hit.largeImageURL) || data.hits[0];
-      return {
-        url: bestImage.largeImageURL || bestImage.webformatURL,
-        source: 'Pixabay',
-      };
-    }
-    
-    return null;
-  } catch (error) {
-    console.error('Pixabay API error:', error);
-    return null;
-  }
-}
-
-// Helper function to generate AI-optimized content
-async function optimizeWithAI(title: string, content: string, excerpt: string): Promise<{
-  optimizedTitle: string;
-  optimizedContent: string;
-  suggestedImage: string;
-  imageSource: string;
-  keywords: string[];
-  seoScore: number;
-  seoTitle: string;
-  seoDescription: string;
-  category: string;
-  tags: string[];
-  detectedAuthor: string;
-}> {
-  const query = title.replace(/<[^>]*>/g, '').trim();
-  let imageResult: { url: string; source: string } | null = null;
-
-  // If no OpenAI API key, just return mock with image search
-  if (!OPENAI_API_KEY) {
-    console.warn('No OpenAI API key configured');
-    imageResult = await searchPixabay(query);
-    
-    return {
-      optimizedTitle: title.replace(/<[^>]*>/g, '').trim() + ' - Enhanced',
-      optimizedContent: content,
-      suggestedImage: imageResult?.url || '',
-      imageSource: imageResult?.source || 'No image found',
-      keywords: [query],
-      seoScore: 65,
-      seoTitle: query.substring(0, 60),
-      seoDescription: excerpt.replace(/<[^>]*>/g, '').trim().substring(0, 160),
-      category: 'ai-technology',
-      tags: ['news', 'update', 'trending'],
-      detectedAuthor: 'jmason',
-    };
-  }
-
-  const prompt = `You are a professional journalist. Create optimized content that ranks for search engines and gets views.
-
-STRUCTURE:
-1. SEO TITLE (50-60 chars, keyword first): "Keyword: How to Impact Results"
-2. META DESCRIPTION (150-160 chars): Include keyword + "Learn how" or "Discover"
-3. OPENING (100-150 words): Hook reader, add primary keyword naturally
-4. BULLET POINTS (8-10 bullets, mixed lengths, 1-3 lines each)
-5. BODY PARAGRAPHS (1200-1500 words, 8-10 paragraphs):
-   - Mix short (100 word) + long (200 word) paragraphs
-   - Include real examples, data, expert quotes
-   - Weave keywords naturally (1-2% density)
-6. CONCLUSION: Summarize + call-to-action
-
-KEYWORDS (15-20 total):
-- PRIMARY: Main search term
-- SECONDARY: Related terms
-- LSI: Synonyms and variations
-- LONG-TAIL: 3-4 word phrases
-Scatter naturally in content - NOT mechanical
-
-CATEGORY: AI, artificial-intelligence, ai-strategy, automation, digital-strategy, humanoid-robots, news, business, defense, geopolitics, global-markets, global-news, politics, health, entertainment, films, food, hollywood, music, automotive, sports, military, trending
-
-AUTHOR MAPPING:
-- jmason: AI/artificial-intelligence/ai-strategy/automation/digital-strategy/humanoid-robots
-- alexcarter: news/business/defense/geopolitics/global-markets/global-news/politics
-- emily: health/entertainment/films/food/hollywood/music
-- katherine-lewis: automotive/sports/military
-- reginald-edward: trending/breaking
-
-RESPONSE JSON ONLY:
-{
-  "seoTitle": "Keyword: Main Title (50-60 chars)",
-  "optimizedTitle": "Punchy version",
-  "seoDescription": "160-char meta with keyword and CTA",
-  "optimizedContent": "<h1>Title</h1><p>Opening with keyword...</p><h2>Subheading</h2><ul><li>Bullet 1</li><li>Bullet 2</li></ul><p>8-10 body paragraphs 1200-1500 words total</p>",
-  "primaryKeyword": "main term",
-  "keywords": ["kw1", "kw2", "kw3", "long-tail phrase", "semantic variant"],
-  "seoScore": 85,
-  "category": "detected-category",
-  "tags": ["tag1", "tag2", "tag3", "tag4", "tag5", "tag6", "tag7", "tag8"],
-  "recommendedAuthor": "author-slug",
-  "imageDescription": "image 3-5 words"
-}
-
-Original Title: ${title}
-Original Content: ${content}
-Original Excerpt: ${excerpt}`;
+import { errorResponse } from "@/lib/api";
+import { getImageProvider, IMAGE_PROVIDER_IDS } from "@/lib/images";
+import { isLLMConfigured, optimizeWithAI } from "@/lib/optimizer";
+import { parseLLMSelection } from "@/lib/llm";
+import { getSite } from "@/lib/sites";
+
+// GET: Check which image providers are configured for the site and answer
+// (image generators are only checked for configuration)
+export async function GET(request: NextRequest) {
+  const testQuery = 'nature landscape';
+  console.log('Testing image providers with query:', testQuery);
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: OPENAI_MODEL,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert content optimizer. Always respond with valid JSON only.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 5000,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const aiContent = data.choices?.[0]?.message?.content;
-
-    if (!aiContent) {
-      throw new Error('No content in OpenAI response');
-    }
-
-    let parsed;
-    try {
-      const cleanedContent = aiContent.replace(/```json\s*|\s*```/g, '').trim();
-      parsed = JSON.parse(cleanedContent);
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', aiContent);
-      throw new Error('Failed to parse AI response');
-    }
-
-    const imageQuery = parsed.imageDescription || query;
-    console.log('AI suggested image query:', imageQuery);
-    console.log('AI generated keywords:', parsed.keywords);
-    console.log('AI detected category:', parsed.category);
-    console.log('AI generated tags:', parsed.tags);
-    console.log('AI recommended author:', parsed.recommendedAuthor);
-    console.log('SEO Score:', parsed.seoScore);
-    console.log('SEO Title:', parsed.seoTitle);
-    console.log('SEO Description:', parsed.seoDescription);
-    
-    imageResult = await searchPixabay(imageQuery);
-
-    return {
-      optimizedTitle: parsed.optimizedTitle || title,
-      optimizedContent: parsed.optimizedContent || content,
-      suggestedImage: imageResult?.url || '',
-      imageSource: imageResult?.source || 'No image found',
-      keywords: parsed.keywords || [query],
-      seoScore: parsed.seoScore || 70,
-      seoTitle: parsed.seoTitle || query.substring(0, 60),
-      seoDescription: parsed.seoDescription || excerpt.replace(/<[^>]*>/g, '').trim().substring(0, 160),
-      category: parsed.category || 'ai-technology',
-      tags: parsed.tags || ['content'],
-      detectedAuthor: parsed.recommendedAuthor || 'john-mason',
-    };
-  } catch (error) {
-    console.error('OpenAI optimization error:', error);
-    throw error;
-  }
-}
+    const site = getSite(request.nextUrl.searchParams.get("siteId"));
+    const imageProviders = await Promise.all(
+      IMAGE_PROVIDER_IDS.map(getImageProvider).map(async (provider) => {
+        if (!provider.isConfigured(site)) {
+          return { id: provider.id, name: provider.name, configured: false, working: false };
+        }
+        // Not test-generated: every image costs money
+        if (provider.kind === 'generated') {
+          return { id: provider.id, name: provider.name, configured: true, working: true };
+        }
+        try {
+          const results = await provider.search(site, testQuery, { perPage: 3 });
+          return { id: provider.id, name: provider.name, configured: true, working: results.length > 0 };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return { id: provider.id, name: provider.name, configured: true, working: false, error: message };
+        }
+      })
+    );
+    const pixabay = imageProviders.find((provider) => provider.id === 'pixabay');
 
-// GET: Check Pixabay API status
-export async function GET() {
-  const testQuery = 'nature landscape';
-  console.log('Testing Pixabay API with query:', testQuery);
-  
-  if (PIXABAY_API_KEY) {
-    const testResult = await searchPixabay(testQuery);
     return NextResponse.json({
       success: true,
-      pixabayConfigured: true,
-      pixabayWorking: !!testResult,
+      pixabayConfigured: pixabay?.configured ?? false,
+      pixabayWorking: pixabay?.working ?? false,
+      imageProviders,
       testQuery,
     });
+  } catch (error) {
+    console.error("Error checking image providers:", error);
+    return errorResponse(error, "Failed to check image providers");
   }
-  
-  return NextResponse.json({
-    success: true,
-    pixabayConfigured: false,
-    pixabayWorking: false,
-  });
 }
 
 // POST: Optimize content with AI
 export async function POST(request: NextRequest) {
   try {
-    const { title, content, excerpt } = await request.json();
+    const { siteId, postId, title, content, excerpt, categories, llm: llmInput, promptTemplate } = await request.json();
+    const site = getSite(siteId);
 
-    if (!OPENAI_API_KEY) {
+    const llm = parseLLMSelection(llmInput);
+    if (llm === null) {
       return NextResponse.json(
-        { success: false, error: "Missing OpenAI API key" },
+        { success: false, error: "Invalid LLM provider" },
         { status: 400 }
       );
     }
 
-    // Use the main optimization function with Pixabay image search
-    const optimized = await optimizeWithAI(title, content, excerpt);
+    if (!isLLMConfigured(site, llm)) {
+      return NextResponse.json(
+        { success: false, error: "No LLM provider configured" },
+        { status: 400 }
+      );
+    }
+
+    // Use the main optimization function with the featured image search
+    const optimized = await optimizeWithAI(
+      site,
+      {
+        title,
+        content,
+        excerpt,
+        categories: Array.isArray(categories) ? categories : undefined,
+        postId: Number.isInteger(postId) ? postId : undefined,
+      },
+      { signal: request.signal, llm, promptTemplate: typeof promptTemplate === "string" ? promptTemplate : undefined }
+    );
 
     return NextResponse.json({
       success: true,
       optimizedTitle: optimized.optimizedTitle,
       seoTitle: optimized.seoTitle,
       seoDescription: optimized.seoDescription,
+      social: optimized.social,
       optimizedContent: optimized.optimizedContent,
       suggestedImage: optimized.suggestedImage,
       imageSource: optimized.imageSource,
+      imageCandidates: optimized.imageCandidates,
+      selectedImage: optimized.selectedImage,
+      imageQuery: optimized.imageQuery,
+      linkSuggestions: optimized.linkSuggestions,
+      similarity: optimized.similarity,
+      structuredData: optimized.structuredData,
       keywords: optimized.keywords,
       seoScore: optimized.seoScore,
       category: optimized.category,
       tags: optimized.tags,
       detectedAuthor: optimized.detectedAuthor,
+      authorAssignment: optimized.authorAssignment,
+      defaultedFields: optimized.defaultedFields,
+      repairAttempts: optimized.repairAttempts,
+      provider: optimized.provider,
+      model: optimized.model,
+      promptTemplate: optimized.promptTemplate,
     });
   } catch (error) {
     console.error("Error optimizing content:", error);
-    return NextResponse.json(
-      { success: false, error: "Failed to optimize content" },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to optimize content");
   }
 }
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { isLLMConfigured, optimizeWithAI, type OptimizeStreamEvent } from "@/lib/optimizer";
+import { parseLLMSelection } from "@/lib/llm";
+import { getSite } from "@/lib/sites";
+import { sseResponse } from "@/lib/sse";
+
+// POST: Optimize content with AI, streaming model tokens and step events as
+// Server-Sent Events. Aborting the request aborts the generation.
+export async function POST(request: NextRequest) {
+  try {
+    const { siteId, postId, title, content, excerpt, categories, llm: llmInput, promptTemplate } = await request.json();
+    const site = getSite(siteId);
+
+    const llm = parseLLMSelection(llmInput);
+    if (llm === null) {
+      return NextResponse.json(
+        { success: false, error: "Invalid LLM provider" },
+        { status: 400 }
+      );
+    }
+
+    if (!isLLMConfigured(site, llm)) {
+      return NextResponse.json(
+        { success: false, error: "No LLM provider configured" },
+        { status: 400 }
+      );
+    }
+
+    return sseResponse(async (send) => {
+      const emit = (event: OptimizeStreamEvent) => send(event.type, event);
+
+      try {
+        const result = await optimizeWithAI(
+          site,
+          {
+            title,
+            content,
+            excerpt,
+            categories: Array.isArray(categories) ? categories : undefined,
+            postId: Number.isInteger(postId) ? postId : undefined,
+          },
+          { signal: request.signal, onEvent: emit, llm, promptTemplate: typeof promptTemplate === "string" ? promptTemplate : undefined }
+        );
+        emit({ type: 'done', result });
+      } catch (error) {
+        if (request.signal.aborted) return;
+        console.error("Error streaming optimization:", error);
+        emit({ type: 'error', error: error instanceof Error ? error.message : "Failed to optimize content" });
+      }
+    });
+  } catch (error) {
+    console.error("Error optimizing content:", error);
+    return errorResponse(error, "Failed to optimize content");
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { getTemplate } from "@/lib/prompts";
+
+// GET: A prompt template with all of its versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    const template = await getTemplate(templateId);
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: "Prompt template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: template });
+  } catch (error) {
+    console.error("Error fetching prompt template:", error);
+    return errorResponse(error, "Failed to fetch prompt template");
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { resolvePrompt } from "@/lib/prompts";
+import { getSite } from "@/lib/sites";
+
+// POST: Render the prompt a post would be optimized with, without calling the
+// model. Takes the same template selection as /api/optimize-content.
+export async function POST(request: NextRequest) {
+  try {
+    const { siteId, title, content, excerpt, categories, promptTemplate } = await request.json();
+    const site = getSite(siteId);
+    const override = typeof promptTemplate === "string" ? promptTemplate : undefined;
+    const postCategories = Array.isArray(categories) ? categories : undefined;
+
+    const rendered = await resolvePrompt(
+      site,
+      { title: title ?? "", content: content ?? "", excerpt: excerpt ?? "", categories: postCategories },
+      override
+    );
+
+    return NextResponse.json({ success: true, data: rendered });
+  } catch (error) {
+    console.error("Error previewing prompt:", error);
+    return errorResponse(error, "Failed to preview prompt");
+  }
+}
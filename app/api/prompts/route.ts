@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { listTemplates, saveTemplateVersion } from "@/lib/prompts";
+
+// GET: List prompt templates with their latest version
+export async function GET() {
+  try {
+    const templates = await listTemplates();
+    return NextResponse.json({ success: true, data: templates });
+  } catch (error) {
+    console.error("Error listing prompt templates:", error);
+    return errorResponse(error, "Failed to list prompt templates");
+  }
+}
+
+// POST: Create a template, or add a new version to an existing one
+export async function POST(request: NextRequest) {
+  try {
+    const { id, description, system, body, variables, note } = await request.json();
+
+    const template = await saveTemplateVersion({ id, description, system, body, variables, note });
+    return NextResponse.json({ success: true, data: template }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving prompt template:", error);
+    return errorResponse(error, "Failed to save prompt template");
+  }
+}
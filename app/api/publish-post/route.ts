@@ -1,153 +1,118 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// WordPress API Configuration
-const WP_BASE_URL = 'https://digitalchew.com/wp-json';
-const WP_USERNAME = process.env.WORDPRESS_USERNAME ?? '';
-const WP_PASSWORD = process.env.WORDPRESS_PASSWORD ?? '';
-
-// Author slug to display name mapping
-const AUTHOR_MAPPING: {[key: string]: string} = {
-  'jmason': 'John Mason',
-  'alexcarter': 'Alex Carter',
-  'emily': 'Emily',
-  'katherine-lewis': 'Katherine Lewis',
-  'reginald-edward': 'Reginald Edward',
-};
-
-// Helper function to create Basic Auth header
-function createAuthHeader(username: string, password: string): string {
-  const credentials = `${username}:${password}`;
-  const encodedCredentials = Buffer.from(credentials).toString('base64');
-  return `Basic ${encodedCredentials}`;
+import { errorResponse } from "@/lib/api";
+import { authorUserId, recordAssignment, resolveAuthor } from "@/lib/authors";
+import { prepareContentForPublish } from "@/lib/content";
+import {
+  formatCaption,
+  formatCreditText,
+  trackUnsplashDownload,
+  uploadFeaturedImage,
+  type FeaturedImageUpload,
+  type ImageCandidate,
+} from "@/lib/images";
+import { updateIndexedPost } from "@/lib/links";
+import { parseScheduleDate, toGmtString } from "@/lib/schedule";
+import {
+  analyzeSeo,
+  getSeoAdapter,
+  readSocialFields,
+  toMetaObject,
+  verifySeoMeta,
+  type SeoAdapter,
+  type SeoFields,
+} from "@/lib/seo";
+import {
+  connectToSite,
+  getSiteWordPressConfig,
+  getTermPolicy,
+  type SiteConfig,
+} from "@/lib/sites";
+import { checkSimilarity } from "@/lib/similarity";
+import { createSnapshot } from "@/lib/snapshots";
+import {
+  authorUrl,
+  buildStructuredData,
+  saveStructuredData,
+  validateStructuredData,
+  type StructuredDataResult,
+  type StructuredDataWriteResult,
+} from "@/lib/structured-data";
+import {
+  resolveTerms,
+  termIds,
+  type WordPressClient,
+  type WPPost,
+  type WPPostStatus,
+  type WPPostUpdate,
+  type WPUser,
+} from "@/lib/wordpress";
+
+// date_gmt/modified_gmt carry no zone designator; drafts may have none yet
+function gmtInstant(value?: string | null): string {
+  return value ? new Date(`${value}Z`).toISOString() : new Date().toISOString();
 }
 
-// Helper function to get user ID by name or email
-async function getUserIdByName(username: string): Promise<number | null> {
+// The author picked in the dashboard, if it is still a WordPress user
+async function getOverrideUser(wp: WordPressClient, userId: unknown): Promise<WPUser | null> {
+  if (typeof userId !== 'number' || !Number.isInteger(userId) || userId <= 0) return null;
   try {
-    const response = await fetch(
-      `${WP_BASE_URL}/wp/v2/users?slug=${encodeURIComponent(username)}&_fields=id`,
-      {
-        headers: {
-          'Authorization': createAuthHeader(WP_USERNAME, WP_PASSWORD),
-        },
-      }
-    );
-
-    if (!response.ok) return null;
-    const users = await response.json();
-    return users.length > 0 ? users[0].id : null;
+    return await wp.getUser(userId, { _fields: 'id,name,slug' });
   } catch (error) {
-    console.error('Error fetching user:', error);
+    console.error('Error fetching selected author, assigning by rules:', error);
     return null;
   }
 }
 
-// Helper function to get or create category
-async function getCategoryIdByName(categoryName: string): Promise<number | null> {
+// Helper function to upload image to WordPress media library, resized and
+// re-encoded according to the site's image settings. An image uploaded before
+// is reused rather than uploaded again.
+async function uploadImageToWordPress(
+  wp: WordPressClient,
+  site: SiteConfig,
+  imageUrl: string,
+  keyword: string | undefined,
+  postId: number
+): Promise<FeaturedImageUpload | null> {
   try {
-    const categorySlug = categoryName.toLowerCase().replace(/[^a-z0-9-]/g, '-');
-    
-    const response = await fetch(
-      `${WP_BASE_URL}/wp/v2/categories?slug=${categorySlug}&_fields=id`,
-      {
-        headers: {
-          'Authorization': createAuthHeader(WP_USERNAME, WP_PASSWORD),
-        },
-      }
-    );
+    const upload = await uploadFeaturedImage(site, wp, imageUrl, { keyword, postId });
+
+    console.log('[DEBUG] Uploaded image to WordPress:');
+    console.log('  - filename:', upload.filename);
+    console.log('  - contentType:', upload.mimeType, upload.sourceMimeType ? `(downloaded as ${upload.sourceMimeType})` : '');
+    console.log('  - reused:', upload.reused);
 
-    if (!response.ok) return null;
-    const categories = await response.json();
-    return categories.length > 0 ? categories[0].id : null;
+    return upload;
   } catch (error) {
-    console.error('Error fetching category:', error);
+    console.error('Error uploading image:', error);
     return null;
   }
 }
 
-// Helper function to get or create tags
-async function getTagIdsByNames(tagNames: string[]): Promise<number[]> {
+// Helper function to set alt text and caption on an uploaded image. Stock
+// images get the attribution credit in the caption, after the editor's text.
+async function describeImage(
+  wp: WordPressClient,
+  mediaId: number,
+  altText: string,
+  caption: string,
+  image?: ImageCandidate
+): Promise<void> {
   try {
-    const tagIds: number[] = [];
-
-    for (const tagName of tagNames) {
-      const tagSlug = tagName.toLowerCase().replace(/[^a-z0-9-]/g, '-');
-      
-      const response = await fetch(
-        `${WP_BASE_URL}/wp/v2/tags?slug=${tagSlug}&_fields=id`,
-        {
-          headers: {
-            'Authorization': createAuthHeader(WP_USERNAME, WP_PASSWORD),
-          },
-        }
-      );
-
-      if (response.ok) {
-        const tags = await response.json();
-        if (tags.length > 0) {
-          tagIds.push(tags[0].id);
-        }
-      }
-    }
-
-    return tagIds;
-  } catch (error) {
-    console.error('Error fetching tags:', error);
-    return [];
-  }
-}
-
-// Helper function to upload image to WordPress media library
-async function uploadImageToWordPress(
-  imageUrl: string,
-  filename: string
-): Promise<{ id: number; url: string } | null> {
-  try {
-    // Fetch the image
-    const imageResponse = await fetch(imageUrl);
-    if (!imageResponse.ok) {
-      throw new Error(`Failed to fetch image: ${imageResponse.status}`);
-    }
-
-    const imageBlob = await imageResponse.blob();
-    const arrayBuffer = await imageBlob.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-
-    console.log('[DEBUG] Uploading image to WordPress:');
-    console.log('  - filename:', filename);
-    console.log('  - contentType:', imageBlob.type);
-    console.log('  - data length:', uint8Array.length);
-
-    // Upload to WordPress media library
-    const uploadResponse = await fetch(`${WP_BASE_URL}/wp/v2/media`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': imageBlob.type || 'image/jpeg',
-        'Authorization': createAuthHeader(WP_USERNAME, WP_PASSWORD),
-        // Required by WordPress REST API for media uploads
-        'Content-Disposition': `attachment; filename="${filename}"`,
-      },
-      body: uint8Array,
+    await wp.updateMedia(mediaId, {
+      alt_text: altText,
+      caption: formatCaption(caption, image),
     });
-
-
-    console.log('upload response is ', uploadResponse);
-    
-    if (!uploadResponse.ok) {
-      const errorText = await uploadResponse.text();
-      throw new Error(`Failed to upload image: ${uploadResponse.status} - ${errorText}`);
-    }
-
-    const mediaData = await uploadResponse.json();
-    return { id: mediaData.id, url: mediaData.source_url };
   } catch (error) {
-    console.error('Error uploading image:', error);
-    return null;
+    console.error('Error setting image alt text and caption:', error);
+  }
+  if (image?.downloadLocation) {
+    await trackUnsplashDownload(image.downloadLocation);
   }
 }
 
 // Helper function to update WordPress post
 async function updateWordPressPost(
+  wp: WordPressClient,
   postId: number,
   title: string,
   content: string,
@@ -155,197 +120,329 @@ async function updateWordPressPost(
   authorId?: number,
   categoryId?: number,
   tagIds?: number[],
-  status: string = 'draft',
-  seoTitle?: string,
-  seoDescription?: string,
-  keywords?: string[],
-  seoScore?: number
-): Promise<boolean> {
-  try {
-    const updateData: any = {
-      title: title,
-      content: content,
-      status: status,
-      featured_media: featuredMediaId,
-    };
-
-    // Add author if provided
-    if (authorId) {
-      updateData.author = authorId;
-    }
-
-    // Add category if provided
-    if (categoryId) {
-      updateData.categories = [categoryId];
-    }
-
-    // Add tags if provided
-    if (tagIds && tagIds.length > 0) {
-      updateData.tags = tagIds;
-    }
+  status: WPPostStatus = 'draft',
+  seoAdapter?: SeoAdapter,
+  seoFields: SeoFields = {},
+  scheduledAt?: Date
+): Promise<WPPost> {
+  const updateData: WPPostUpdate = {
+    title: title,
+    content: content,
+    status: status,
+    featured_media: featuredMediaId,
+  };
+
+  // Scheduled posts need their publish time; GMT so the site timezone can't shift it
+  if (scheduledAt) {
+    updateData.date_gmt = toGmtString(scheduledAt);
+  }
 
-    // Add SEO metadata to update payload - MUST be in meta field for REST API
-    // Using Rank Math meta keys (rank_math_title, rank_math_description, rank_math_focus_keyword)
-    if (seoTitle || seoDescription || keywords?.length > 0 || seoScore !== undefined) {
-      updateData.meta = updateData.meta || {};
-      updateData.meta['rank_math_title'] = seoTitle || '';
-      updateData.meta['rank_math_description'] = seoDescription || '';
-      updateData.meta['rank_math_focus_keyword'] = keywords?.[0] || '';
-      updateData.meta['rank_math_score'] = seoScore?.toString() || '';
-      
-      console.log('[DEBUG] SEO meta fields added to update (Rank Math):', updateData.meta);
-    }
+  // Add author if provided
+  if (authorId) {
+    updateData.author = authorId;
+  }
 
-    console.log('[DEBUG] Final update payload:', JSON.stringify(updateData, null, 2));
+  // Add category if provided
+  if (categoryId) {
+    updateData.categories = [categoryId];
+  }
 
-    const updateResponse = await fetch(`${WP_BASE_URL}/wp/v2/posts/${postId}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': createAuthHeader(WP_USERNAME, WP_PASSWORD),
-      },
-      body: JSON.stringify(updateData),
-    });
+  // Add tags if provided
+  if (tagIds && tagIds.length > 0) {
+    updateData.tags = tagIds;
+  }
 
-    if (!updateResponse.ok) {
-      const errorText = await updateResponse.text();
-      console.error('[DEBUG] WordPress update error:', errorText);
-      throw new Error(`Failed to update post: ${updateResponse.status} - ${errorText}`);
-    }
+  // Add SEO metadata to update payload - MUST be in meta field for REST API,
+  // under the meta keys of the site's SEO plugin
+  const seoEntries = seoAdapter ? seoAdapter.metaEntries(seoFields) : [];
+  if (seoAdapter && seoEntries.length > 0) {
+    updateData.meta = toMetaObject(seoEntries);
+    console.log(`[DEBUG] SEO meta fields added to update (${seoAdapter.name}):`, updateData.meta);
+  }
 
-    const responseData = await updateResponse.json();
-    console.log('[DEBUG] WordPress update response meta:', responseData.meta);
-    console.log('[DEBUG] Updated post data:', JSON.stringify({
-      id: responseData.id,
-      title: responseData.title?.rendered,
-      meta: responseData.meta,
-    }, null, 2));
+  const responseData = await wp.updatePost(postId, updateData);
+  console.log('[DEBUG] Updated post data:', JSON.stringify({
+    id: responseData.id,
+    title: responseData.title?.rendered,
+    meta: responseData.meta,
+  }, null, 2));
 
-    return true;
-  } catch (error) {
-    console.error('Error updating post:', error);
-    return false;
-  }
+  return responseData;
 }
 
 // POST: Publish optimized content to WordPress
 export async function POST(request: NextRequest) {
   try {
     const {
+      siteId,
       postId,
       optimizedTitle,
       optimizedContent,
       suggestedImage,
+      image,
+      imageAlt,
+      imageCaption,
+      imageDescription,
       selectedAuthorId,
       detectedAuthorId,
       seoTitle,
       seoDescription,
       keywords,
-      seoScore,
+      social,
       category,
       tags,
       publish,
+      scheduleAt,
     } = await request.json();
 
     console.log('[DEBUG POST] Received publish request with:');
+    console.log('  - siteId:', siteId);
     console.log('  - postId:', postId);
     console.log('  - seoTitle:', seoTitle);
     console.log('  - seoDescription:', seoDescription);
     console.log('  - keywords:', keywords);
-    console.log('  - seoScore:', seoScore);
     console.log('  - category:', category);
     console.log('  - tags:', tags);
 
-    if (!WP_USERNAME || !WP_PASSWORD) {
+    // Validate before anything is written
+    const scheduledAt = scheduleAt ? parseScheduleDate(scheduleAt) : undefined;
+
+    const { site, wp } = connectToSite(siteId);
+
+    // Compare with the posts already live first. Going live is refused when a
+    // match reaches the site's block threshold; a draft save only reports it.
+    const similarity = await checkSimilarity(site, {
+      postId,
+      title: String(optimizedTitle ?? ''),
+      content: String(optimizedContent ?? ''),
+      keywords: Array.isArray(keywords) ? keywords : [],
+    });
+    if (similarity.matches.length > 0) {
+      console.log('[DEBUG] Similar published posts:', similarity.matches.map((m) => `${m.postId} (${m.score.toFixed(2)})`));
+    }
+    if (similarity.blocked && (publish || scheduledAt)) {
+      const titles = similarity.matches
+        .filter((match) => match.score >= similarity.blockAt)
+        .map((match) => `"${match.title}"`);
       return NextResponse.json(
-        { success: false, error: "Missing WordPress credentials" },
-        { status: 400 }
+        { success: false, error: `Too similar to published content: ${titles.join(', ')}`, similarity },
+        { status: 409 }
       );
     }
 
+    // Step 0: Snapshot the post before anything is changed, so the publish
+    // can be rolled back. No snapshot, no publish.
+    const snapshot = await createSnapshot(site, wp, postId, 'publish');
+    console.log('[DEBUG] Snapshot taken:', snapshot.id, 'revision:', snapshot.revisionId);
+
     let featuredMediaId: number | undefined;
     let uploadedImageUrl: string | undefined;
-
-    // Step 1: Upload image if provided
-    if (suggestedImage && suggestedImage.trim()) {
+    let uploadedImage: FeaturedImageUpload | null = null;
+
+    // The picked candidate, unless the URL was changed by hand afterwards
+    const pickedImage: ImageCandidate | undefined =
+      image && typeof image.url === 'string' && image.url === suggestedImage ? image : undefined;
+
+    // Step 1: Use the media library image, or upload the image if provided
+    if (pickedImage?.mediaId) {
+      console.log('[DEBUG] Using existing media item:', pickedImage.mediaId);
+      featuredMediaId = pickedImage.mediaId;
+      uploadedImageUrl = pickedImage.url;
+    } else if (suggestedImage && suggestedImage.trim()) {
       console.log('[DEBUG] Attempting to upload image:', suggestedImage);
-      
-      const filename = `featured-image-${postId}-${Date.now()}.jpg`;
-      const uploadResult = await uploadImageToWordPress(suggestedImage, filename);
-      
-      if (uploadResult) {
-        console.log('[DEBUG] Image uploaded successfully:', uploadResult);
-        featuredMediaId = uploadResult.id;
-        uploadedImageUrl = uploadResult.url;
+
+      // The file is named after the primary keyword
+      const primaryKeyword = Array.isArray(keywords) ? keywords[0] : undefined;
+      uploadedImage = await uploadImageToWordPress(wp, site, suggestedImage, primaryKeyword, postId);
+
+      if (uploadedImage) {
+        console.log('[DEBUG] Image uploaded successfully:', uploadedImage);
+        featuredMediaId = uploadedImage.id;
+        uploadedImageUrl = uploadedImage.url;
+
+        // Alt text: the editor's, the provider's description of the photo,
+        // the AI's image description, or the title as a last resort
+        const titleText = String(optimizedTitle ?? '').replace(/<[^>]*>/g, '');
+        const altText = [imageAlt, pickedImage?.alt, imageDescription, titleText]
+          .find((text) => typeof text === 'string' && text.trim()) ?? '';
+        const caption = typeof imageCaption === 'string' ? imageCaption : '';
+        await describeImage(wp, uploadedImage.id, altText.trim(), caption, pickedImage);
       } else {
         console.warn('[DEBUG] Failed to upload image, continuing without it');
       }
     }
 
-    // Step 2: Resolve detected author and other metadata
+    // Step 2: Resolve the author and other metadata
     console.log('[DEBUG] Publishing post with auto-detected metadata:');
     console.log('  - Detected Author:', detectedAuthorId);
+    console.log('  - Selected Author:', selectedAuthorId);
     console.log('  - Category:', category);
     console.log('  - Tags:', tags);
     console.log('  - SEO Title:', seoTitle);
     console.log('  - SEO Description:', seoDescription);
 
-    // Get author ID from detected author slug
-    const authorId = await getUserIdByName(detectedAuthorId);
-    console.log('[DEBUG] Resolved author:', detectedAuthorId, '-> ID:', authorId);
+    // The editor's pick wins; otherwise the rules decide from what is
+    // being published, with the optimizer's author as the fallback
+    const overrideUser = await getOverrideUser(wp, selectedAuthorId);
+    const authorAssignment = await resolveAuthor(site, {
+      category,
+      tags: Array.isArray(tags) ? tags : [],
+      keywords: Array.isArray(keywords) ? keywords : [],
+      title: optimizedTitle,
+      suggested: detectedAuthorId,
+      override: overrideUser ? { slug: overrideUser.slug, name: overrideUser.name } : undefined,
+    });
+    const authorId = overrideUser?.id ?? await authorUserId(site, wp, authorAssignment.author);
+    console.log('[DEBUG] Resolved author:', authorAssignment.name, '-> ID:', authorId, authorAssignment.reasons);
+
+    // Get or create category and tags according to the site's term policy
+    const categoryReport = await resolveTerms(
+      wp,
+      'categories',
+      category ? [category] : [],
+      getTermPolicy(site, 'categories')
+    );
+    const categoryId = termIds(categoryReport)[0];
+    console.log('[DEBUG] Resolved category:', category, '->', categoryReport);
+
+    const tagReport = await resolveTerms(
+      wp,
+      'tags',
+      Array.isArray(tags) ? tags : [],
+      getTermPolicy(site, 'tags')
+    );
+    const tagIds = termIds(tagReport);
+    console.log('[DEBUG] Resolved tags:', tags, '->', tagReport);
 
-    // Get category ID
-    let categoryId: number | undefined;
-    if (category) {
-      categoryId = await getCategoryIdByName(category);
-      console.log('[DEBUG] Resolved category:', category, '-> ID:', categoryId);
-    }
+    // Sanitize (the content may have been edited) and convert to blocks
+    const content = prepareContentForPublish(optimizedContent ?? '', {
+      blockMarkup: site.content?.blockMarkup ?? true,
+    });
 
-    // Get tag IDs
-    let tagIds: number[] = [];
-    if (tags && tags.length > 0) {
-      tagIds = await getTagIdsByNames(tags);
-      console.log('[DEBUG] Resolved tags:', tags, '-> IDs:', tagIds);
-    }
-    
-    const success = await updateWordPressPost(
+    // Score what is actually being published, not what the client reports
+    const seoAnalysis = analyzeSeo({
+      seoTitle: seoTitle ?? '',
+      seoDescription: seoDescription ?? '',
+      content,
+      keywords: Array.isArray(keywords) ? keywords : [],
+      siteUrl: getSiteWordPressConfig(site).baseUrl,
+    });
+    console.log('[DEBUG] SEO analysis score:', seoAnalysis.score);
+
+    const seoAdapter = getSeoAdapter(site.seoPlugin);
+    const seoFields: SeoFields = {
+      title: seoTitle,
+      description: seoDescription,
+      keywords,
+      score: seoAnalysis.score,
+      // The share image is the featured image as uploaded
+      facebook: readSocialFields(social?.facebook, { url: uploadedImageUrl, id: featuredMediaId }),
+      twitter: readSocialFields(social?.twitter, { url: uploadedImageUrl, id: featuredMediaId }),
+    };
+
+    const updatedPost = await updateWordPressPost(
+      wp,
       postId,
       optimizedTitle,
-      optimizedContent,
+      content,
       featuredMediaId,
       authorId || undefined,
       categoryId,
       tagIds.length > 0 ? tagIds : undefined,
-      publish ? 'publish' : 'draft',
-      seoTitle,
-      seoDescription,
-      keywords,
-      seoScore
+      scheduledAt ? 'future' : publish ? 'publish' : 'draft',
+      seoAdapter,
+      seoFields,
+      scheduledAt
     );
 
-    if (!success) {
-      throw new Error('Failed to update post');
+    // JSON-LD from what was actually published, validated before it is saved
+    let structuredData: StructuredDataResult | undefined;
+    let structuredDataWrite: StructuredDataWriteResult | undefined;
+    if (site.structuredData?.enabled !== false) {
+      structuredData = validateStructuredData(buildStructuredData(site, {
+        title: optimizedTitle ?? '',
+        description: seoDescription ?? '',
+        content,
+        keywords: Array.isArray(keywords) ? keywords : [],
+        category,
+        authorName: authorAssignment.name,
+        authorUrl: authorUrl(site, authorAssignment.author),
+        imageUrl: uploadedImageUrl,
+        datePublished: gmtInstant(updatedPost.date_gmt),
+        dateModified: gmtInstant(updatedPost.modified_gmt),
+        url: updatedPost.link,
+      }));
+      if (structuredData.valid) {
+        structuredDataWrite = await saveStructuredData(site, wp, postId, structuredData);
+        console.log('[DEBUG] Structured data saved:', structuredData.types, structuredDataWrite);
+      } else {
+        console.warn('[DEBUG] Structured data failed validation, not saved:', structuredData.issues);
+      }
+    }
+
+    if (authorId && (scheduledAt || publish)) {
+      recordAssignment(site, authorAssignment.author);
+    }
+
+    // Keep the internal link index current; it is only a suggestion source,
+    // so a failure here doesn't fail the publish
+    try {
+      const categorySlugs = [...categoryReport.matched, ...categoryReport.created].map((term) => term.slug);
+      await updateIndexedPost(site, updatedPost, categorySlugs);
+    } catch (error) {
+      console.warn('[DEBUG] Link index update failed:', error);
+    }
+
+    // Read the meta back to confirm the SEO plugin's keys were actually stored
+    const seoResult = await verifySeoMeta(wp, postId, seoAdapter, seoFields);
+    if (!seoResult.allStored) {
+      console.warn('[DEBUG] Some SEO fields were not stored:', seoResult.checks.filter((c) => !c.stored));
     }
 
     return NextResponse.json({
       success: true,
       data: {
+        siteId: site.id,
         postId,
+        snapshot_id: snapshot.id,
+        scheduled_at: scheduledAt?.toISOString(),
         imageUrl: uploadedImageUrl || suggestedImage,
         featured_media_id: featuredMediaId,
+        image_credit: pickedImage && featuredMediaId ? formatCreditText(pickedImage) || undefined : undefined,
+        image_source_url: pickedImage?.sourceUrl,
+        image_file: uploadedImage && {
+          filename: uploadedImage.filename,
+          mime_type: uploadedImage.mimeType,
+          width: uploadedImage.width,
+          height: uploadedImage.height,
+          source_mime_type: uploadedImage.sourceMimeType,
+          reused: uploadedImage.reused,
+        },
         author_id: authorId,
+        author: { id: authorId, ...authorAssignment },
         category_id: categoryId,
         tag_ids: tagIds,
+        terms: {
+          categories: categoryReport,
+          tags: tagReport,
+        },
         seo_title: seoTitle,
         seo_description: seoDescription,
-        detected_author: detectedAuthorId,
+        social: { facebook: seoFields.facebook, twitter: seoFields.twitter },
+        seo: seoResult,
+        seo_analysis: seoAnalysis,
+        similarity,
+        structured_data: structuredData && {
+          types: structuredData.types,
+          valid: structuredData.valid,
+          issues: structuredData.issues,
+          saved: structuredDataWrite,
+        },
+        detected_author: authorAssignment.author,
       },
     });
   } catch (error) {
     console.error("Error publishing post:", error);
-    return NextResponse.json(
-      { success: false, error: "Failed to publish post" },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to publish post");
   }
 }
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { parseScheduleDate, reschedulePost } from "@/lib/schedule";
+import { connectToSite } from "@/lib/sites";
+
+// PATCH: Move a scheduled post to a new date (ISO instant)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const postId = Number((await params).postId);
+    const { siteId, date } = await request.json();
+
+    if (!Number.isInteger(postId) || postId < 1) {
+      return NextResponse.json(
+        { success: false, error: "Invalid post id" },
+        { status: 400 }
+      );
+    }
+
+    const scheduledAt = parseScheduleDate(date);
+    const { wp } = connectToSite(siteId);
+
+    return NextResponse.json({
+      success: true,
+      data: await reschedulePost(wp, postId, scheduledAt),
+    });
+  } catch (error) {
+    console.error("Error rescheduling post:", error);
+    return errorResponse(error, "Failed to reschedule post");
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { planForSite, type SlotRequest } from "@/lib/schedule";
+import { connectToSite } from "@/lib/sites";
+
+// POST: Assign each post the next free publishing slot. Nothing is written;
+// publish each post with its slot's date as scheduleAt to apply the plan.
+export async function POST(request: NextRequest) {
+  try {
+    const { siteId, posts } = await request.json();
+
+    const requests: SlotRequest[] = Array.isArray(posts)
+      ? posts
+          .filter((post) => Number.isInteger(post?.postId))
+          .map((post) => ({
+            postId: post.postId,
+            category: typeof post.category === "string" ? post.category : undefined,
+          }))
+      : [];
+
+    if (requests.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "posts must be a non-empty array of { postId, category? }" },
+        { status: 400 }
+      );
+    }
+
+    const { site, wp } = connectToSite(siteId);
+    return NextResponse.json({
+      success: true,
+      data: await planForSite(site, wp, requests),
+    });
+  } catch (error) {
+    console.error("Error planning schedule:", error);
+    return errorResponse(error, "Failed to plan schedule");
+  }
+}
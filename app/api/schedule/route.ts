@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { getScheduleSettings, listScheduledPosts, ScheduleError } from "@/lib/schedule";
+import { connectToSite } from "@/lib/sites";
+
+function parseInstant(value: string | null, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ScheduleError(`Invalid ${name}: ${value}`, 400);
+  }
+  return date;
+}
+
+// GET: Scheduled (status "future") posts between from and to (ISO instants,
+// both optional), with the site's publishing slots
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const from = parseInstant(searchParams.get("from"), "from");
+    const to = parseInstant(searchParams.get("to"), "to");
+
+    const { site, wp } = connectToSite(searchParams.get("siteId"));
+    const posts = await listScheduledPosts(wp, { from, to });
+
+    return NextResponse.json({
+      success: true,
+      data: posts,
+      settings: getScheduleSettings(site.schedule),
+    });
+  } catch (error) {
+    console.error("Error fetching scheduled posts:", error);
+    return errorResponse(error, "Failed to fetch scheduled posts");
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { listSites, toPublicSite } from "@/lib/sites";
+
+// GET: List configured WordPress sites (without credentials)
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: listSites().map(toPublicSite),
+    });
+  } catch (error) {
+    console.error("Error loading sites:", error);
+    return errorResponse(error, "Failed to load sites");
+  }
+}
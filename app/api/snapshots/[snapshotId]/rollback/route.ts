@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { connectToSite } from "@/lib/sites";
+import { rollbackToSnapshot } from "@/lib/snapshots";
+
+// POST: Restore a post (fields and SEO meta) to a snapshot. The replaced
+// state is snapshotted first, so the rollback can itself be rolled back.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ snapshotId: string }> }
+) {
+  try {
+    const { snapshotId } = await params;
+    const { siteId } = await request.json();
+    const { site, wp } = connectToSite(siteId);
+
+    const result = await rollbackToSnapshot(site, wp, snapshotId);
+    if (result.unrestoredMeta.length > 0) {
+      console.warn('[DEBUG] Meta not restored:', result.unrestoredMeta);
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error rolling back post:", error);
+    return errorResponse(error, "Failed to roll back post");
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { connectToSite } from "@/lib/sites";
+import { compareSnapshot } from "@/lib/snapshots";
+
+// GET: A snapshot next to the live post, with the fields that differ
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ snapshotId: string }> }
+) {
+  try {
+    const { snapshotId } = await params;
+    const { site, wp } = connectToSite(request.nextUrl.searchParams.get("siteId"));
+
+    return NextResponse.json({
+      success: true,
+      data: await compareSnapshot(site, wp, snapshotId),
+    });
+  } catch (error) {
+    console.error("Error comparing snapshot:", error);
+    return errorResponse(error, "Failed to compare snapshot");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api";
+import { getSite } from "@/lib/sites";
+import { listSnapshots } from "@/lib/snapshots";
+
+// GET: Snapshots taken of a post before it was published, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const site = getSite(searchParams.get("siteId"));
+    const postId = Number(searchParams.get("postId"));
+
+    if (!Number.isInteger(postId) || postId < 1) {
+      return NextResponse.json(
+        { success: false, error: "postId is required" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listSnapshots(site.id, postId),
+    });
+  } catch (error) {
+    console.error("Error listing snapshots:", error);
+    return errorResponse(error, "Failed to list snapshots");
+  }
+}
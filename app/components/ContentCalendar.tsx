@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { htmlToText } from "@/lib/diff/blocks";
+import type { ScheduledPost } from "@/lib/schedule/calendar";
+import { addDays, zonedDay, zonedTime, zonedToUtc } from "@/lib/schedule/time";
+
+const DAYS_SHOWN = 14;
+
+const navButtonClass =
+  "px-3 py-1 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors text-xs";
+
+function dayLabel(day: string): string {
+  // Noon UTC keeps the label on the same calendar day in every browser zone
+  return new Date(`${day}T12:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+// Two weeks of scheduled posts in the site's time zone. Dragging a post onto
+// another day keeps its time of day and reschedules it in WordPress.
+export default function ContentCalendar({
+  siteId,
+  timeZone,
+  refreshKey,
+}: {
+  siteId: string;
+  timeZone: string;
+  // Changed by the parent after scheduling posts, to reload
+  refreshKey: number;
+}) {
+  const [today] = useState(() => zonedDay(new Date(), timeZone));
+  const [start, setStart] = useState(today);
+  const [posts, setPosts] = useState<ScheduledPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    async function loadPosts() {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          siteId,
+          from: zonedToUtc(start, "00:00", timeZone).toISOString(),
+          to: zonedToUtc(addDays(start, DAYS_SHOWN), "00:00", timeZone).toISOString(),
+        });
+        const response = await fetch(`/api/schedule?${params}`);
+        const data = await response.json();
+        if (data.success) {
+          setPosts(data.data);
+        } else {
+          setError(data.error || "Failed to load scheduled posts");
+        }
+      } catch (err) {
+        setError("Error loading scheduled posts");
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadPosts();
+  }, [siteId, timeZone, start, refreshKey, reloadKey]);
+
+  const reschedule = async (postId: number, day: string) => {
+    const post = posts.find((p) => p.id === postId);
+    if (!post || zonedDay(new Date(post.date), timeZone) === day) return;
+
+    const date = zonedToUtc(day, zonedTime(new Date(post.date), timeZone), timeZone).toISOString();
+    setError(null);
+    // Move it right away; a failed request reloads the real schedule
+    setPosts((prev) => prev.map((p) => (p.id === postId ? { ...p, date } : p)));
+
+    try {
+      const response = await fetch(`/api/schedule/${postId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ siteId, date }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || "Failed to reschedule");
+        setReloadKey((key) => key + 1);
+      }
+    } catch (err) {
+      setError("Error rescheduling post");
+      console.error(err);
+      setReloadKey((key) => key + 1);
+    }
+  };
+
+  const days = Array.from({ length: DAYS_SHOWN }, (_, i) => addDays(start, i));
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-zinc-200 bg-white dark:border-zinc-700 dark:bg-zinc-900">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h2 className="font-semibold text-zinc-700 dark:text-zinc-300">
+          Scheduled posts{" "}
+          <span className="text-xs font-normal text-zinc-500 dark:text-zinc-400">({timeZone})</span>
+        </h2>
+        <div className="flex gap-2">
+          <button onClick={() => setStart(addDays(start, -7))} disabled={start <= today} className={`${navButtonClass} disabled:opacity-50`}>
+            ← Week
+          </button>
+          <button onClick={() => setStart(today)} className={navButtonClass}>
+            Today
+          </button>
+          <button onClick={() => setStart(addDays(start, 7))} className={navButtonClass}>
+            Week →
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-700 dark:text-red-400">{error}</p>}
+      {loading && <p className="mb-2 text-sm text-zinc-500 dark:text-zinc-400">Loading...</p>}
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.map((day) => {
+          const past = day < today;
+          const dayPosts = posts
+            .filter((post) => zonedDay(new Date(post.date), timeZone) === day)
+            .sort((a, b) => a.date.localeCompare(b.date));
+
+          return (
+            <div
+              key={day}
+              onDragOver={(e) => {
+                if (!past) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                reschedule(Number(e.dataTransfer.getData("text/plain")), day);
+              }}
+              className={`min-h-24 p-1 rounded border text-xs ${
+                day === today
+                  ? "border-blue-400 dark:border-blue-600"
+                  : "border-zinc-200 dark:border-zinc-700"
+              } ${past ? "opacity-50" : ""}`}
+            >
+              <div className="mb-1 font-medium text-zinc-600 dark:text-zinc-400">{dayLabel(day)}</div>
+              {dayPosts.map((post) => (
+                <div
+                  key={post.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData("text/plain", String(post.id))}
+                  title={`${htmlToText(post.title)} (${post.categories.join(", ") || "uncategorized"})`}
+                  className="mb-1 p-1 rounded bg-blue-50 text-blue-900 dark:bg-blue-900/30 dark:text-blue-100 cursor-move truncate"
+                >
+                  <span className="font-mono">{zonedTime(new Date(post.date), timeZone)}</span>{" "}
+                  {htmlToText(post.title)}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+        Drag a post to another day to reschedule it at the same time.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useMemo } from "react";
+import { diffContent, findMissingFacts, type BlockChange, type FactKind } from "@/lib/diff";
+
+const FACT_LABELS: Record<FactKind, string> = {
+  number: "Numbers",
+  quote: "Quotes",
+  url: "Links",
+  name: "Names",
+};
+
+const CHANGE_STYLES: Record<BlockChange["type"], string> = {
+  same: "border-zinc-200 dark:border-zinc-700",
+  added: "border-green-400 bg-green-50 dark:bg-green-900/20",
+  removed: "border-red-400 bg-red-50 dark:bg-red-900/20 line-through text-zinc-500",
+  moved: "border-blue-400 bg-blue-50 dark:bg-blue-900/20",
+  changed: "border-yellow-400 bg-yellow-50 dark:bg-yellow-900/10",
+};
+
+// Block and word level changes between the original draft and the rewrite,
+// plus facts from the draft the rewrite no longer mentions. Renders text only,
+// never the posts' HTML.
+export default function ContentDiffView({
+  originalHtml,
+  rewrittenHtml,
+}: {
+  originalHtml: string;
+  rewrittenHtml: string;
+}) {
+  const diff = useMemo(() => diffContent(originalHtml, rewrittenHtml), [originalHtml, rewrittenHtml]);
+  const missingFacts = useMemo(
+    () => findMissingFacts(originalHtml, rewrittenHtml),
+    [originalHtml, rewrittenHtml]
+  );
+
+  const factsByKind = (Object.keys(FACT_LABELS) as FactKind[])
+    .map((kind) => ({ kind, values: missingFacts.filter((fact) => fact.kind === kind).map((fact) => fact.value) }))
+    .filter((group) => group.values.length > 0);
+
+  return (
+    <div className="space-y-3 text-sm">
+      {factsByKind.length > 0 && (
+        <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded border border-yellow-300 dark:border-yellow-700 text-xs text-yellow-800 dark:text-yellow-200">
+          <p className="font-semibold mb-1">⚠ Facts from the original missing in the rewrite</p>
+          {factsByKind.map((group) => (
+            <p key={group.kind}>
+              <span className="font-medium">{FACT_LABELS[group.kind]}:</span> {group.values.join(" · ")}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+        <span className="text-green-700 dark:text-green-400">+{diff.stats.added} added</span>
+        <span className="text-red-700 dark:text-red-400">−{diff.stats.removed} removed</span>
+        <span className="text-yellow-700 dark:text-yellow-400">~{diff.stats.changed} changed</span>
+        <span className="text-blue-700 dark:text-blue-400">↕{diff.stats.moved} moved</span>
+        <span>{diff.stats.same} unchanged</span>
+      </div>
+
+      {(diff.links.added.length > 0 || diff.links.removed.length > 0) && (
+        <div className="text-xs space-y-1">
+          {diff.links.removed.map((link) => (
+            <p key={`removed-${link}`} className="text-red-700 dark:text-red-400 break-all">− link {link}</p>
+          ))}
+          {diff.links.added.map((link) => (
+            <p key={`added-${link}`} className="text-green-700 dark:text-green-400 break-all">+ link {link}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {diff.changes.map((change, index) => (
+          <div key={index} className={`pl-3 py-1 border-l-4 rounded-r ${CHANGE_STYLES[change.type]}`}>
+            <p className="text-[10px] uppercase tracking-wide text-zinc-500 mb-0.5">
+              {change.block.tag} · {change.type}
+              {change.type === "moved" && ` from block ${change.from + 1}`}
+              {change.type === "changed" && ` · ${Math.round(change.similarity * 100)}% similar`}
+            </p>
+            <p className={change.block.kind === "heading" ? "font-semibold" : ""}>
+              {change.type === "changed"
+                ? change.words.map((word, i) =>
+                    word.type === "same" ? (
+                      <span key={i}>{word.text}</span>
+                    ) : word.type === "added" ? (
+                      <ins key={i} className="bg-green-200 dark:bg-green-800 no-underline">{word.text}</ins>
+                    ) : (
+                      <del key={i} className="bg-red-200 dark:bg-red-800">{word.text}</del>
+                    )
+                  )
+                : change.block.text}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
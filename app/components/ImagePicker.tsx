@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { formatCreditText, IMAGE_PROVIDER_NAMES } from "@/lib/images/credit";
+import type { ImageCandidate, ImageSearchResult } from "@/lib/images/types";
+
+const inputClass =
+  "flex-1 px-2 py-1 text-sm rounded border border-zinc-300 bg-white text-zinc-800 dark:border-zinc-600 dark:bg-zinc-900 dark:text-zinc-100";
+
+// Featured image gallery: the optimizer's candidates, or the results of a
+// manual search across the site's image providers, plus images generated from
+// the search text. Clicking a thumbnail selects it; the credit shown is what
+// publishing writes into the caption.
+export default function ImagePicker({
+  siteId,
+  candidates,
+  initialQuery,
+  selectedUrl,
+  selected,
+  onSelect,
+}: {
+  siteId: string;
+  candidates: ImageCandidate[];
+  initialQuery: string;
+  // The URL that will be published; may be typed in by hand
+  selectedUrl: string;
+  selected?: ImageCandidate | null;
+  onSelect: (image: ImageCandidate) => void;
+}) {
+  const [query, setQuery] = useState(initialQuery);
+  const [searchResult, setSearchResult] = useState<ImageSearchResult | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shown = searchResult ? searchResult.candidates : candidates;
+
+  const search = async (e: FormEvent) => {
+    e.preventDefault();
+    setSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ siteId, q: query.trim() });
+      const response = await fetch(`/api/images/search?${params}`);
+      const data = await response.json();
+      if (data.success) {
+        setSearchResult(data.data);
+      } else {
+        setError(data.error || "Image search failed");
+      }
+    } catch (err) {
+      setError("Error searching images");
+      console.error(err);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // Generates one image from the search text, adds it first and selects it
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/images/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ siteId, prompt: query.trim() }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        const [image] = data.data.candidates as ImageCandidate[];
+        setSearchResult({ candidates: [image, ...shown], errors: [] });
+        onSelect(image);
+      } else {
+        setError(data.error || "Image generation failed");
+      }
+    } catch (err) {
+      setError("Error generating image");
+      console.error(err);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const credit = selected && selected.url === selectedUrl ? formatCreditText(selected) : "";
+
+  return (
+    <div className="space-y-2">
+      <form onSubmit={search} className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search images"
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={searching || query.trim().length < 3}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {searching ? "Searching..." : "Search"}
+        </button>
+        <button
+          type="button"
+          onClick={generate}
+          disabled={generating || query.trim().length < 3}
+          title="Generate an image from the search text with AI"
+          className="px-3 py-1 text-sm bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+        >
+          {generating ? "Generating..." : "Generate"}
+        </button>
+        {searchResult && (
+          <button
+            type="button"
+            onClick={() => setSearchResult(null)}
+            className="px-3 py-1 text-sm bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors"
+          >
+            Suggestions
+          </button>
+        )}
+      </form>
+
+      {error && <p className="text-xs text-red-700 dark:text-red-400">{error}</p>}
+      {searchResult?.errors.map(({ provider, error }) => (
+        <p key={provider} className="text-xs text-yellow-700 dark:text-yellow-400">
+          {IMAGE_PROVIDER_NAMES[provider]} failed: {error}
+        </p>
+      ))}
+      {shown.length === 0 && !searching && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">No images found.</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {shown.map((image) => (
+          <button
+            key={image.id}
+            type="button"
+            onClick={() => onSelect(image)}
+            title={image.alt || image.id}
+            className={`relative rounded overflow-hidden border-2 ${
+              image.url === selectedUrl ? "border-blue-500" : "border-transparent hover:border-zinc-300 dark:hover:border-zinc-600"
+            }`}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={image.thumbnailUrl} alt={image.alt || ""} loading="lazy" className="w-full h-20 object-cover" />
+            <span className="absolute bottom-0 left-0 px-1 bg-black/60 text-white text-[10px]">
+              {IMAGE_PROVIDER_NAMES[image.provider]}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {credit && (
+        <p className="text-xs text-zinc-600 dark:text-zinc-400">
+          {credit}
+          {selected!.provider !== "ai" && (
+            <>
+              {" · "}
+              <a href={selected!.sourceUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                Source
+              </a>
+            </>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { insertLink, removeLink } from "@/lib/links/suggest";
+import type { LinkSuggestion, LinkSuggestionStatus } from "@/lib/links/types";
+
+const buttonClass = "px-2 py-0.5 rounded text-xs transition-colors disabled:opacity-50";
+
+// Internal link suggestions for one result. Accepting wraps the anchor text in
+// the content in a link; rejecting an accepted one takes the link out again.
+// Changes are reported as one patch of content and suggestion statuses.
+export default function LinkSuggestions({
+  content,
+  suggestions,
+  disabled,
+  onChange,
+}: {
+  content: string;
+  suggestions: LinkSuggestion[];
+  disabled?: boolean;
+  onChange: (patch: { optimizedContent: string; linkSuggestions: LinkSuggestion[] }) => void;
+}) {
+  const setStatus = (suggestion: LinkSuggestion, status: LinkSuggestionStatus, optimizedContent: string) =>
+    onChange({
+      optimizedContent,
+      linkSuggestions: suggestions.map((s) => (s.id === suggestion.id ? { ...s, status } : s)),
+    });
+
+  return (
+    <ul className="space-y-2">
+      {suggestions.map((suggestion) => {
+        // Null once the anchor text was edited out of the content
+        const linked = suggestion.status === "suggested" ? insertLink(content, suggestion) : null;
+        return (
+          <li
+            key={suggestion.id}
+            className={`text-xs ${suggestion.status === "rejected" ? "opacity-50" : ""}`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <span className="font-medium text-zinc-800 dark:text-zinc-200">&ldquo;{suggestion.anchor}&rdquo;</span>
+                {" → "}
+                <a href={suggestion.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 underline">
+                  {suggestion.title}
+                </a>
+                <span className="ml-1 text-zinc-500 dark:text-zinc-400">
+                  ({suggestion.matchedBy === "keyword" ? "focus keyword" : "title"})
+                </span>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {suggestion.status === "suggested" && (
+                  <>
+                    <button
+                      type="button"
+                      disabled={disabled || linked === null}
+                      title={linked === null ? "The anchor text is no longer in the content" : undefined}
+                      onClick={() => linked !== null && setStatus(suggestion, "accepted", linked)}
+                      className={`${buttonClass} bg-green-600 text-white hover:bg-green-700`}
+                    >
+                      Accept
+                    </button>
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => setStatus(suggestion, "rejected", content)}
+                      className={`${buttonClass} bg-zinc-200 text-zinc-800 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600`}
+                    >
+                      Reject
+                    </button>
+                  </>
+                )}
+                {suggestion.status === "accepted" && (
+                  <>
+                    <span className="px-2 py-0.5 rounded bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                      Linked
+                    </span>
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => setStatus(suggestion, "rejected", removeLink(content, suggestion.url))}
+                      className={`${buttonClass} bg-zinc-200 text-zinc-800 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600`}
+                    >
+                      Reject
+                    </button>
+                  </>
+                )}
+                {suggestion.status === "rejected" && (
+                  <button
+                    type="button"
+                    disabled={disabled}
+                    onClick={() => setStatus(suggestion, "suggested", content)}
+                    className={`${buttonClass} bg-zinc-200 text-zinc-800 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600`}
+                  >
+                    Undo
+                  </button>
+                )}
+              </div>
+            </div>
+            <p className="mt-0.5 text-zinc-500 dark:text-zinc-400">{suggestion.context}</p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState, type FormEvent, type ReactNode } from "react";
+
+// Filters for the post listing, sent as /api/wp-posts query parameters
+export interface PostFilterValues {
+  status: string;
+  author: string;
+  category: string;
+  tag: string;
+  after: string;
+  before: string;
+  search: string;
+  dedupe: boolean;
+}
+
+export const DEFAULT_POST_FILTERS: PostFilterValues = {
+  status: "draft",
+  author: "",
+  category: "",
+  tag: "",
+  after: "",
+  before: "",
+  search: "",
+  dedupe: false,
+};
+
+const STATUS_OPTIONS = [
+  { value: "draft", label: "Drafts" },
+  { value: "pending", label: "Pending review" },
+  { value: "future", label: "Scheduled" },
+  { value: "private", label: "Private" },
+  { value: "draft,pending", label: "Drafts and pending" },
+];
+
+const inputClass =
+  "px-2 py-1 text-sm rounded border border-zinc-300 bg-white text-zinc-800 dark:border-zinc-600 dark:bg-zinc-900 dark:text-zinc-100";
+
+function FilterField({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-xs text-zinc-500 dark:text-zinc-400">
+      {label}
+      {children}
+    </label>
+  );
+}
+
+interface PostFiltersProps {
+  value: PostFilterValues;
+  authors: Array<{ id: number; name: string }>;
+  categories: string[];
+  disabled?: boolean;
+  onChange: (value: PostFilterValues) => void;
+}
+
+// Selects, dates and the dedupe toggle apply immediately; search and tag are
+// typed, so they apply on Enter or "Apply" rather than on every keystroke.
+export default function PostFilters({ value, authors, categories, disabled, onChange }: PostFiltersProps) {
+  const [search, setSearch] = useState(value.search);
+  const [tag, setTag] = useState(value.tag);
+
+  const update = (patch: Partial<PostFilterValues>) => onChange({ ...value, ...patch });
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    update({ search: search.trim(), tag: tag.trim() });
+  };
+
+  const reset = () => {
+    setSearch("");
+    setTag("");
+    onChange(DEFAULT_POST_FILTERS);
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="mb-6 flex flex-wrap items-end gap-3 p-4 rounded-lg border border-zinc-200 bg-white dark:border-zinc-700 dark:bg-zinc-900"
+    >
+      <FilterField label="Search">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Title or content"
+          className={inputClass}
+        />
+      </FilterField>
+      <FilterField label="Status">
+        <select
+          value={value.status}
+          onChange={(e) => update({ status: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          {STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </FilterField>
+      <FilterField label="Author">
+        <select
+          value={value.author}
+          onChange={(e) => update({ author: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">Any author</option>
+          {authors.map((author) => (
+            <option key={author.id} value={author.id}>
+              {author.name}
+            </option>
+          ))}
+        </select>
+      </FilterField>
+      <FilterField label="Category">
+        <select
+          value={value.category}
+          onChange={(e) => update({ category: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">Any category</option>
+          {categories.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+      </FilterField>
+      <FilterField label="Tag">
+        <input
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          placeholder="Slug or name"
+          className={`${inputClass} w-32`}
+        />
+      </FilterField>
+      <FilterField label="From">
+        <input
+          type="date"
+          value={value.after}
+          max={value.before || undefined}
+          onChange={(e) => update({ after: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </FilterField>
+      <FilterField label="To">
+        <input
+          type="date"
+          value={value.before}
+          min={value.after || undefined}
+          onChange={(e) => update({ before: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </FilterField>
+      <label className="flex items-center gap-2 pb-1 text-sm text-zinc-700 dark:text-zinc-300">
+        <input
+          type="checkbox"
+          checked={value.dedupe}
+          onChange={(e) => update({ dedupe: e.target.checked })}
+          disabled={disabled}
+        />
+        Hide duplicate titles
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={disabled}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={reset}
+          disabled={disabled}
+          className="px-3 py-1 text-sm bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import type { ImageCandidate } from "@/lib/images/types";
+import type { LinkSuggestion } from "@/lib/links/types";
+import {
+  SEO_DESCRIPTION_MAX,
+  SEO_DESCRIPTION_MIN,
+  SEO_TITLE_MAX,
+  SEO_TITLE_MIN,
+  SOCIAL_DESCRIPTION_MAX,
+  SOCIAL_DESCRIPTION_MIN,
+  SOCIAL_TITLE_MAX,
+  SOCIAL_TITLE_MIN,
+} from "@/lib/optimizer/limits";
+import type { SocialText } from "@/lib/optimizer/types";
+import type { SocialNetwork } from "@/lib/seo/adapters";
+
+// The fields of an optimization result an editor can change before publishing
+export interface ReviewFields {
+  optimizedTitle: string;
+  seoTitle: string;
+  seoDescription: string;
+  // Missing on results from before social cards were generated
+  social?: Record<SocialNetwork, SocialText>;
+  keywords: string[];
+  category: string;
+  tags: string[];
+  // WordPress user chosen by the editor; unset leaves it to the assignment rules
+  selectedAuthorId?: number;
+  suggestedImage: string;
+  // Picked from the image gallery; null once a URL is typed in by hand
+  selectedImage?: ImageCandidate | null;
+  // Written to the uploaded media item; alt text is derived when empty
+  imageAlt?: string;
+  imageCaption?: string;
+  optimizedContent: string;
+  // Accepted and rejected internal links; kept in step with optimizedContent
+  linkSuggestions?: LinkSuggestion[];
+}
+
+const NETWORK_NAMES: Record<SocialNetwork, string> = {
+  facebook: "Facebook",
+  twitter: "X",
+};
+
+const inputClass =
+  "w-full px-2 py-1 text-sm rounded border border-zinc-300 bg-white text-zinc-800 dark:border-zinc-600 dark:bg-zinc-900 dark:text-zinc-100";
+
+function LengthCounter({ length, min, max }: { length: number; min: number; max: number }) {
+  const color =
+    length > max
+      ? "text-red-600 dark:text-red-400"
+      : length < min
+        ? "text-yellow-600 dark:text-yellow-400"
+        : "text-green-600 dark:text-green-400";
+  return (
+    <span className={`text-xs ${color}`}>
+      {length} / {min}-{max}
+    </span>
+  );
+}
+
+function Field({ label, extra, children }: { label: string; extra?: ReactNode; children: ReactNode }) {
+  return (
+    <label className="block">
+      <span className="flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400 mb-1">
+        {label}
+        {extra}
+      </span>
+      {children}
+    </label>
+  );
+}
+
+// Comma separated list; keeps its own text so typing ", " isn't swallowed
+function ListInput({ value, onChange }: { value: string[]; onChange: (value: string[]) => void }) {
+  const [text, setText] = useState(value.join(", "));
+  return (
+    <input
+      className={inputClass}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(e.target.value.split(",").map((item) => item.trim()).filter(Boolean));
+      }}
+    />
+  );
+}
+
+// Visual (contentEditable) or raw HTML editing of the post body. The visual
+// pane is uncontrolled while typing so the caret doesn't jump; it is
+// re-seeded from the value whenever the mode switches back to it.
+function HtmlEditor({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const [mode, setMode] = useState<"visual" | "html">("visual");
+  const [seed, setSeed] = useState(value);
+
+  const switchTo = (next: "visual" | "html") => {
+    if (next === "visual") setSeed(value);
+    setMode(next);
+  };
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-1">
+        {(["visual", "html"] as const).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => switchTo(m)}
+            className={`px-2 py-0.5 rounded text-xs ${
+              mode === m
+                ? "bg-blue-600 text-white"
+                : "bg-zinc-200 text-zinc-700 dark:bg-zinc-700 dark:text-zinc-200"
+            }`}
+          >
+            {m === "visual" ? "Visual" : "HTML"}
+          </button>
+        ))}
+      </div>
+      {mode === "visual" ? (
+        <div
+          contentEditable
+          suppressContentEditableWarning
+          className={`${inputClass} min-h-48 max-h-96 overflow-y-auto prose-sm`}
+          dangerouslySetInnerHTML={{ __html: seed }}
+          onInput={(e) => onChange(e.currentTarget.innerHTML)}
+        />
+      ) : (
+        <textarea
+          className={`${inputClass} font-mono text-xs min-h-48`}
+          rows={14}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )}
+    </div>
+  );
+}
+
+// Inline editing of a result before it is published; changes are reported
+// as patches so the parent can keep them apart from the model's output.
+export default function ResultEditor({
+  value,
+  categories,
+  authors,
+  assignedAuthor,
+  onChange,
+}: {
+  value: ReviewFields;
+  categories: string[];
+  authors: Array<{ id: number; name: string }>;
+  // Name of the author the rules picked
+  assignedAuthor: string;
+  onChange: (patch: Partial<ReviewFields>) => void;
+}) {
+  const categoryOptions = categories.includes(value.category) ? categories : [value.category, ...categories];
+
+  return (
+    <div className="space-y-3">
+      <Field label="Title">
+        <input
+          className={inputClass}
+          value={value.optimizedTitle}
+          onChange={(e) => onChange({ optimizedTitle: e.target.value })}
+        />
+      </Field>
+
+      <Field
+        label="SEO Title"
+        extra={<LengthCounter length={value.seoTitle.length} min={SEO_TITLE_MIN} max={SEO_TITLE_MAX} />}
+      >
+        <input
+          className={inputClass}
+          value={value.seoTitle}
+          onChange={(e) => onChange({ seoTitle: e.target.value })}
+        />
+      </Field>
+
+      <Field
+        label="SEO Description"
+        extra={
+          <LengthCounter
+            length={value.seoDescription.length}
+            min={SEO_DESCRIPTION_MIN}
+            max={SEO_DESCRIPTION_MAX}
+          />
+        }
+      >
+        <textarea
+          className={inputClass}
+          rows={3}
+          value={value.seoDescription}
+          onChange={(e) => onChange({ seoDescription: e.target.value })}
+        />
+      </Field>
+
+      {value.social && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {(Object.keys(NETWORK_NAMES) as SocialNetwork[]).map((network) => {
+            const social = value.social!;
+            const card = social[network];
+            const update = (patch: Partial<SocialText>) =>
+              onChange({ social: { ...social, [network]: { ...card, ...patch } } });
+            return (
+              <div key={network} className="space-y-2">
+                <Field
+                  label={`${NETWORK_NAMES[network]} title`}
+                  extra={<LengthCounter length={card.title.length} min={SOCIAL_TITLE_MIN} max={SOCIAL_TITLE_MAX} />}
+                >
+                  <input
+                    className={inputClass}
+                    value={card.title}
+                    onChange={(e) => update({ title: e.target.value })}
+                  />
+                </Field>
+                <Field
+                  label={`${NETWORK_NAMES[network]} description`}
+                  extra={
+                    <LengthCounter
+                      length={card.description.length}
+                      min={SOCIAL_DESCRIPTION_MIN}
+                      max={SOCIAL_DESCRIPTION_MAX}
+                    />
+                  }
+                >
+                  <textarea
+                    className={inputClass}
+                    rows={2}
+                    value={card.description}
+                    onChange={(e) => update({ description: e.target.value })}
+                  />
+                </Field>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Field label="Keywords (comma separated)">
+        <ListInput value={value.keywords} onChange={(keywords) => onChange({ keywords })} />
+      </Field>
+
+      <Field label="Author">
+        <select
+          className={inputClass}
+          value={value.selectedAuthorId ?? ""}
+          onChange={(e) => onChange({ selectedAuthorId: e.target.value ? Number(e.target.value) : undefined })}
+        >
+          <option value="">Automatic ({assignedAuthor})</option>
+          {authors.map((author) => (
+            <option key={author.id} value={author.id}>
+              {author.name}
+            </option>
+          ))}
+        </select>
+      </Field>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Field label="Category">
+          <select
+            className={inputClass}
+            value={value.category}
+            onChange={(e) => onChange({ category: e.target.value })}
+          >
+            {categoryOptions.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+        </Field>
+
+        <Field label="Tags (comma separated)">
+          <ListInput value={value.tags} onChange={(tags) => onChange({ tags })} />
+        </Field>
+      </div>
+
+      <Field label="Featured image URL">
+        <input
+          className={inputClass}
+          value={value.suggestedImage}
+          onChange={(e) => onChange({ suggestedImage: e.target.value, selectedImage: null })}
+        />
+      </Field>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Field label="Image alt text">
+          <input
+            className={inputClass}
+            value={value.imageAlt ?? ""}
+            placeholder={value.selectedImage?.alt || "From the image description"}
+            onChange={(e) => onChange({ imageAlt: e.target.value })}
+          />
+        </Field>
+        <Field label="Image caption (credit is added)">
+          <input
+            className={inputClass}
+            value={value.imageCaption ?? ""}
+            onChange={(e) => onChange({ imageCaption: e.target.value })}
+          />
+        </Field>
+      </div>
+
+      <div>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1">Content</p>
+        <HtmlEditor
+          value={value.optimizedContent}
+          onChange={(optimizedContent) => onChange({ optimizedContent })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import type { SimilarityReport } from "@/lib/similarity/types";
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Published posts a result duplicates or competes with for its keyword,
+// linked so the editor can compare. Red when publishing would be refused.
+export default function SimilarityWarning({ report }: { report: SimilarityReport }) {
+  const tone = report.blocked
+    ? "bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700 text-red-800 dark:text-red-200"
+    : "bg-yellow-50 dark:bg-yellow-900/20 border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200";
+
+  return (
+    <div className={`p-3 rounded border text-xs ${tone}`}>
+      <p className="font-medium mb-1">
+        {report.blocked
+          ? `⛔ Too similar to published content; publishing is blocked at ${percent(report.blockAt)}`
+          : "⚠ Similar to published content"}
+      </p>
+      <ul className="space-y-1">
+        {report.matches.map((match) => (
+          <li key={match.postId}>
+            <a href={match.link} target="_blank" rel="noopener noreferrer" className="underline font-medium">
+              {match.title}
+            </a>{" "}
+            <span className={match.score >= report.blockAt ? "font-bold" : ""}>{percent(match.score)}</span>
+            {match.reasons.length > 0 && <span className="opacity-80"> · {match.reasons.join(" · ")}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
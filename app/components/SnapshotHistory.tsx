@@ -0,0 +1,211 @@
+"use client";
+
+import { useState } from "react";
+import ContentDiffView from "@/app/components/ContentDiffView";
+import type { SnapshotComparison, SnapshotSummary } from "@/lib/snapshots/types";
+import type { WPPost } from "@/lib/wordpress/types";
+
+const REASON_LABELS: Record<SnapshotSummary["reason"], string> = {
+  publish: "Before publish",
+  rollback: "Before rollback",
+};
+
+const buttonClass =
+  "px-3 py-1 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors text-xs";
+
+// Pre-publish snapshots of one post: list them, compare one with the live
+// post, and roll back to it. Loaded on first open and after each rollback.
+export default function SnapshotHistory({
+  siteId,
+  postId,
+  onRolledBack,
+}: {
+  siteId: string;
+  postId: number;
+  onRolledBack?: (post: WPPost) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[] | null>(null);
+  const [comparison, setComparison] = useState<SnapshotComparison | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setBusy("list");
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/snapshots?siteId=${encodeURIComponent(siteId)}&postId=${postId}`
+      );
+      const data = await response.json();
+      if (data.success) {
+        setSnapshots(data.data);
+      } else {
+        setError(data.error || "Failed to load snapshots");
+      }
+    } catch (err) {
+      setError("Error loading snapshots");
+      console.error(err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggle = () => {
+    if (!open && snapshots === null) load();
+    setOpen(!open);
+  };
+
+  const compare = async (snapshotId: string) => {
+    if (comparison?.snapshot.id === snapshotId) {
+      setComparison(null);
+      return;
+    }
+    setBusy(snapshotId);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/snapshots/${snapshotId}?siteId=${encodeURIComponent(siteId)}`
+      );
+      const data = await response.json();
+      if (data.success) {
+        setComparison(data.data);
+      } else {
+        setError(data.error || "Failed to compare snapshot");
+      }
+    } catch (err) {
+      setError("Error comparing snapshot");
+      console.error(err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const rollback = async (snapshot: SnapshotSummary) => {
+    const when = new Date(snapshot.createdAt).toLocaleString();
+    if (!confirm(`Restore this post (content, terms and SEO meta) to the snapshot from ${when}?`)) return;
+
+    setBusy(snapshot.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/snapshots/${snapshot.id}/rollback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ siteId }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        const unrestored: string[] = data.data.unrestoredMeta;
+        setMessage(
+          `Restored snapshot from ${when}.` +
+            (unrestored.length > 0 ? ` Meta not restored: ${unrestored.join(", ")}.` : "")
+        );
+        setComparison(null);
+        onRolledBack?.(data.data.post);
+        await load();
+      } else {
+        setError(data.error || "Failed to roll back");
+      }
+    } catch (err) {
+      setError("Error rolling back");
+      console.error(err);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-zinc-50 dark:bg-zinc-800/50 rounded-lg border border-zinc-200 dark:border-zinc-700">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-zinc-700 dark:text-zinc-300">History</h3>
+        <button onClick={toggle} className={buttonClass}>
+          {open ? "Hide snapshots" : "Show snapshots"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-3 text-sm">
+          {message && <p className="text-green-700 dark:text-green-400">{message}</p>}
+          {error && <p className="text-red-700 dark:text-red-400">{error}</p>}
+          {busy === "list" && <p className="text-zinc-500 dark:text-zinc-400">Loading snapshots...</p>}
+          {snapshots?.length === 0 && (
+            <p className="text-zinc-500 dark:text-zinc-400">
+              No snapshots yet. One is taken each time the post is published or saved as a draft from here.
+            </p>
+          )}
+
+          {snapshots?.map((snapshot) => (
+            <div key={snapshot.id} className="rounded border border-zinc-200 dark:border-zinc-700 p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <div className="font-medium text-zinc-800 dark:text-zinc-100">
+                    {new Date(snapshot.createdAt).toLocaleString()} · {REASON_LABELS[snapshot.reason]}
+                  </div>
+                  <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {snapshot.status}
+                    {snapshot.revisionId && ` · WP revision #${snapshot.revisionId}`}
+                    {" · "}
+                    {snapshot.title}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => compare(snapshot.id)}
+                    disabled={busy !== null}
+                    className={buttonClass}
+                  >
+                    {comparison?.snapshot.id === snapshot.id ? "Hide comparison" : "Compare with live"}
+                  </button>
+                  <button
+                    onClick={() => rollback(snapshot)}
+                    disabled={busy !== null}
+                    className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 transition-colors text-xs"
+                  >
+                    {busy === snapshot.id ? "Working..." : "Roll back"}
+                  </button>
+                </div>
+              </div>
+
+              {comparison?.snapshot.id === snapshot.id && (
+                <div className="mt-3 space-y-3">
+                  {comparison.changes.length === 0 ? (
+                    <p className="text-zinc-500 dark:text-zinc-400">The live post matches this snapshot.</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-zinc-500 dark:text-zinc-400">
+                          <th className="pr-2">Field</th>
+                          <th className="pr-2">Snapshot</th>
+                          <th>Live</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {comparison.changes
+                          .filter((change) => change.field !== "content")
+                          .map((change) => (
+                            <tr key={change.field} className="align-top">
+                              <td className="pr-2 font-mono">{change.field}</td>
+                              <td className="pr-2 break-words">{change.snapshot || "(empty)"}</td>
+                              <td className="break-words">{change.current || "(empty)"}</td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                  )}
+                  {comparison.changes.some((change) => change.field === "content") && (
+                    <ContentDiffView
+                      originalHtml={comparison.snapshot.post.content}
+                      rewrittenHtml={comparison.current.content}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
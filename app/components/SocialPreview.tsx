@@ -0,0 +1,68 @@
+"use client";
+
+import type { SocialText } from "@/lib/optimizer/types";
+import type { SocialNetwork } from "@/lib/seo/adapters";
+
+function hostname(url?: string): string {
+  try {
+    return url ? new URL(url).hostname.replace(/^www\./, "") : "";
+  } catch {
+    return "";
+  }
+}
+
+// Cropped to the card's 1.91:1 frame the way the networks crop it
+function CardImage({ image, className = "" }: { image?: string; className?: string }) {
+  return image ? (
+    <div
+      className={`aspect-[1.91/1] bg-cover bg-center bg-zinc-200 dark:bg-zinc-700 ${className}`}
+      style={{ backgroundImage: `url(${JSON.stringify(image)})` }}
+    />
+  ) : (
+    <div className={`aspect-[1.91/1] flex items-center justify-center bg-zinc-200 text-xs text-zinc-500 dark:bg-zinc-700 dark:text-zinc-400 ${className}`}>
+      No image
+    </div>
+  );
+}
+
+// How the link card will look when the post is shared on Facebook and X,
+// using the featured image publish will set as the share image
+export default function SocialPreview({
+  social,
+  image,
+  siteUrl,
+}: {
+  social: Record<SocialNetwork, SocialText>;
+  image?: string;
+  siteUrl?: string;
+}) {
+  const domain = hostname(siteUrl);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1">Facebook</p>
+        <div className="rounded border border-zinc-300 dark:border-zinc-600 overflow-hidden bg-white dark:bg-zinc-900">
+          <CardImage image={image} />
+          <div className="px-3 py-2 bg-zinc-100 dark:bg-zinc-800">
+            <p className="text-[11px] uppercase text-zinc-500 dark:text-zinc-400 truncate">{domain}</p>
+            <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 line-clamp-2">{social.facebook.title}</p>
+            <p className="text-xs text-zinc-600 dark:text-zinc-400 line-clamp-1">{social.facebook.description}</p>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1">X</p>
+        <div className="relative rounded-2xl border border-zinc-300 dark:border-zinc-600 overflow-hidden">
+          <CardImage image={image} />
+          <span className="absolute left-2 bottom-2 max-w-[90%] px-1.5 py-0.5 rounded bg-black/70 text-xs text-white truncate">
+            {social.twitter.title}
+          </span>
+        </div>
+        <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400 truncate">From {domain}</p>
+        <p className="text-xs text-zinc-600 dark:text-zinc-400 line-clamp-2">{social.twitter.description}</p>
+      </div>
+    </div>
+  );
+}
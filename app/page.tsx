@@ -1,6 +1,33 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import ContentCalendar from "@/app/components/ContentCalendar";
+import ContentDiffView from "@/app/components/ContentDiffView";
+import PostFilters, { DEFAULT_POST_FILTERS, type PostFilterValues } from "@/app/components/PostFilters";
+import ResultEditor, { type ReviewFields } from "@/app/components/ResultEditor";
+import ImagePicker from "@/app/components/ImagePicker";
+import LinkSuggestions from "@/app/components/LinkSuggestions";
+import SimilarityWarning from "@/app/components/SimilarityWarning";
+import SnapshotHistory from "@/app/components/SnapshotHistory";
+import SocialPreview from "@/app/components/SocialPreview";
+import type { AuthorAssignment } from "@/lib/authors/types";
+import { sanitizeContent } from "@/lib/content/sanitize";
+import { htmlToText } from "@/lib/diff/blocks";
+import { IMAGE_PROVIDER_NAMES } from "@/lib/images/credit";
+import type { ImageCandidate } from "@/lib/images/types";
+import type { LinkSuggestion } from "@/lib/links/types";
+import { zonedToUtc } from "@/lib/schedule/time";
+import { analyzeSeo } from "@/lib/seo/analyzer";
+import type { SimilarityReport } from "@/lib/similarity/types";
+import type {
+  StructuredDataIssue,
+  StructuredDataResult,
+  StructuredDataWriteResult,
+} from "@/lib/structured-data/types";
+import type { JobItem, OptimizationJob } from "@/lib/jobs/types";
+import { extractPartialJsonString } from "@/lib/optimizer/partial";
+import type { OptimizeStreamEvent } from "@/lib/optimizer/types";
+import { readSse } from "@/lib/sse";
 
 interface WPPost {
   id: number;
@@ -22,17 +49,25 @@ interface WPPost {
       source_url: string;
       alt_text: string;
     }>;
+    "wp:term"?: Array<Array<{
+      slug: string;
+      taxonomy: string;
+    }>>;
   };
 }
 
 interface APIResponse {
   success: boolean;
+  error?: string;
   data: WPPost[];
+  // Only with dedupe=title
+  duplicates?: Array<{ id: number; title: string; duplicateOf: number }>;
   pagination: {
     total: number;
     totalPages: number;
     currentPage: number;
     perPage: number;
+    hasMore: boolean;
   };
   timestamp: string;
 }
@@ -43,14 +78,30 @@ interface OptimizationResult {
   optimizedContent: string;
   suggestedImage: string;
   imageSource: string;
+  imageCandidates?: ImageCandidate[];
+  imageQuery?: string;
+  selectedImage?: ImageCandidate | null;
+  imageAlt?: string;
+  imageCaption?: string;
+  linkSuggestions?: LinkSuggestion[];
+  similarity?: SimilarityReport;
+  structuredData?: StructuredDataResult;
+  // The editor's choice; without one publish assigns by the site's rules
   selectedAuthorId?: number;
+  authorAssignment?: AuthorAssignment;
   keywords: string[];
   seoScore: number;
   seoTitle: string;
   seoDescription: string;
+  social?: ReviewFields["social"];
   category: string;
   tags: string[];
   detectedAuthor: string;
+  defaultedFields?: string[];
+  repairAttempts?: number;
+  provider?: string;
+  model?: string;
+  promptTemplate?: { id: string; version: number };
 }
 
 interface WPAuthor {
@@ -59,55 +110,282 @@ interface WPAuthor {
   slug: string;
 }
 
+interface LiveStream {
+  step: string;
+  raw: string;
+  error?: string;
+  controller: AbortController;
+}
+
+interface Site {
+  id: string;
+  name: string;
+  baseUrl: string;
+  seoPlugin: string;
+  categories: string[];
+  authors: Array<{
+    slug: string;
+    name: string;
+    categories: string[];
+  }>;
+  defaultCategory: string;
+  defaultAuthor: string;
+  schedule: {
+    timeZone: string;
+    slots: string[];
+    perCategory: boolean;
+  };
+}
+
+interface TermReport {
+  matched: Array<{ requested: string; name: string; via: string }>;
+  created: Array<{ requested: string; name: string }>;
+  rejected: Array<{ requested: string; reason: string }>;
+}
+
 interface PublishStatus {
   [postId: number]: {
     publishing: boolean;
     published: boolean;
     error: string | null;
     imageUrl?: string;
+    // Attribution written into the featured image's caption
+    imageCredit?: string;
+    // Pre-publish snapshot the post can be rolled back to
+    snapshotId?: string;
+    scheduledAt?: string;
+    terms?: {
+      categories: TermReport;
+      tags: TermReport;
+    };
+    seo?: {
+      plugin: string;
+      allStored: boolean;
+      checks: Array<{ field: string; key: string; stored: boolean }>;
+    };
+    // Check of the content as it was published (or refused)
+    similarity?: SimilarityReport;
+    // Who the post went out under, and why
+    author?: AuthorAssignment & { id: number | null };
+    // JSON-LD built on publish; only saved when valid
+    structuredData?: {
+      types: string[];
+      valid: boolean;
+      issues: StructuredDataIssue[];
+      saved?: StructuredDataWriteResult;
+    };
   };
 }
 
+const jobStorageKey = (siteId: string) => `optimizationJob:${siteId}`;
+
+// Posts per request; further pages load as the list is scrolled
+const POSTS_PAGE_SIZE = 20;
+
+function postsUrl(siteId: string, filters: PostFilterValues, page: number): string {
+  const params = new URLSearchParams({
+    siteId,
+    status: filters.status,
+    page: String(page),
+    per_page: String(POSTS_PAGE_SIZE),
+  });
+  for (const key of ["author", "category", "tag", "after", "before", "search"] as const) {
+    if (filters[key]) params.set(key, filters[key]);
+  }
+  if (filters.dedupe) params.set("dedupe", "title");
+  return `/api/wp-posts?${params}`;
+}
+
+// Same key the route's title dedupe uses
+const titleKey = (post: WPPost) => (post.title?.rendered || "").trim().toLowerCase();
+
+const isJobActive = (job: OptimizationJob | null) =>
+  job?.status === "queued" || job?.status === "running";
+
+// Map finished job items onto result cards; failed items fall back to the
+// original post so the error is visible next to it.
+function buildResults(
+  job: OptimizationJob,
+  posts: WPPost[],
+  selectedAuthorId: number | null
+): OptimizationResult[] {
+  return job.items.flatMap((item: JobItem): OptimizationResult[] => {
+    if (item.status === "succeeded" && item.result) {
+      return [{
+        postId: item.postId,
+        ...item.result,
+        selectedAuthorId: selectedAuthorId || undefined,
+      }];
+    }
+
+    const post = posts.find((p) => p.id === item.postId);
+    if (item.status !== "failed" || !post) return [];
+
+    return [{
+      postId: item.postId,
+      optimizedTitle: post.title.rendered,
+      optimizedContent: post.content.rendered,
+      suggestedImage: "",
+      imageSource: `Error during optimization: ${item.error ?? "unknown error"}`,
+      selectedAuthorId: selectedAuthorId || undefined,
+      keywords: [],
+      seoScore: 0,
+      seoTitle: '',
+      seoDescription: '',
+      category: '',
+      tags: [],
+      detectedAuthor: '',
+    }];
+  });
+}
+
 export default function Home() {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
   const [posts, setPosts] = useState<WPPost[]>([]);
   const [authors, setAuthors] = useState<WPAuthor[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedPosts, setSelectedPosts] = useState<number[]>([]);
-  const [optimizing, setOptimizing] = useState(false);
-  const [optimizationProgress, setOptimizationProgress] = useState<{
-    current: number;
-    total: number;
-  } | null>(null);
+  const [job, setJob] = useState<OptimizationJob | null>(null);
+  const [streams, setStreams] = useState<Record<number, LiveStream>>({});
   const [results, setResults] = useState<OptimizationResult[]>([]);
   const [expandedPosts, setExpandedPosts] = useState<number[]>([]);
+  const [diffPosts, setDiffPosts] = useState<number[]>([]);
+  // Editor changes per post, applied on top of the model's result so that
+  // refreshed job results don't overwrite them
+  const [edits, setEdits] = useState<Record<number, Partial<ReviewFields>>>({});
+  const [editingPosts, setEditingPosts] = useState<number[]>([]);
   const [publishStatus, setPublishStatus] = useState<PublishStatus>({});
   const [selectedAuthorId, setSelectedAuthorId] = useState<number | null>(null);
+  const [filters, setFilters] = useState<PostFilterValues>(DEFAULT_POST_FILTERS);
+  const [pagination, setPagination] = useState<APIResponse["pagination"] | null>(null);
+  const [duplicates, setDuplicates] = useState<NonNullable<APIResponse["duplicates"]>>([]);
+  const [loadingPosts, setLoadingPosts] = useState(false);
+  const [postsError, setPostsError] = useState<string | null>(null);
+  const [showCalendar, setShowCalendar] = useState(false);
+  // Bumped after scheduling so the calendar reloads
+  const [calendarVersion, setCalendarVersion] = useState(0);
+  // "YYYY-MM-DDTHH:MM" per post, in the site's time zone; empty means next free slot
+  const [scheduleInputs, setScheduleInputs] = useState<Record<number, string>>({});
+  const [scheduling, setScheduling] = useState(false);
+  // Bumped on every reload so responses for outdated filters are dropped
+  const postsRequest = useRef(0);
+  const listEnd = useRef<HTMLDivElement>(null);
+  // The listed posts as of the last render, for deduping later pages against
+  const listedPosts = useRef<WPPost[]>([]);
+  useEffect(() => {
+    listedPosts.current = posts;
+  }, [posts]);
+
+  const currentSite = sites.find((site) => site.id === selectedSiteId);
 
   useEffect(() => {
-    async function fetchInitialData() {
+    async function fetchSites() {
       try {
-        setLoading(true);
-        
-        // Fetch draft posts
-        const postsResponse = await fetch("/api/wp-posts?status=draft&per_page=100");
-        const postsData: APIResponse = await postsResponse.json();
+        const sitesResponse = await fetch("/api/sites");
+        const sitesData = await sitesResponse.json();
 
-        if (postsData.success) {
-          setPosts(postsData.data);
+        if (sitesData.success && sitesData.data.length > 0) {
+          setSites(sitesData.data);
+          setSelectedSiteId(sitesData.data[0].id);
         } else {
-          setError("Failed to fetch draft posts");
+          setError(sitesData.error || "No WordPress sites configured");
+          setLoading(false);
         }
+      } catch (err) {
+        setError("Error fetching sites");
+        setLoading(false);
+        console.error(err);
+      }
+    }
+
+    fetchSites();
+  }, []);
+
+  // Loads one page of posts; page 1 replaces the list, later pages append
+  const loadPosts = useCallback(async (siteId: string, postFilters: PostFilterValues, page: number) => {
+    const request = page === 1 ? ++postsRequest.current : postsRequest.current;
+    setLoadingPosts(true);
+    if (page === 1) setPostsError(null);
+    try {
+      const response = await fetch(postsUrl(siteId, postFilters, page));
+      const data: APIResponse = await response.json();
+      if (request !== postsRequest.current) return null;
+
+      if (!data.success) {
+        setPostsError(data.error || "Failed to fetch posts");
+        return null;
+      }
+
+      if (page === 1) {
+        setPosts(data.data);
+        setDuplicates(data.duplicates ?? []);
+        // Keep only selections that are still listed
+        setSelectedPosts((prev) => prev.filter((id) => data.data.some((post) => post.id === id)));
+      } else {
+        // The route only dedupes within the page; titles already listed from
+        // earlier pages are caught here
+        const listed = listedPosts.current;
+        const keptTitles = new Map(listed.map((post) => [titleKey(post), post.id]));
+        const crossPage: NonNullable<APIResponse["duplicates"]> = [];
+        const added = data.data.filter((post) => {
+          if (listed.some((p) => p.id === post.id)) return false;
+          const original = postFilters.dedupe ? keptTitles.get(titleKey(post)) : undefined;
+          if (original === undefined) return true;
+          crossPage.push({ id: post.id, title: post.title.rendered, duplicateOf: original });
+          return false;
+        });
+        setPosts((prev) => [...prev, ...added.filter((post) => !prev.some((p) => p.id === post.id))]);
+        setDuplicates((prev) => [...prev, ...(data.duplicates ?? []), ...crossPage]);
+      }
+      setPagination(data.pagination);
+      return data.data;
+    } finally {
+      if (request === postsRequest.current) setLoadingPosts(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!selectedSiteId) return;
+
+    async function fetchSiteData(siteId: string) {
+      try {
+        setLoading(true);
+        setError(null);
+        setSelectedPosts([]);
+        setResults([]);
+        setEdits({});
+        setEditingPosts([]);
+        setPublishStatus({});
+
+        // Fetch the first page of draft posts; filters start over per site
+        setPosts([]);
+        setFilters(DEFAULT_POST_FILTERS);
+        const firstPage = await loadPosts(siteId, DEFAULT_POST_FILTERS, 1);
 
         // Fetch authors
-        const authorsResponse = await fetch("/api/wp-authors");
+        const authorsResponse = await fetch(`/api/wp-authors?siteId=${encodeURIComponent(siteId)}`);
         const authorsData = await authorsResponse.json();
 
         if (authorsData.success) {
           setAuthors(authorsData.data);
-          // Set default author to first one if available
-          if (authorsData.data.length > 0) {
-            setSelectedAuthorId(authorsData.data[0].id);
+        }
+        // No override by default; the site's assignment rules pick
+        setSelectedAuthorId(null);
+
+        // Pick up the last optimization job for this site (it keeps running
+        // server-side even if the tab was closed)
+        setJob(null);
+        const storedJobId = localStorage.getItem(jobStorageKey(siteId));
+        if (storedJobId) {
+          const jobResponse = await fetch(`/api/jobs/${storedJobId}`);
+          const jobData = await jobResponse.json();
+          if (jobData.success) {
+            setJob(jobData.data);
+            setResults(buildResults(jobData.data, firstPage ?? [], null));
+          } else {
+            localStorage.removeItem(jobStorageKey(siteId));
           }
         }
       } catch (err) {
@@ -118,8 +396,41 @@ export default function Home() {
       }
     }
 
-    fetchInitialData();
-  }, []);
+    fetchSiteData(selectedSiteId);
+  }, [selectedSiteId, loadPosts]);
+
+  // Infinite scroll: fetch the next page when the end of the list is in view
+  useEffect(() => {
+    const end = listEnd.current;
+    if (!end || !selectedSiteId || !pagination?.hasMore || loadingPosts) return;
+
+    const nextPage = pagination.currentPage + 1;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (!entries[0]?.isIntersecting) return;
+        observer.disconnect();
+        loadPosts(selectedSiteId, filters, nextPage).catch((err) => {
+          setPostsError("Error fetching posts");
+          console.error(err);
+        });
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(end);
+    return () => observer.disconnect();
+  }, [selectedSiteId, filters, pagination, loadingPosts, loadPosts]);
+
+  const applyFilters = (next: PostFilterValues) => {
+    if (!selectedSiteId) return;
+    setFilters(next);
+    loadPosts(selectedSiteId, next, 1).catch((err) => {
+      setPostsError("Error fetching posts");
+      console.error(err);
+    });
+  };
+
+  const authorName = (slug: string) =>
+    currentSite?.authors.find((author) => author.slug === slug)?.name ?? slug;
 
   const togglePostSelection = (postId: number, e?: React.MouseEvent) => {
     e?.stopPropagation();
@@ -146,105 +457,221 @@ export default function Home() {
     );
   };
 
+  const toggleDiff = (postId: number) => {
+    setDiffPosts((prev) =>
+      prev.includes(postId)
+        ? prev.filter((id) => id !== postId)
+        : [...prev, postId]
+    );
+  };
+
+  const toggleEditing = (postId: number) => {
+    setEditingPosts((prev) =>
+      prev.includes(postId)
+        ? prev.filter((id) => id !== postId)
+        : [...prev, postId]
+    );
+  };
+
+  const editResult = (postId: number, patch: Partial<ReviewFields>) => {
+    setEdits((prev) => ({ ...prev, [postId]: { ...prev[postId], ...patch } }));
+  };
+
+  const resetEdits = (postId: number) => {
+    setEdits((prev) => {
+      const next = { ...prev };
+      delete next[postId];
+      return next;
+    });
+    setEditingPosts((prev) => prev.filter((id) => id !== postId));
+  };
+
+  const optimizing = isJobActive(job);
+  const jobId = job?.id;
+
+  // Poll the running job for progress and results
+  useEffect(() => {
+    if (!jobId || !optimizing) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        const data = await response.json();
+        if (!data.success) return;
+
+        const updated: OptimizationJob = data.data;
+        setJob(updated);
+        setResults(buildResults(updated, posts, selectedAuthorId));
+
+        if (!isJobActive(updated)) {
+          // Auto-expand all optimized posts
+          setExpandedPosts(updated.items.map((item) => item.postId));
+        }
+      } catch (err) {
+        console.error("Error polling optimization job:", err);
+      }
+    }, 2000);
+
+    return () => clearInterval(timer);
+  }, [jobId, optimizing, posts, selectedAuthorId]);
+
   const optimizeWithAI = async () => {
     if (selectedPosts.length === 0) {
       setError("Please select at least one post to optimize");
       return;
     }
 
-    setOptimizing(true);
-    setOptimizationProgress({ current: 0, total: selectedPosts.length });
     setError(null);
     setResults([]);
+    setEdits({});
+    setEditingPosts([]);
 
-    const newResults: OptimizationResult[] = [];
+    try {
+      const response = await fetch("/api/jobs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          siteId: selectedSiteId,
+          postIds: selectedPosts,
+        }),
+      });
 
-    for (let i = 0; i < selectedPosts.length; i++) {
-      const postId = selectedPosts[i];
-      const post = posts.find((p) => p.id === postId);
+      const data = await response.json();
 
-      if (!post) continue;
+      if (data.success) {
+        setJob(data.data);
+        if (selectedSiteId) {
+          localStorage.setItem(jobStorageKey(selectedSiteId), data.data.id);
+        }
+      } else {
+        setError(data.error || "Failed to start optimization");
+      }
+    } catch (err) {
+      console.error("Error starting optimization job:", err);
+      setError("Error starting optimization");
+    }
+  };
 
-      try {
-        setOptimizationProgress({ current: i + 1, total: selectedPosts.length });
+  const updateJob = async (action: "cancel" | "resume") => {
+    if (!job) return;
 
-        const response = await fetch("/api/optimize-content", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            title: post.title.rendered,
-            content: post.content.rendered,
-            excerpt: post.excerpt.rendered,
-          }),
-        });
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/${action}`, { method: "POST" });
+      const data = await response.json();
 
-        const data = await response.json();
+      if (data.success) {
+        setJob(data.data);
+      } else {
+        setError(data.error || `Failed to ${action} optimization`);
+      }
+    } catch (err) {
+      console.error(`Error trying to ${action} job:`, err);
+      setError(`Error trying to ${action} optimization`);
+    }
+  };
 
-        if (data.success) {
-          newResults.push({
-            postId,
-            optimizedTitle: data.optimizedTitle,
-            optimizedContent: data.optimizedContent,
-            suggestedImage: data.suggestedImage,
-            imageSource: data.imageSource,
-            selectedAuthorId: selectedAuthorId || undefined,
-            keywords: data.keywords || [],
-            seoScore: data.seoScore || 0,
-            seoTitle: data.seoTitle || data.optimizedTitle,
-            seoDescription: data.seoDescription || '',
-            category: data.category || 'ai-technology',
-            tags: data.tags || [],
-            detectedAuthor: data.detectedAuthor || 'john-mason',
-          });
-        } else {
-          newResults.push({
-            postId,
-            optimizedTitle: post.title.rendered,
-            optimizedContent: post.content.rendered,
-            suggestedImage: "",
-            imageSource: "Failed to generate suggestion",
+  const jobDone = job?.items.filter((item) => item.status !== "pending" && item.status !== "running").length ?? 0;
+  const jobFailed = job?.items.filter((item) => item.status === "failed" || item.status === "cancelled").length ?? 0;
+
+  // Optimize a single post with the model output streamed into its card
+  const streamOptimization = async (post: WPPost) => {
+    const controller = new AbortController();
+    // Ignore late events for a stream the editor already dismissed
+    const updateStream = (patch: Partial<LiveStream>) =>
+      setStreams((prev) =>
+        prev[post.id]?.controller === controller
+          ? { ...prev, [post.id]: { ...prev[post.id], ...patch } }
+          : prev
+      );
+
+    setStreams((prev) => ({
+      ...prev,
+      [post.id]: { step: "starting", raw: "", controller },
+    }));
+
+    try {
+      const response = await fetch("/api/optimize-content/stream", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          siteId: selectedSiteId,
+          postId: post.id,
+          title: post.title.rendered,
+          content: post.content.rendered,
+          excerpt: post.excerpt.rendered,
+          categories: (post._embedded?.["wp:term"] ?? [])
+            .flat()
+            .filter((term) => term.taxonomy === "category")
+            .map((term) => term.slug),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        updateStream({ error: data?.error || "Failed to start optimization" });
+        return;
+      }
+
+      let raw = "";
+      for await (const message of readSse(response.body)) {
+        const event: OptimizeStreamEvent = JSON.parse(message.data);
+
+        if (event.type === "token") {
+          raw += event.text;
+          updateStream({ raw });
+        } else if (event.type === "step") {
+          // A repair attempt or a fallback provider streams a whole new answer
+          if (event.step === "repairing" || event.step === "fallback") raw = "";
+          updateStream({ step: event.step, raw });
+        } else if (event.type === "error") {
+          updateStream({ error: event.error });
+          return;
+        } else if (event.type === "done") {
+          const result: OptimizationResult = {
+            postId: post.id,
+            ...event.result,
             selectedAuthorId: selectedAuthorId || undefined,
-            keywords: [],
-            seoScore: 0,
-            seoTitle: '',
-            seoDescription: '',
-            category: 'ai-technology',
-            tags: [],
-            detectedAuthor: 'john-mason',
+          };
+          setResults((prev) => [...prev.filter((r) => r.postId !== post.id), result]);
+          // A fresh answer replaces whatever was edited on the previous one
+          resetEdits(post.id);
+          setStreams((prev) => {
+            const next = { ...prev };
+            delete next[post.id];
+            return next;
           });
+          return;
         }
-      } catch (err) {
-        console.error(`Error optimizing post ${postId}:`, err);
-        newResults.push({
-          postId,
-          optimizedTitle: post.title.rendered,
-          optimizedContent: post.content.rendered,
-          suggestedImage: "",
-          imageSource: "Error during optimization",
-          selectedAuthorId: selectedAuthorId || undefined,
-          keywords: [],
-          seoScore: 0,
-          seoTitle: '',
-          seoDescription: '',
-          category: 'ai-technology',
-          tags: [],
-          detectedAuthor: 'john-mason',
-        });
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        updateStream({ error: "Aborted" });
+      } else {
+        console.error(`Error streaming post ${post.id}:`, err);
+        updateStream({ error: "Error during optimization" });
       }
     }
+  };
 
-    setResults(newResults);
-    // Auto-expand all optimized posts
-    setExpandedPosts(newResults.map((r) => r.postId));
-    setOptimizing(false);
-    setOptimizationProgress(null);
+  const dismissStream = (postId: number) => {
+    streams[postId]?.controller.abort();
+    setStreams((prev) => {
+      const next = { ...prev };
+      delete next[postId];
+      return next;
+    });
   };
 
+  // scheduleAt (ISO instant) publishes the post as scheduled instead
   const publishToWordPress = async (
     result: OptimizationResult,
-    publish: boolean
+    publish: boolean,
+    scheduleAt?: string
   ) => {
     setPublishStatus((prev) => ({
       ...prev,
@@ -262,19 +689,25 @@ export default function Home() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          siteId: selectedSiteId,
           postId: result.postId,
           optimizedTitle: result.optimizedTitle,
           optimizedContent: result.optimizedContent,
           suggestedImage: result.suggestedImage,
+          image: result.selectedImage ?? undefined,
+          imageAlt: result.imageAlt,
+          imageCaption: result.imageCaption,
+          imageDescription: result.imageQuery,
           selectedAuthorId: result.selectedAuthorId,
           detectedAuthorId: result.detectedAuthor,
           seoTitle: result.seoTitle,
           seoDescription: result.seoDescription,
+          social: result.social,
           keywords: result.keywords,
-          seoScore: result.seoScore,
           category: result.category,
           tags: result.tags,
           publish,
+          scheduleAt,
         }),
       });
 
@@ -288,6 +721,14 @@ export default function Home() {
             published: true,
             error: null,
             imageUrl: data.data?.imageUrl,
+            imageCredit: data.data?.image_credit,
+            snapshotId: data.data?.snapshot_id,
+            scheduledAt: data.data?.scheduled_at,
+            terms: data.data?.terms,
+            seo: data.data?.seo,
+            similarity: data.data?.similarity,
+            structuredData: data.data?.structured_data,
+            author: data.data?.author,
           },
         }));
       } else {
@@ -297,6 +738,7 @@ export default function Home() {
             publishing: false,
             published: false,
             error: data.error || "Failed to publish",
+            similarity: data.similarity,
           },
         }));
       }
@@ -313,12 +755,88 @@ export default function Home() {
     }
   };
 
+  // Selected posts with an unpublished result, as they would be published
+  const schedulable = results
+    .filter((r) => selectedPosts.includes(r.postId) && !publishStatus[r.postId]?.published)
+    .map((r) => ({ ...r, ...edits[r.postId] }));
+
+  // Next free slots for the given results, from the site's publishing slots
+  const planSlots = async (toSchedule: OptimizationResult[]) => {
+    const response = await fetch("/api/schedule/plan", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        siteId: selectedSiteId,
+        posts: toSchedule.map((result) => ({ postId: result.postId, category: result.category })),
+      }),
+    });
+    const data = await response.json();
+    if (!data.success) throw new Error(data.error || "Failed to plan schedule");
+    return data.data as Array<{ postId: number; date: string }>;
+  };
+
+  const scheduleResults = async (toSchedule: OptimizationResult[]) => {
+    if (toSchedule.length === 0) return;
+    setScheduling(true);
+    try {
+      const slots = await planSlots(toSchedule);
+      for (const slot of slots) {
+        const result = toSchedule.find((r) => r.postId === slot.postId);
+        if (result) await publishToWordPress(result, false, slot.date);
+      }
+      setCalendarVersion((version) => version + 1);
+    } catch (err) {
+      setPostsError(err instanceof Error ? err.message : "Error scheduling posts");
+      console.error(err);
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  // A picked time, or the next free slot when none is picked
+  const schedulePost = async (result: OptimizationResult) => {
+    const input = scheduleInputs[result.postId];
+    if (!input || !currentSite) {
+      await scheduleResults([result]);
+      return;
+    }
+    const [day, time] = input.split("T");
+    await publishToWordPress(result, false, zonedToUtc(day, time, currentSite.schedule.timeZone).toISOString());
+    setCalendarVersion((version) => version + 1);
+  };
+
   return (
     <div className="flex min-h-screen flex-col items-center bg-zinc-50 font-sans dark:bg-black p-8">
-      <h1 className="text-3xl font-bold mb-8 text-zinc-800 dark:text-zinc-100">
+      <h1 className="text-3xl font-bold mb-4 text-zinc-800 dark:text-zinc-100">
         Draft Posts - AI Optimization
       </h1>
 
+      {/* Site Switcher */}
+      {sites.length > 0 && (
+        <div className="mb-8 flex items-center gap-2">
+          <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            Site:
+          </label>
+          <select
+            value={selectedSiteId || ""}
+            onChange={(e) => setSelectedSiteId(e.target.value)}
+            disabled={optimizing}
+            className="px-3 py-2 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-600 rounded text-zinc-800 dark:text-zinc-100 hover:border-zinc-400 dark:hover:border-zinc-500 focus:outline-none focus:border-blue-500"
+          >
+            {sites.map((site) => (
+              <option key={site.id} value={site.id}>
+                {site.name}
+              </option>
+            ))}
+          </select>
+          {currentSite && (
+            <span className="text-xs text-zinc-500 dark:text-zinc-400">
+              {currentSite.baseUrl}
+            </span>
+          )}
+        </div>
+      )}
+
       {loading && (
         <div className="text-zinc-600 dark:text-zinc-400">Loading...</div>
       )}
@@ -329,8 +847,32 @@ export default function Home() {
         </div>
       )}
 
-      {!loading && !error && posts.length > 0 && (
+      {!loading && !error && (
         <div className="w-full max-w-7xl">
+          {showCalendar && selectedSiteId && currentSite && (
+            <ContentCalendar
+              key={selectedSiteId}
+              siteId={selectedSiteId}
+              timeZone={currentSite.schedule.timeZone}
+              refreshKey={calendarVersion}
+            />
+          )}
+
+          <PostFilters
+            key={selectedSiteId}
+            value={filters}
+            authors={authors}
+            categories={currentSite?.categories ?? []}
+            disabled={optimizing}
+            onChange={applyFilters}
+          />
+
+          {postsError && (
+            <div className="mb-4 p-3 text-sm bg-red-100 border border-red-400 text-red-700 rounded dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+              {postsError}
+            </div>
+          )}
+
           {/* Action Bar */}
           <div className="mb-6 flex flex-wrap gap-4 items-center justify-between">
             <div className="flex gap-2 items-center flex-wrap">
@@ -338,7 +880,7 @@ export default function Home() {
                 onClick={selectAll}
                 className="px-4 py-2 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors"
               >
-                Select All ({posts.length})
+                Select All ({posts.length}{pagination && pagination.total > posts.length ? ` of ${pagination.total}` : ""})
               </button>
               <button
                 onClick={deselectAll}
@@ -357,9 +899,10 @@ export default function Home() {
                 </label>
                 <select
                   value={selectedAuthorId || ""}
-                  onChange={(e) => setSelectedAuthorId(parseInt(e.target.value))}
+                  onChange={(e) => setSelectedAuthorId(e.target.value ? parseInt(e.target.value) : null)}
                   className="px-3 py-2 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-600 rounded text-zinc-800 dark:text-zinc-100 hover:border-zinc-400 dark:hover:border-zinc-500 focus:outline-none focus:border-blue-500"
                 >
+                  <option value="">Automatic (assignment rules)</option>
                   {authors.map((author) => (
                     <option key={author.id} value={author.id}>
                       {author.name}
@@ -369,23 +912,100 @@ export default function Home() {
               </div>
             </div>
 
-            <button
-              onClick={optimizeWithAI}
-              disabled={optimizing || selectedPosts.length === 0}
-              className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {optimizing
-                ? `Optimizing ${optimizationProgress?.current ?? 0}/${optimizationProgress?.total ?? 0}...`
-                : `Optimize ${selectedPosts.length} Post${selectedPosts.length !== 1 ? "s" : ""} with AI`}
-            </button>
+            <div className="flex gap-2 items-center">
+              <button
+                onClick={() => setShowCalendar(!showCalendar)}
+                className="px-4 py-2 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors"
+              >
+                {showCalendar ? "Hide calendar" : "Calendar"}
+              </button>
+              <button
+                onClick={() => scheduleResults(schedulable)}
+                disabled={scheduling || optimizing || schedulable.length === 0}
+                title={currentSite && `Next free slots: ${currentSite.schedule.slots.join(", ")} (${currentSite.schedule.timeZone})${currentSite.schedule.perCategory ? " per category" : ""}`}
+                className="px-4 py-2 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {scheduling ? "Scheduling..." : `Schedule ${schedulable.length} Optimized`}
+              </button>
+              {optimizing && (
+                <button
+                  onClick={() => updateJob("cancel")}
+                  className="px-4 py-2 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={optimizeWithAI}
+                disabled={optimizing || selectedPosts.length === 0}
+                className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {optimizing
+                  ? `Optimizing ${jobDone}/${job?.items.length ?? 0}...`
+                  : `Optimize ${selectedPosts.length} Post${selectedPosts.length !== 1 ? "s" : ""} with AI`}
+              </button>
+            </div>
           </div>
 
+          {/* Background job status */}
+          {job && !optimizing && (
+            <div className="mb-6 flex items-center gap-4 text-sm text-zinc-600 dark:text-zinc-400">
+              <span>
+                Last optimization job {job.status}: {jobDone - jobFailed} succeeded
+                {jobFailed > 0 && `, ${jobFailed} failed or cancelled`}
+                {job.error && ` (${job.error})`}
+              </span>
+              {jobFailed > 0 && (
+                <button
+                  onClick={() => updateJob("resume")}
+                  className="px-3 py-1 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors"
+                >
+                  Retry {jobFailed}
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Titles hidden by "Hide duplicate titles" */}
+          {duplicates.length > 0 && (
+            <details className="mb-6 text-sm text-zinc-600 dark:text-zinc-400">
+              <summary className="cursor-pointer">
+                {duplicates.length} duplicate title{duplicates.length !== 1 ? "s" : ""} hidden
+              </summary>
+              <ul className="mt-2 space-y-1">
+                {duplicates.map((duplicate) => (
+                  <li key={duplicate.id}>
+                    #{duplicate.id} &quot;{htmlToText(duplicate.title)}&quot; duplicates #{duplicate.duplicateOf}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
           {/* Posts List with Original and Optimized Comparison */}
           <div className="space-y-6">
             {posts.map((post) => {
-              const result = results.find((r) => r.postId === post.id);
+              const generated = results.find((r) => r.postId === post.id);
+              const result = generated && { ...generated, ...edits[post.id] };
+              const isEdited = Boolean(edits[post.id]);
+              const currentSite = sites.find((s) => s.id === selectedSiteId);
+              // Re-scored on every edit; publishing scores the same way
+              const seoAnalysis = result && analyzeSeo({
+                seoTitle: result.seoTitle,
+                seoDescription: result.seoDescription,
+                content: result.optimizedContent,
+                keywords: result.keywords,
+                siteUrl: currentSite?.baseUrl,
+              });
+              const seoScore = seoAnalysis ? seoAnalysis.score : 0;
               const isExpanded = expandedPosts.includes(post.id);
               const status = publishStatus[post.id];
+              // The publish check, once there is one, supersedes the optimizer's
+              const similarity = status?.similarity ?? result?.similarity;
+              const overrideAuthor = result?.selectedAuthorId
+                ? authors.find((author) => author.id === result.selectedAuthorId)
+                : undefined;
+              const stream = streams[post.id];
 
               return (
                 <article
@@ -513,11 +1133,109 @@ export default function Home() {
 
                         {/* Optimized Version */}
                         <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
-                          {result ? (
+                          {stream ? (
                             <>
-                              <h3 className="font-semibold mb-3 text-green-700 dark:text-green-400">
-                                AI Optimized
-                              </h3>
+                              <div className="flex items-center justify-between mb-3">
+                                <h3 className="font-semibold text-green-700 dark:text-green-400">
+                                  Live Rewrite
+                                </h3>
+                                <div className="flex items-center gap-2">
+                                  <span
+                                    className={`px-2 py-0.5 text-xs rounded ${
+                                      stream.error
+                                        ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                                        : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+                                    }`}
+                                  >
+                                    {stream.error ?? `${stream.step}...`}
+                                  </span>
+                                  <button
+                                    onClick={() => dismissStream(post.id)}
+                                    className="px-3 py-1 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors text-xs"
+                                  >
+                                    {stream.error ? "Dismiss" : "Abort"}
+                                  </button>
+                                </div>
+                              </div>
+                              <div
+                                className="text-sm text-green-700 dark:text-green-400 max-h-96 overflow-y-auto"
+                                dangerouslySetInnerHTML={{
+                                  __html: sanitizeContent(
+                                    extractPartialJsonString(stream.raw, "optimizedContent") ?? ""
+                                  ),
+                                }}
+                              />
+                            </>
+                          ) : result ? (
+                            <>
+                              <div className="flex items-center justify-between mb-3">
+                                <h3 className="font-semibold text-green-700 dark:text-green-400">
+                                  AI Optimized
+                                  {result.provider && (
+                                    <span className="ml-2 text-xs font-normal text-zinc-500">
+                                      {result.provider}{result.model ? ` / ${result.model}` : ""}
+                                    </span>
+                                  )}
+                                  {result.promptTemplate && (
+                                    <span className="ml-2 text-xs font-normal text-zinc-500">
+                                      prompt {result.promptTemplate.id} v{result.promptTemplate.version}
+                                    </span>
+                                  )}
+                                </h3>
+                                <button
+                                  onClick={() => streamOptimization(post)}
+                                  disabled={optimizing}
+                                  className="px-3 py-1 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors text-xs"
+                                >
+                                  Regenerate live
+                                </button>
+                              </div>
+
+                              <div className="flex items-center gap-2 mb-3">
+                                <button
+                                  onClick={() => toggleEditing(post.id)}
+                                  className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-xs"
+                                >
+                                  {editingPosts.includes(post.id) ? "Done editing" : "Edit"}
+                                </button>
+                                {isEdited && (
+                                  <>
+                                    <span className="text-xs text-blue-600 dark:text-blue-400">Edited</span>
+                                    <button
+                                      onClick={() => resetEdits(post.id)}
+                                      className="px-3 py-1 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors text-xs"
+                                    >
+                                      Reset to AI version
+                                    </button>
+                                  </>
+                                )}
+                              </div>
+
+                              {editingPosts.includes(post.id) && (
+                                <div className="mb-4 p-3 bg-white dark:bg-zinc-800 rounded border border-blue-200 dark:border-blue-700">
+                                  <ResultEditor
+                                    value={result}
+                                    categories={currentSite?.categories ?? []}
+                                    authors={authors}
+                                    assignedAuthor={authorName(result.detectedAuthor)}
+                                    onChange={(patch) => editResult(post.id, patch)}
+                                  />
+                                </div>
+                              )}
+
+                              {result.defaultedFields && result.defaultedFields.length > 0 && (
+                                <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded border border-yellow-300 dark:border-yellow-700 text-xs text-yellow-800 dark:text-yellow-200">
+                                  ⚠ The AI response failed validation
+                                  {result.repairAttempts ? ` after ${result.repairAttempts} repair attempt${result.repairAttempts !== 1 ? "s" : ""}` : ""}
+                                  ; these fields use fallback values: {result.defaultedFields.join(", ")}
+                                </div>
+                              )}
+
+                              {similarity && similarity.matches.length > 0 && (
+                                <div className="mb-4">
+                                  <SimilarityWarning report={similarity} />
+                                </div>
+                              )}
 
                               {/* SEO Metrics */}
                               <div className="mb-4 p-3 bg-white dark:bg-zinc-800 rounded border border-green-200 dark:border-green-700">
@@ -529,17 +1247,17 @@ export default function Home() {
                                     <div className="w-32 h-2 bg-gray-300 dark:bg-gray-600 rounded-full overflow-hidden">
                                       <div
                                         className={`h-full ${
-                                          result.seoScore >= 80
+                                          seoScore >= 80
                                             ? "bg-green-500"
-                                            : result.seoScore >= 60
+                                            : seoScore >= 60
                                             ? "bg-yellow-500"
                                             : "bg-red-500"
                                         }`}
-                                        style={{ width: `${result.seoScore}%` }}
+                                        style={{ width: `${seoScore}%` }}
                                       />
                                     </div>
                                     <span className="text-lg font-bold text-green-600 dark:text-green-400">
-                                      {result.seoScore}%
+                                      {seoScore}%
                                     </span>
                                   </div>
                                 </div>
@@ -561,6 +1279,53 @@ export default function Home() {
                                   </div>
                                 )}
 
+                                {seoAnalysis && (
+                                  <details className="mb-2">
+                                    <summary className="text-xs font-medium text-zinc-600 dark:text-zinc-400 cursor-pointer">
+                                      SEO checklist ({seoAnalysis.checks.filter((check) => check.passed).length}/{seoAnalysis.checks.length} passed)
+                                    </summary>
+                                    <ul className="mt-2 space-y-1 text-xs">
+                                      {seoAnalysis.checks.map((check) => (
+                                        <li key={check.id} className="flex justify-between gap-2">
+                                          <span className={check.passed ? "text-green-700 dark:text-green-400" : "text-red-700 dark:text-red-400"}>
+                                            {check.passed ? "✓" : "✗"} {check.label}
+                                          </span>
+                                          <span className="text-zinc-500 dark:text-zinc-400 shrink-0">
+                                            {check.detail} · {check.weight} pts
+                                          </span>
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  </details>
+                                )}
+
+                                {result.structuredData && (
+                                  <details className="mb-2">
+                                    <summary className="text-xs font-medium text-zinc-600 dark:text-zinc-400 cursor-pointer">
+                                      Structured data ({result.structuredData.types.join(", ")}){" "}
+                                      {result.structuredData.valid ? "✓" : "✗"}
+                                    </summary>
+                                    {result.structuredData.issues.length > 0 && (
+                                      <ul className="mt-2 space-y-1 text-xs">
+                                        {result.structuredData.issues.map((issue) => (
+                                          <li
+                                            key={`${issue.path}:${issue.message}`}
+                                            className={issue.severity === "error" ? "text-red-700 dark:text-red-400" : "text-yellow-700 dark:text-yellow-400"}
+                                          >
+                                            {issue.path}: {issue.message}
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    )}
+                                    <pre className="mt-2 p-2 max-h-64 overflow-auto text-[11px] bg-zinc-100 dark:bg-zinc-900 rounded">
+                                      {JSON.stringify(result.structuredData.jsonLd, null, 2)}
+                                    </pre>
+                                    <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                                      Rebuilt on publish from the edited content, with the post&apos;s dates and permalink.
+                                    </p>
+                                  </details>
+                                )}
+
                                 {/* SEO Title and Description */}
                                 {result.seoTitle && (
                                   <div>
@@ -589,6 +1354,19 @@ export default function Home() {
                                     </p>
                                   </div>
                                 )}
+
+                                {result.social && (
+                                  <div>
+                                    <p className="text-xs font-medium text-zinc-600 dark:text-zinc-400 mb-2">
+                                      Social Preview:
+                                    </p>
+                                    <SocialPreview
+                                      social={result.social}
+                                      image={status?.imageUrl ?? result.suggestedImage}
+                                      siteUrl={currentSite?.baseUrl}
+                                    />
+                                  </div>
+                                )}
                               </div>
 
                               {/* Auto-detected WordPress metadata */}
@@ -597,9 +1375,18 @@ export default function Home() {
                                   🤖 AUTO-DETECTED WORDPRESS METADATA
                                 </p>
                                 <div className="space-y-2 text-xs">
-                                  <div className="flex justify-between">
-                                    <span className="text-purple-600 dark:text-purple-300">Author:</span>
-                                    <span className="font-semibold text-purple-900 dark:text-purple-100">{result.detectedAuthor}</span>
+                                  <div>
+                                    <div className="flex justify-between">
+                                      <span className="text-purple-600 dark:text-purple-300">Author:</span>
+                                      <span className="font-semibold text-purple-900 dark:text-purple-100">
+                                        {overrideAuthor ? `${overrideAuthor.name} (editor's choice)` : authorName(result.detectedAuthor)}
+                                      </span>
+                                    </div>
+                                    {!overrideAuthor && result.authorAssignment && (
+                                      <p className="mt-0.5 text-right text-purple-600 dark:text-purple-300">
+                                        {result.authorAssignment.reasons.join("; ")}
+                                      </p>
+                                    )}
                                   </div>
                                   <div className="flex justify-between">
                                     <span className="text-purple-600 dark:text-purple-300">Category:</span>
@@ -629,7 +1416,7 @@ export default function Home() {
                                   <p
                                     className="font-medium text-green-800 dark:text-green-200"
                                     dangerouslySetInnerHTML={{
-                                      __html: result.optimizedTitle,
+                                      __html: sanitizeContent(result.optimizedTitle),
                                     }}
                                   />
                                 </div>
@@ -640,14 +1427,27 @@ export default function Home() {
                                   <div
                                     className="text-sm text-green-700 dark:text-green-400 max-h-48 overflow-y-auto"
                                     dangerouslySetInnerHTML={{
-                                      __html: result.optimizedContent,
+                                      __html: sanitizeContent(result.optimizedContent),
                                     }}
                                   />
                                 </div>
+                                {result.linkSuggestions && result.linkSuggestions.length > 0 && (
+                                  <div>
+                                    <p className="text-xs text-green-600 dark:text-green-400 mb-1">
+                                      Internal links ({result.linkSuggestions.filter((link) => link.status === "accepted").length}/{result.linkSuggestions.length} accepted)
+                                    </p>
+                                    <LinkSuggestions
+                                      content={result.optimizedContent}
+                                      suggestions={result.linkSuggestions}
+                                      disabled={status?.published}
+                                      onChange={(patch) => editResult(post.id, patch)}
+                                    />
+                                  </div>
+                                )}
                                 {result.suggestedImage && (
                                   <div>
                                     <p className="text-xs text-green-600 dark:text-green-400 mb-1">
-                                      Suggested Image ({result.imageSource})
+                                      Suggested Image ({result.selectedImage ? IMAGE_PROVIDER_NAMES[result.selectedImage.provider] : result.imageSource})
                                     </p>
                                     <img
                                       src={result.suggestedImage}
@@ -656,6 +1456,26 @@ export default function Home() {
                                     />
                                   </div>
                                 )}
+                                {selectedSiteId && !status?.published && (
+                                  <details>
+                                    <summary className="text-xs text-green-600 dark:text-green-400 cursor-pointer">
+                                      Choose another image
+                                      {result.imageCandidates ? ` (${result.imageCandidates.length} candidates)` : ""}
+                                    </summary>
+                                    <div className="mt-2">
+                                      <ImagePicker
+                                        siteId={selectedSiteId}
+                                        candidates={result.imageCandidates ?? []}
+                                        initialQuery={result.imageQuery ?? htmlToText(result.optimizedTitle)}
+                                        selectedUrl={result.suggestedImage}
+                                        selected={result.selectedImage}
+                                        onSelect={(image) =>
+                                          editResult(post.id, { suggestedImage: image.url, selectedImage: image })
+                                        }
+                                      />
+                                    </div>
+                                  </details>
+                                )}
 
                                 {/* Publish Actions */}
                                 <div className="pt-3 border-t border-green-200 dark:border-green-800">
@@ -664,15 +1484,93 @@ export default function Home() {
                                       Publishing...
                                     </span>
                                   ) : status?.published ? (
-                                    <span className="px-4 py-2 bg-green-100 text-green-800 rounded dark:bg-green-900 dark:text-green-200 text-sm">
-                                      ✓ Published
-                                    </span>
+                                    <div className="space-y-2">
+                                      <span className="inline-block px-4 py-2 bg-green-100 text-green-800 rounded dark:bg-green-900 dark:text-green-200 text-sm">
+                                        {status.scheduledAt
+                                          ? `✓ Scheduled for ${new Date(status.scheduledAt).toLocaleString(undefined, { timeZone: currentSite?.schedule.timeZone, dateStyle: "medium", timeStyle: "short" })}`
+                                          : "✓ Published"}
+                                      </span>
+                                      {status.terms && (
+                                        <div className="text-xs text-zinc-600 dark:text-zinc-400 space-y-1">
+                                          {(["categories", "tags"] as const).map((taxonomy) => {
+                                            const report = status.terms![taxonomy];
+                                            return (
+                                              <p key={taxonomy}>
+                                                <span className="font-medium capitalize">{taxonomy}:</span>{" "}
+                                                {report.matched.length > 0 && (
+                                                  <span>
+                                                    matched {report.matched.map((t) => t.requested === t.name ? t.name : `${t.requested} → ${t.name}`).join(", ")}.{" "}
+                                                  </span>
+                                                )}
+                                                {report.created.length > 0 && (
+                                                  <span className="text-green-700 dark:text-green-400">
+                                                    created {report.created.map((t) => t.name).join(", ")}.{" "}
+                                                  </span>
+                                                )}
+                                                {report.rejected.length > 0 && (
+                                                  <span className="text-red-700 dark:text-red-400">
+                                                    rejected {report.rejected.map((t) => `${t.requested} (${t.reason})`).join(", ")}.
+                                                  </span>
+                                                )}
+                                              </p>
+                                            );
+                                          })}
+                                        </div>
+                                      )}
+                                      {status.imageCredit && (
+                                        <p className="text-xs text-zinc-600 dark:text-zinc-400">
+                                          <span className="font-medium">Featured image:</span> {status.imageCredit}
+                                        </p>
+                                      )}
+                                      {status.seo && status.seo.checks.length > 0 && (
+                                        <p
+                                          className={`text-xs ${
+                                            status.seo.allStored
+                                              ? "text-green-700 dark:text-green-400"
+                                              : "text-red-700 dark:text-red-400"
+                                          }`}
+                                        >
+                                          SEO meta ({status.seo.plugin}):{" "}
+                                          {status.seo.allStored
+                                            ? "all fields confirmed"
+                                            : `not stored: ${status.seo.checks
+                                                .filter((check) => !check.stored)
+                                                .map((check) => check.key)
+                                                .join(", ")}`}
+                                        </p>
+                                      )}
+                                      {status.author && (
+                                        <p className="text-xs text-zinc-600 dark:text-zinc-400">
+                                          Author: {status.author.name}
+                                          {status.author.id === null ? " (no matching WordPress user, unchanged)" : ""}
+                                          {" "}· {status.author.reasons.join("; ")}
+                                        </p>
+                                      )}
+                                      {status.structuredData && (
+                                        <p
+                                          className={`text-xs ${
+                                            status.structuredData.saved?.stored
+                                              ? "text-zinc-600 dark:text-zinc-400"
+                                              : "text-yellow-700 dark:text-yellow-400"
+                                          }`}
+                                        >
+                                          Structured data ({status.structuredData.types.join(", ")}):{" "}
+                                          {!status.structuredData.valid
+                                            ? `not saved, ${status.structuredData.issues.filter((issue) => issue.severity === "error").length} validation errors`
+                                            : status.structuredData.saved?.stored
+                                              ? `saved to ${status.structuredData.saved.key}`
+                                              : status.structuredData.saved?.error
+                                                ? `not saved (${status.structuredData.saved.error})`
+                                                : `not kept by WordPress (${status.structuredData.saved?.key})`}
+                                        </p>
+                                      )}
+                                    </div>
                                   ) : status?.error ? (
                                     <span className="px-4 py-2 bg-red-100 text-red-800 rounded dark:bg-red-900 dark:text-red-200 text-sm">
                                       ✗ {status.error}
                                     </span>
                                   ) : (
-                                    <div className="flex gap-2">
+                                    <div className="flex flex-wrap gap-2">
                                       <button
                                         onClick={() =>
                                           publishToWordPress(result, true)
@@ -689,31 +1587,111 @@ export default function Home() {
                                       >
                                         Save as Draft
                                       </button>
+                                      <input
+                                        type="datetime-local"
+                                        value={scheduleInputs[post.id] ?? ""}
+                                        onChange={(e) =>
+                                          setScheduleInputs((prev) => ({ ...prev, [post.id]: e.target.value }))
+                                        }
+                                        title={`Site time (${currentSite?.schedule.timeZone}); leave empty for the next free slot`}
+                                        className="px-2 py-1 text-sm rounded border border-zinc-300 bg-white text-zinc-800 dark:border-zinc-600 dark:bg-zinc-900 dark:text-zinc-100"
+                                      />
+                                      <button
+                                        onClick={() => schedulePost(result)}
+                                        disabled={scheduling}
+                                        className="px-4 py-2 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors text-sm"
+                                      >
+                                        {scheduleInputs[post.id] ? "Schedule" : "Schedule Next Slot"}
+                                      </button>
                                     </div>
                                   )}
                                 </div>
                               </div>
                             </>
                           ) : (
-                            <div className="text-center py-8 text-zinc-500 dark:text-zinc-400">
-                              Select this post and click "Optimize with AI" to see
-                              the optimized version
+                            <div className="text-center py-8 text-zinc-500 dark:text-zinc-400 space-y-3">
+                              <p>
+                                Select this post and click &quot;Optimize with AI&quot; to see
+                                the optimized version, or watch it being written live.
+                              </p>
+                              <button
+                                onClick={() => streamOptimization(post)}
+                                disabled={optimizing}
+                                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm"
+                              >
+                                Optimize live
+                              </button>
                             </div>
                           )}
                         </div>
                       </div>
+
+                      {/* What the rewrite changed */}
+                      {result && !stream && (
+                        <div className="mt-4 p-4 bg-zinc-50 dark:bg-zinc-800/50 rounded-lg border border-zinc-200 dark:border-zinc-700">
+                          <div className="flex items-center justify-between">
+                            <h3 className="font-semibold text-zinc-700 dark:text-zinc-300">
+                              Changes
+                            </h3>
+                            <button
+                              onClick={() => toggleDiff(post.id)}
+                              className="px-3 py-1 bg-zinc-200 text-zinc-800 rounded hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-100 dark:hover:bg-zinc-600 transition-colors text-xs"
+                            >
+                              {diffPosts.includes(post.id) ? "Hide diff" : "Show diff"}
+                            </button>
+                          </div>
+                          {diffPosts.includes(post.id) && (
+                            <div className="mt-3">
+                              <ContentDiffView
+                                originalHtml={post.content.rendered}
+                                rewrittenHtml={result.optimizedContent}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Pre-publish snapshots; remounted after a publish to pick up the new one */}
+                      {selectedSiteId && (
+                        <SnapshotHistory
+                          key={status?.snapshotId ?? "initial"}
+                          siteId={selectedSiteId}
+                          postId={post.id}
+                          onRolledBack={(restored) =>
+                            setPosts((prev) =>
+                              prev.map((p) =>
+                                p.id === restored.id
+                                  ? {
+                                      ...p,
+                                      title: restored.title,
+                                      content: restored.content,
+                                      excerpt: restored.excerpt,
+                                      status: restored.status,
+                                    }
+                                  : p
+                              )
+                            )
+                          }
+                        />
+                      )}
                     </div>
                   )}
                 </article>
               );
             })}
           </div>
-        </div>
-      )}
 
-      {!loading && !error && posts.length === 0 && (
-        <div className="text-zinc-600 dark:text-zinc-400">
-          No draft posts found.
+          {!loadingPosts && !postsError && posts.length === 0 && (
+            <div className="text-zinc-600 dark:text-zinc-400">
+              No posts match these filters.
+            </div>
+          )}
+
+          <div ref={listEnd} className="py-6 text-center text-sm text-zinc-500 dark:text-zinc-400">
+            {loadingPosts
+              ? "Loading posts..."
+              : pagination && posts.length > 0 && !pagination.hasMore && `All ${pagination.total} posts loaded`}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,7 @@
+// Next.js startup hook: resume optimization jobs interrupted by a restart
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { recoverJobs } = await import('./lib/jobs');
+    await recoverJobs();
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { ImageError } from "./images";
+import { PromptError } from "./prompts";
+import { ScheduleError } from "./schedule";
+import { SiteError } from "./sites";
+import { SnapshotError } from "./snapshots";
+import { PostFilterError, WordPressError } from "./wordpress";
+
+// Shared error response for API routes. WordPress errors keep their REST
+// error code so the dashboard can tell e.g. rest_forbidden from a timeout.
+export function errorResponse(error: unknown, fallbackMessage: string) {
+  if (
+    error instanceof SiteError ||
+    error instanceof PromptError ||
+    error instanceof PostFilterError ||
+    error instanceof SnapshotError ||
+    error instanceof ScheduleError ||
+    error instanceof ImageError
+  ) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof WordPressError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `${fallbackMessage}: ${error.message}`,
+        code: error.code,
+      },
+      { status: error.status >= 500 ? 502 : error.status }
+    );
+  }
+
+  return NextResponse.json(
+    { success: false, error: fallbackMessage },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,86 @@
+import { connectToSite, getSiteWordPressConfig, type SiteConfig } from "../sites";
+import { hasCredentials, type WordPressClient } from "../wordpress";
+import { assignAuthor, authorRules, matchAuthorRules, topCandidates } from "./rules";
+import type { AuthorAssignment, AuthorAssignmentInput } from "./types";
+
+// Assignment with workload balancing: when several authors tie on the top
+// rule priority, the one with the fewest posts published or scheduled in the
+// last balanceDays gets the post. Counts come from the REST API and are
+// cached briefly; publishes in the meantime are added to the cache.
+
+const DEFAULT_BALANCE_DAYS = 14;
+const WORKLOAD_CACHE_MS = 5 * 60 * 1000;
+
+interface CachedCount {
+  count: number;
+  fetchedAt: number;
+}
+
+// `${siteId}:${slug}` -> post count in the window
+const workloadCache = new Map<string, CachedCount>();
+// `${siteId}:${slug}` -> WordPress user ID (null when there is no such user)
+const userIds = new Map<string, number | null>();
+
+export function getBalanceDays(site: SiteConfig): number {
+  return site.authorAssignment?.balanceDays ?? DEFAULT_BALANCE_DAYS;
+}
+
+export async function authorUserId(site: SiteConfig, wp: WordPressClient, slug: string): Promise<number | null> {
+  const key = `${site.id}:${slug}`;
+  if (!userIds.has(key)) {
+    try {
+      const user = await wp.findUserBySlug(slug);
+      userIds.set(key, user ? user.id : null);
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      return null;
+    }
+  }
+  return userIds.get(key) ?? null;
+}
+
+async function countRecentPosts(site: SiteConfig, wp: WordPressClient, slug: string): Promise<number | undefined> {
+  const key = `${site.id}:${slug}`;
+  const cached = workloadCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < WORKLOAD_CACHE_MS) return cached.count;
+
+  const userId = await authorUserId(site, wp, slug);
+  if (!userId) return undefined;
+  const after = new Date(Date.now() - getBalanceDays(site) * 24 * 60 * 60 * 1000);
+  const { total } = await wp.listPosts({
+    author: userId,
+    after: after.toISOString(),
+    status: 'publish,future',
+    per_page: 1,
+    _fields: 'id',
+  });
+  workloadCache.set(key, { count: total, fetchedAt: Date.now() });
+  return total;
+}
+
+// Counts the new post against its author until the next refresh
+export function recordAssignment(site: SiteConfig, slug: string): void {
+  const cached = workloadCache.get(`${site.id}:${slug}`);
+  if (cached) cached.count++;
+}
+
+export async function resolveAuthor(site: SiteConfig, input: AuthorAssignmentInput): Promise<AuthorAssignment> {
+  const balanceDays = getBalanceDays(site);
+  const tied = topCandidates(matchAuthorRules(authorRules(site), input));
+  const workload: Record<string, number> = {};
+
+  if (!input.override && tied.length > 1 && balanceDays > 0 && hasCredentials(getSiteWordPressConfig(site))) {
+    const { wp } = connectToSite(site.id);
+    await Promise.all(tied.map(async ({ author }) => {
+      try {
+        const count = await countRecentPosts(site, wp, author);
+        if (count !== undefined) workload[author] = count;
+      } catch (error) {
+        // Without a count the author is still eligible, just not balanced
+        console.warn(`[DEBUG] Workload count failed for ${author}:`, error instanceof Error ? error.message : error);
+      }
+    }));
+  }
+
+  return assignAuthor(site, input, workload, balanceDays);
+}
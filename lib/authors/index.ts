@@ -0,0 +1,3 @@
+export * from "./assign";
+export * from "./rules";
+export type * from "./types";
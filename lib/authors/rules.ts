@@ -0,0 +1,161 @@
+import { getAuthorName, type SiteConfig } from "../sites";
+import { toSlug } from "../wordpress/client";
+import type { AuthorAssignment, AuthorAssignmentInput, AuthorCandidate, AuthorRule } from "./types";
+
+// Rule matching and the choice between candidates. Pure: workload counts are
+// passed in, so the same input always explains itself the same way.
+
+const DEFAULT_RULE_PRIORITY = 10;
+
+// The site's rules, then one rule per author for the categories listed on
+// the author, below any explicit rule
+export function authorRules(site: SiteConfig): AuthorRule[] {
+  return [
+    ...(site.authorAssignment?.rules ?? []),
+    ...site.authors
+      .filter((author) => author.categories.length > 0)
+      .map((author) => ({ author: author.slug, categories: author.categories, priority: 0 })),
+  ];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function ruleMatches(rule: AuthorRule, input: AuthorAssignmentInput): string[] {
+  const matched: string[] = [];
+
+  const category = input.category ? toSlug(input.category) : '';
+  const ruleCategory = rule.categories?.find((c) => toSlug(c) === category);
+  if (category && ruleCategory) matched.push(`category ${ruleCategory}`);
+
+  const tags = new Set((input.tags ?? []).map(toSlug));
+  for (const tag of rule.tags ?? []) {
+    if (tags.has(toSlug(tag))) matched.push(`tag ${tag}`);
+  }
+
+  const haystack = [...(input.keywords ?? []), input.title ?? ''].join('\n').toLowerCase();
+  for (const keyword of rule.keywords ?? []) {
+    if (new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`).test(haystack)) matched.push(`keyword ${keyword}`);
+  }
+
+  return matched;
+}
+
+// Authors with at least one matching rule, highest priority first (rule
+// order breaks ties)
+export function matchAuthorRules(rules: AuthorRule[], input: AuthorAssignmentInput): AuthorCandidate[] {
+  const candidates = new Map<string, AuthorCandidate>();
+  for (const rule of rules) {
+    const matched = ruleMatches(rule, input);
+    if (matched.length === 0) continue;
+    const priority = rule.priority ?? DEFAULT_RULE_PRIORITY;
+    const candidate = candidates.get(rule.author);
+    if (!candidate) {
+      candidates.set(rule.author, { author: rule.author, priority, matched });
+      continue;
+    }
+    candidate.priority = Math.max(candidate.priority, priority);
+    candidate.matched.push(...matched.filter((m) => !candidate.matched.includes(m)));
+  }
+  return Array.from(candidates.values()).sort((a, b) => b.priority - a.priority);
+}
+
+// Candidates tied on the top priority, the ones workload balancing picks from
+export function topCandidates(candidates: AuthorCandidate[]): AuthorCandidate[] {
+  return candidates.filter((candidate) => candidate.priority === candidates[0]?.priority);
+}
+
+function describe(candidate: AuthorCandidate): string {
+  return `${candidate.matched.join(', ')} (priority ${candidate.priority})`;
+}
+
+export function assignAuthor(
+  site: SiteConfig,
+  input: AuthorAssignmentInput,
+  workload: Record<string, number> = {},
+  balanceDays = 0
+): AuthorAssignment {
+  const candidates = matchAuthorRules(authorRules(site), input).map((candidate) => ({
+    ...candidate,
+    ...(workload[candidate.author] !== undefined ? { workload: workload[candidate.author] } : {}),
+  }));
+
+  if (input.override) {
+    const rulePick = candidates[0] ? `; the rules would pick ${getAuthorName(site, candidates[0].author)}` : '';
+    return {
+      author: input.override.slug,
+      name: input.override.name ?? getAuthorName(site, input.override.slug),
+      source: 'override',
+      reasons: [`Chosen by the editor${rulePick}`],
+      candidates,
+    };
+  }
+
+  if (candidates.length === 0) {
+    const suggested = site.authors.find((author) => author.slug === input.suggested);
+    if (suggested) {
+      return {
+        author: suggested.slug,
+        name: suggested.name,
+        source: 'suggested',
+        reasons: ['No rule matched; kept the author suggested at optimization'],
+        candidates,
+      };
+    }
+    return {
+      author: site.defaultAuthor,
+      name: getAuthorName(site, site.defaultAuthor),
+      source: 'default',
+      reasons: ['No rule matched; the site\'s default author'],
+      candidates,
+    };
+  }
+
+  const tied = topCandidates(candidates);
+  let chosen = tied[0];
+  const reasons: string[] = [];
+  if (tied.length > 1) {
+    const counted = tied.filter((candidate) => candidate.workload !== undefined);
+    const least = Math.min(...counted.map((candidate) => candidate.workload!));
+    // Fewest recent posts; among equals the optimizer's pick, then rule order
+    const pool = counted.length > 0 ? counted.filter((candidate) => candidate.workload === least) : tied;
+    chosen = pool.find((candidate) => candidate.author === input.suggested) ?? pool[0];
+
+    reasons.push(`Matched ${describe(chosen)}`);
+    if (counted.length > 0) {
+      const counts = counted
+        .map((candidate) => `${getAuthorName(site, candidate.author)} ${candidate.workload}`)
+        .join(', ');
+      reasons.push(`Fewest posts in the last ${balanceDays} days among equal matches (${counts})`);
+    } else {
+      const others = tied.filter((candidate) => candidate !== chosen).map((candidate) => getAuthorName(site, candidate.author));
+      const tieBreak = chosen.author === input.suggested ? 'the optimizer\'s pick' : 'first matching rule';
+      reasons.push(`Tied with ${others.join(', ')}; ${tieBreak}`);
+    }
+  } else {
+    reasons.push(`Matched ${describe(chosen)}`);
+  }
+
+  return {
+    author: chosen.author,
+    name: getAuthorName(site, chosen.author),
+    source: 'rule',
+    reasons,
+    candidates,
+  };
+}
+
+// The prompt's author mapping, from the same rules the assignment uses
+export function describeAuthorRules(site: SiteConfig): string {
+  const byAuthor = new Map<string, string[]>();
+  for (const rule of authorRules(site)) {
+    const parts = [
+      ...(rule.categories?.length ? [rule.categories.join('/')] : []),
+      ...(rule.tags?.length ? [`tags ${rule.tags.join('/')}`] : []),
+      ...(rule.keywords?.length ? [`keywords ${rule.keywords.join('/')}`] : []),
+    ];
+    byAuthor.set(rule.author, [...(byAuthor.get(rule.author) ?? []), ...parts]);
+  }
+  return Array.from(byAuthor, ([author, parts]) => `- ${author}: ${parts.join('; ')}`).join('\n');
+}
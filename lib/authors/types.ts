@@ -0,0 +1,46 @@
+// Author assignment: site rules that map categories, tags and keywords to
+// authors, balanced by recent workload, with the editor's choice on top.
+
+export interface AuthorRule {
+  // Author slug
+  author: string;
+  categories?: string[];
+  tags?: string[];
+  // Matched as whole words against the post's keywords and title
+  keywords?: string[];
+  // Higher wins (default 10); the authors' own categories count as 0
+  priority?: number;
+}
+
+export type AuthorSource = 'override' | 'rule' | 'suggested' | 'default';
+
+export interface AuthorCandidate {
+  author: string;
+  // Highest priority among the author's matching rules
+  priority: number;
+  // What matched, e.g. ["category health", "keyword vaccine"]
+  matched: string[];
+  // Posts published or scheduled in the balancing window, when counted
+  workload?: number;
+}
+
+export interface AuthorAssignmentInput {
+  category?: string;
+  tags?: string[];
+  keywords?: string[];
+  title?: string;
+  // The optimizer's pick, used when no rule matches
+  suggested?: string;
+  // The editor's choice; always wins
+  override?: { slug: string; name?: string };
+}
+
+export interface AuthorAssignment {
+  author: string;
+  name: string;
+  source: AuthorSource;
+  // Why this author, in order
+  reasons: string[];
+  // Every author with a matching rule, best first
+  candidates: AuthorCandidate[];
+}
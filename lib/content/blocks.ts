@@ -0,0 +1,94 @@
+import { topLevelNodes, type TopLevelNode } from "./nodes";
+
+// Converts sanitized HTML into Gutenberg block markup so the post opens as
+// native blocks in the block editor instead of one Classic block. Elements
+// without a block equivalent are wrapped in a Custom HTML block.
+
+function block(name: string, html: string, attributes?: Record<string, unknown>): string {
+  const attrs = attributes && Object.keys(attributes).length > 0 ? ` ${JSON.stringify(attributes)}` : '';
+  return `<!-- wp:${name}${attrs} -->\n${html}\n<!-- /wp:${name} -->`;
+}
+
+// Adds a class to the element's opening tag
+function withClass(html: string, tag: string, className: string): string {
+  return html.replace(new RegExp(`^<${tag}\\b([^>]*)>`, 'i'), (open, attributes: string) => {
+    if (/\sclass="/.test(attributes)) {
+      return `<${tag}${attributes.replace(/\sclass="([^"]*)"/, ` class="$1 ${className}"`)}>`;
+    }
+    return `<${tag} class="${className}"${attributes}>`;
+  });
+}
+
+function listItems(inner: string): string {
+  return topLevelNodes(inner)
+    .filter((node) => node.tag === 'li')
+    .map((node) => block('list-item', node.html))
+    .join('\n');
+}
+
+function convertNode(node: TopLevelNode): string {
+  const { tag, html, inner } = node;
+
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    const level = Number(heading[1]);
+    return block('heading', withClass(html, tag, 'wp-block-heading'), level === 2 ? undefined : { level });
+  }
+
+  switch (tag) {
+    case 'p':
+      return block('paragraph', html);
+    case 'ul':
+    case 'ol': {
+      const open = /^<(?:ul|ol)\b[^>]*>/i.exec(html)?.[0] ?? `<${tag}>`;
+      const list = `${withClass(open, tag, 'wp-block-list')}\n${listItems(inner)}\n</${tag}>`;
+      return block('list', list, tag === 'ol' ? { ordered: true } : undefined);
+    }
+    case 'blockquote': {
+      const paragraphs = toBlockMarkup(inner);
+      return block('quote', `<blockquote class="wp-block-quote">\n${paragraphs}\n</blockquote>`);
+    }
+    case 'pre': {
+      const code = /^<code\b/i.test(inner.trim()) ? inner.trim() : `<code>${inner}</code>`;
+      return block('code', `<pre class="wp-block-code">${code}</pre>`);
+    }
+    case 'table':
+      return block('table', `<figure class="wp-block-table">${html}</figure>`);
+    case 'img':
+      return block('image', `<figure class="wp-block-image">${html}</figure>`);
+    case 'figure':
+      return /<img\b/i.test(inner)
+        ? block('image', withClass(html, 'figure', 'wp-block-image'))
+        : block('html', html);
+    case 'hr':
+      return block('separator', '<hr class="wp-block-separator has-alpha-channel-opacity"/>');
+    default:
+      return block('html', html);
+  }
+}
+
+const INLINE_TAGS = /^(#text|br|a|strong|em|u|s|sub|sup|mark|small|code|q|cite)$/;
+
+export function toBlockMarkup(html: string): string {
+  const blocks: string[] = [];
+  let inline: TopLevelNode[] = [];
+
+  // Loose text and inline elements between blocks form one paragraph
+  const flushInline = () => {
+    const text = inline.map((node) => node.html).join('').trim().replace(/^(<br\s*\/?>)+|(<br\s*\/?>)+$/gi, '');
+    if (text) blocks.push(block('paragraph', `<p>${text}</p>`));
+    inline = [];
+  };
+
+  for (const node of topLevelNodes(html)) {
+    if (INLINE_TAGS.test(node.tag)) {
+      inline.push(node);
+      continue;
+    }
+    flushInline();
+    blocks.push(convertNode(node));
+  }
+  flushInline();
+
+  return blocks.join('\n\n');
+}
@@ -0,0 +1,27 @@
+// Heading clean-up: the theme already renders the post title as the page's
+// H1, so a leading H1 in the body is dropped and any other H1 demoted. The
+// remaining headings are then renumbered so no level is skipped (an H4
+// directly under an H2 becomes an H3).
+
+const HEADING_PATTERN = /<h([1-6])(\s[^>]*)?>([\s\S]*?)<\/h\1>/gi;
+
+function headingText(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+export function removeLeadingH1(html: string): string {
+  // Only a heading before any other content duplicates the title
+  return html.replace(/^\s*<h1(\s[^>]*)?>[\s\S]*?<\/h1>\s*/i, '');
+}
+
+export function fixHeadingHierarchy(html: string): string {
+  let previous = 1;
+  return html.replace(HEADING_PATTERN, (match, rawLevel: string, attributes: string | undefined, inner: string) => {
+    if (!headingText(inner)) return '';
+
+    // H1 is reserved for the title; never jump more than one level deeper
+    const level = Math.max(2, Math.min(Number(rawLevel), previous + 1));
+    previous = level;
+    return `<h${level}${attributes ?? ''}>${inner}</h${level}>`;
+  });
+}
@@ -0,0 +1,22 @@
+import { toBlockMarkup } from "./blocks";
+import { fixHeadingHierarchy, removeLeadingH1 } from "./headings";
+import { sanitizeContent } from "./sanitize";
+
+export * from "./blocks";
+export * from "./headings";
+export * from "./nodes";
+export * from "./sanitize";
+
+// Post-processing for model output: sanitize, drop the H1 that duplicates the
+// title and renumber headings. The result is still plain HTML (shown and
+// edited in the dashboard); block markup is only added on publish.
+export function cleanContent(html: string): string {
+  return fixHeadingHierarchy(removeLeadingH1(sanitizeContent(html)));
+}
+
+// What is written to WordPress: cleaned content, as block markup unless the
+// site uses the classic editor.
+export function prepareContentForPublish(html: string, { blockMarkup = true }: { blockMarkup?: boolean } = {}): string {
+  const cleaned = cleanContent(html);
+  return blockMarkup ? toBlockMarkup(cleaned) : cleaned;
+}
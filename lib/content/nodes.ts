@@ -0,0 +1,60 @@
+// Minimal splitter for sanitized HTML: returns the top-level elements and
+// text runs. Only meant for output of sanitizeContent(), which is well formed
+// (every tag closed, attributes quoted), so depth tracking is enough.
+
+export interface TopLevelNode {
+  // Lowercase tag name, or '#text' for text between elements
+  tag: string;
+  html: string;
+  // Inner HTML (elements only)
+  inner: string;
+}
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>/g;
+
+export function topLevelNodes(html: string): TopLevelNode[] {
+  const nodes: TopLevelNode[] = [];
+  let depth = 0;
+  let start = 0;
+  let openTag = '';
+  let openEnd = 0;
+  let textStart = 0;
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const [token, closing, rawName, selfClosing] = match;
+    const name = rawName.toLowerCase();
+    const index = match.index;
+
+    if (!closing) {
+      if (depth === 0) {
+        const text = html.slice(textStart, index);
+        if (text.trim()) nodes.push({ tag: '#text', html: text, inner: text });
+      }
+      if (VOID_TAGS.has(name) || selfClosing) {
+        if (depth === 0) {
+          nodes.push({ tag: name, html: token, inner: '' });
+          textStart = index + token.length;
+        }
+        continue;
+      }
+      if (depth === 0) {
+        start = index;
+        openTag = name;
+        openEnd = index + token.length;
+      }
+      depth++;
+    } else {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0 && name === openTag) {
+        const end = index + token.length;
+        nodes.push({ tag: openTag, html: html.slice(start, end), inner: html.slice(openEnd, index) });
+        textStart = end;
+      }
+    }
+  }
+
+  const rest = html.slice(textStart);
+  if (depth === 0 && rest.trim()) nodes.push({ tag: '#text', html: rest, inner: rest });
+  return nodes;
+}
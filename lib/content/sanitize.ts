@@ -0,0 +1,45 @@
+import sanitizeHtml from "sanitize-html";
+
+// Allowlist for post bodies coming from the model (or the review editor).
+// Anything else is dropped; script/style contents and comments (including
+// block delimiters, which are regenerated afterwards) are removed entirely.
+
+const ALLOWED_TAGS = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'p', 'br', 'hr',
+  'ul', 'ol', 'li',
+  'blockquote', 'cite', 'q',
+  'strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup', 'mark', 'small',
+  'a', 'code', 'pre',
+  'figure', 'figcaption', 'img',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption',
+];
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: ALLOWED_TAGS,
+  allowedAttributes: {
+    a: ['href', 'title', 'rel', 'target'],
+    img: ['src', 'alt', 'width', 'height'],
+    th: ['colspan', 'rowspan', 'scope'],
+    td: ['colspan', 'rowspan'],
+    ol: ['start', 'reversed'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesAppliedToAttributes: ['href', 'src'],
+  allowProtocolRelative: false,
+  transformTags: {
+    b: 'strong',
+    i: 'em',
+    // New-tab links must not get a handle on the dashboard/site window
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: attribs.target === '_blank'
+        ? { ...attribs, rel: Array.from(new Set([...(attribs.rel ?? '').split(/\s+/).filter(Boolean), 'noopener', 'noreferrer'])).join(' ') }
+        : attribs,
+    }),
+  },
+};
+
+export function sanitizeContent(html: string): string {
+  return sanitizeHtml(html, SANITIZE_OPTIONS).trim();
+}
@@ -0,0 +1,76 @@
+// Splits post HTML into top-level blocks (headings, paragraphs, lists,
+// quotes) for block-level comparison. Regex based so it runs the same in the
+// browser and on the server; WordPress content is flat enough for this.
+
+export type BlockKind = 'heading' | 'paragraph' | 'list' | 'quote' | 'other';
+
+export interface ContentBlock {
+  kind: BlockKind;
+  tag: string;
+  html: string;
+  text: string;
+  links: string[];
+}
+
+const BLOCK_PATTERN = /<(h[1-6]|p|ul|ol|blockquote|figure|table|pre)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#039;': "'",
+  '&#8217;': '’',
+  '&#8216;': '‘',
+  '&#8220;': '“',
+  '&#8221;': '”',
+  '&#8211;': '–',
+  '&#8212;': '—',
+  '&nbsp;': ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(?:[a-z]+|#\d+);/gi, (entity) => ENTITIES[entity.toLowerCase()] ?? entity);
+}
+
+export function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+export function extractLinks(html: string): string[] {
+  return Array.from(html.matchAll(/<a\b[^>]*\bhref=["']([^"']+)["']/gi), (match) => match[1]);
+}
+
+function blockKind(tag: string): BlockKind {
+  if (/^h[1-6]$/.test(tag)) return 'heading';
+  if (tag === 'p') return 'paragraph';
+  if (tag === 'ul' || tag === 'ol') return 'list';
+  if (tag === 'blockquote') return 'quote';
+  return 'other';
+}
+
+function toBlock(tag: string, html: string): ContentBlock {
+  return { kind: blockKind(tag), tag, html, text: htmlToText(html), links: extractLinks(html) };
+}
+
+export function splitBlocks(html: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let lastIndex = 0;
+
+  // Text between recognised blocks (classic-editor posts without <p>) is
+  // kept as paragraphs split on blank lines
+  const pushLoose = (fragment: string) => {
+    for (const part of fragment.split(/\n\s*\n/)) {
+      if (htmlToText(part)) blocks.push(toBlock('p', part.trim()));
+    }
+  };
+
+  for (const match of html.matchAll(BLOCK_PATTERN)) {
+    pushLoose(html.slice(lastIndex, match.index));
+    blocks.push(toBlock(match[1].toLowerCase(), match[0]));
+    lastIndex = match.index + match[0].length;
+  }
+  pushLoose(html.slice(lastIndex));
+
+  return blocks.filter((block) => block.text || block.links.length > 0);
+}
@@ -0,0 +1,200 @@
+import { splitBlocks, type ContentBlock } from "./blocks";
+
+// Word and block level comparison between the original draft and the AI
+// rewrite. Blocks are aligned with an LCS over their normalised text; blocks
+// left over on both sides are paired up as "changed" when similar enough,
+// and identical blocks that changed position are reported as "moved".
+
+export type WordOp = { type: 'same' | 'added' | 'removed'; text: string };
+
+export type BlockChange =
+  | { type: 'same'; block: ContentBlock }
+  | { type: 'added'; block: ContentBlock }
+  | { type: 'removed'; block: ContentBlock }
+  | { type: 'moved'; block: ContentBlock; from: number; to: number }
+  | { type: 'changed'; original: ContentBlock; block: ContentBlock; words: WordOp[]; similarity: number };
+
+export interface ContentDiff {
+  changes: BlockChange[];
+  links: { added: string[]; removed: string[] };
+  stats: Record<BlockChange['type'], number>;
+}
+
+// Paired blocks below this similarity are shown as removed + added
+const CHANGED_THRESHOLD = 0.4;
+// Keep the LCS table bounded on very long posts
+const MAX_WORD_DIFF_TOKENS = 4000;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Longest common subsequence alignment of two sequences
+function lcs<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Array<[number, number]> {
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equal(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i++, j++]);
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+export function diffWords(original: string, rewritten: string): WordOp[] {
+  const a = original.split(/(\s+)/).filter(Boolean);
+  const b = rewritten.split(/(\s+)/).filter(Boolean);
+  if (a.length + b.length > MAX_WORD_DIFF_TOKENS) {
+    return [{ type: 'removed', text: original }, { type: 'added', text: rewritten }];
+  }
+
+  const ops: WordOp[] = [];
+  const push = (type: WordOp['type'], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) last.text += text;
+    else ops.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj] of lcs(a, b, (x, y) => x === y || (/^\s+$/.test(x) && /^\s+$/.test(y)))) {
+    while (i < ai) push('removed', a[i++]);
+    while (j < bj) push('added', b[j++]);
+    push('same', b[j]);
+    i++;
+    j++;
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return ops;
+}
+
+// Share of words the two texts have in common (Dice coefficient)
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = normalize(a).split(' ').filter(Boolean);
+  const wordsB = normalize(b).split(' ').filter(Boolean);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const word of wordsA) counts.set(word, (counts.get(word) ?? 0) + 1);
+  let shared = 0;
+  for (const word of wordsB) {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(word, count - 1);
+    }
+  }
+  return (2 * shared) / (wordsA.length + wordsB.length);
+}
+
+export function diffContent(originalHtml: string, rewrittenHtml: string): ContentDiff {
+  const original = splitBlocks(originalHtml);
+  const rewritten = splitBlocks(rewrittenHtml);
+  const key = (block: ContentBlock) => `${block.kind}:${normalize(block.text)}`;
+
+  const pairs = lcs(original, rewritten, (x, y) => key(x) === key(y));
+  const matchedOriginal = new Set(pairs.map(([i]) => i));
+  const matchedRewritten = new Map(pairs.map(([i, j]) => [j, i]));
+
+  // Unmatched original blocks that reappear verbatim elsewhere were moved
+  const movedFrom = new Map<number, number>();
+  for (let j = 0; j < rewritten.length; j++) {
+    if (matchedRewritten.has(j)) continue;
+    const i = original.findIndex((block, index) =>
+      !matchedOriginal.has(index) && ![...movedFrom.values()].includes(index) && key(block) === key(rewritten[j])
+    );
+    if (i !== -1) movedFrom.set(j, i);
+  }
+  const moved = new Set(movedFrom.values());
+
+  // Pair remaining blocks of the same kind by best similarity
+  const changedFrom = new Map<number, { index: number; similarity: number }>();
+  const usedOriginal = new Set<number>();
+  for (let j = 0; j < rewritten.length; j++) {
+    if (matchedRewritten.has(j) || movedFrom.has(j)) continue;
+    let best: { index: number; similarity: number } | null = null;
+    for (let index = 0; index < original.length; index++) {
+      if (matchedOriginal.has(index) || moved.has(index) || usedOriginal.has(index)) continue;
+      if (original[index].kind !== rewritten[j].kind) continue;
+      const similarity = textSimilarity(original[index].text, rewritten[j].text);
+      if (similarity >= CHANGED_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { index, similarity };
+      }
+    }
+    if (best) {
+      changedFrom.set(j, best);
+      usedOriginal.add(best.index);
+    }
+  }
+
+  // Walk the rewrite in order, emitting removed originals where they stood
+  const changes: BlockChange[] = [];
+  let nextOriginal = 0;
+  const flushRemoved = (upTo: number) => {
+    for (; nextOriginal < upTo; nextOriginal++) {
+      if (!matchedOriginal.has(nextOriginal) && !moved.has(nextOriginal) && !usedOriginal.has(nextOriginal)) {
+        changes.push({ type: 'removed', block: original[nextOriginal] });
+      }
+    }
+  };
+
+  rewritten.forEach((block, j) => {
+    const same = matchedRewritten.get(j);
+    if (same !== undefined) {
+      flushRemoved(same);
+      nextOriginal = Math.max(nextOriginal, same + 1);
+      changes.push({ type: 'same', block });
+      return;
+    }
+
+    const from = movedFrom.get(j);
+    if (from !== undefined) {
+      changes.push({ type: 'moved', block, from, to: j });
+      return;
+    }
+
+    const changed = changedFrom.get(j);
+    if (changed) {
+      const originalBlock = original[changed.index];
+      changes.push({
+        type: 'changed',
+        original: originalBlock,
+        block,
+        words: diffWords(originalBlock.text, block.text),
+        similarity: Math.round(changed.similarity * 100) / 100,
+      });
+      return;
+    }
+
+    changes.push({ type: 'added', block });
+  });
+  flushRemoved(original.length);
+
+  const originalLinks = new Set(original.flatMap((block) => block.links));
+  const rewrittenLinks = new Set(rewritten.flatMap((block) => block.links));
+
+  const stats: ContentDiff['stats'] = { same: 0, added: 0, removed: 0, moved: 0, changed: 0 };
+  for (const change of changes) stats[change.type] += 1;
+
+  return {
+    changes,
+    links: {
+      added: [...rewrittenLinks].filter((link) => !originalLinks.has(link)),
+      removed: [...originalLinks].filter((link) => !rewrittenLinks.has(link)),
+    },
+    stats,
+  };
+}
@@ -0,0 +1,88 @@
+import { decodeEntities, extractLinks, htmlToText, splitBlocks } from "./blocks";
+
+// Heuristic fact check: pulls numbers, quotes, URLs and proper names out of
+// the original draft and reports the ones the rewrite no longer contains.
+// It can't tell a paraphrase from an omission, so results are warnings.
+
+export type FactKind = 'number' | 'quote' | 'url' | 'name';
+
+export interface Fact {
+  kind: FactKind;
+  value: string;
+}
+
+// Capitalised words that start sentences or headlines rather than names
+const NAME_STOPWORDS = new Set([
+  'The', 'A', 'An', 'This', 'That', 'These', 'Those', 'It', 'Its', 'In', 'On', 'At', 'For', 'But', 'And',
+  'Or', 'If', 'When', 'While', 'With', 'By', 'From', 'As', 'According', 'After', 'Before', 'Why', 'How',
+  'What', 'Who', 'Where', 'Here', 'There', 'We', 'They', 'He', 'She', 'I', 'You', 'Our', 'Their',
+]);
+
+function extractNumbers(text: string): string[] {
+  // 2024, 3.5%, $1,200, 45 million, 10x
+  const matches = text.match(/[$€£]?\d[\d,]*(?:\.\d+)?(?:\s?(?:%|percent|million|billion|trillion|bn|m|k|x)(?!\p{L}))?/giu) ?? [];
+  return matches
+    .map((match) => match.trim())
+    // Single digits are usually list numbering or prose ("3 ways")
+    .filter((match) => /\d{2,}|[$€£%.]|million|billion|trillion/i.test(match));
+}
+
+function extractQuotes(text: string): string[] {
+  const matches = text.match(/["“]([^"”]{12,300})["”]/g) ?? [];
+  return matches
+    .map((match) => match.slice(1, -1).trim())
+    // Only real quotes, not scare quotes around a word or two
+    .filter((quote) => quote.split(/\s+/).length >= 4);
+}
+
+function extractUrls(html: string, text: string): string[] {
+  const bare = text.match(/https?:\/\/[^\s<>"')]+/g) ?? [];
+  return [...extractLinks(html), ...bare].map((url) => url.replace(/[.,;]+$/, ''));
+}
+
+function extractNames(text: string): string[] {
+  const matches = text.match(/\b[A-Z][\p{L}'’-]+(?:\s+(?:[A-Z][\p{L}'’-]+|of|de|van|von|al))*\s+[A-Z][\p{L}'’-]+\b/gu) ?? [];
+  return matches
+    .map((match) => {
+      const words = match.split(/\s+/);
+      while (words.length > 0 && NAME_STOPWORDS.has(words[0])) words.shift();
+      return words.join(' ');
+    })
+    .filter((name) => name.split(' ').length >= 2);
+}
+
+export function extractFacts(html: string): Fact[] {
+  const text = htmlToText(html);
+  const facts: Fact[] = [
+    ...extractNumbers(text).map((value) => ({ kind: 'number' as const, value })),
+    ...extractQuotes(text).map((value) => ({ kind: 'quote' as const, value })),
+    ...extractUrls(html, text).map((value) => ({ kind: 'url' as const, value })),
+    // Per block, so a heading and the paragraph after it don't run together
+    ...splitBlocks(html).flatMap((block) => extractNames(block.text)).map((value) => ({ kind: 'name' as const, value })),
+  ];
+
+  const seen = new Set<string>();
+  return facts.filter((fact) => {
+    const key = `${fact.kind}:${fact.value.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Loose form for containment checks: case, punctuation, thousands separators
+function comparable(value: string): string {
+  return value.toLowerCase().replace(/(\d),(\d)/g, '$1$2').replace(/[^\p{L}\p{N}%$€£.]+/gu, ' ').trim();
+}
+
+export function findMissingFacts(originalHtml: string, rewrittenHtml: string): Fact[] {
+  const rewrittenText = comparable(` ${htmlToText(rewrittenHtml)} `);
+  const rewrittenLinks = new Set(extractLinks(rewrittenHtml).map((url) => decodeEntities(url)));
+
+  return extractFacts(originalHtml).filter((fact) => {
+    if (fact.kind === 'url') {
+      return !rewrittenLinks.has(fact.value) && !rewrittenHtml.includes(fact.value);
+    }
+    return !rewrittenText.includes(comparable(fact.value));
+  });
+}
@@ -0,0 +1,3 @@
+export * from "./blocks";
+export * from "./diff";
+export * from "./facts";
@@ -0,0 +1,46 @@
+import type { ImageCandidate, ImageProviderId } from "./types";
+
+// Attribution for a picked image. No server imports: the picker shows the
+// same credit that publishing writes into the media caption.
+
+export const IMAGE_PROVIDER_NAMES: Record<ImageProviderId, string> = {
+  pixabay: 'Pixabay',
+  unsplash: 'Unsplash',
+  pexels: 'Pexels',
+  wordpress: 'Media library',
+  ai: 'AI-generated',
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function link(text: string, url?: string): string {
+  return url ? `<a href="${escapeHtml(url)}" rel="nofollow">${escapeHtml(text)}</a>` : escapeHtml(text);
+}
+
+// Plain-text credit, e.g. "Photo by Jane Doe via Unsplash (Unsplash License)".
+// Generated images are labelled as such, e.g. "AI-generated image (openai:gpt-image-1)".
+export function formatCreditText(image: ImageCandidate): string {
+  if (image.provider === 'wordpress') return '';
+  if (image.provider === 'ai') return `AI-generated image${image.generatedBy ? ` (${image.generatedBy})` : ''}`;
+  const by = image.photographer ? `Photo by ${image.photographer} via ` : 'Photo via ';
+  return `${by}${IMAGE_PROVIDER_NAMES[image.provider]} (${image.license})`;
+}
+
+// Caption HTML for the media item, linking the photographer and the source page
+export function formatCredit(image: ImageCandidate): string {
+  if (image.provider === 'wordpress') return '';
+  if (image.provider === 'ai') return escapeHtml(formatCreditText(image));
+  const by = image.photographer ? `Photo by ${link(image.photographer, image.photographerUrl)} via ` : 'Photo via ';
+  return `${by}${link(IMAGE_PROVIDER_NAMES[image.provider], image.sourceUrl)} (${escapeHtml(image.license)})`;
+}
+
+// Media caption: the editor's text, then the credit for stock images
+export function formatCaption(caption: string, image?: ImageCandidate): string {
+  return [escapeHtml(caption.trim()), image ? formatCredit(image) : ''].filter(Boolean).join(' — ');
+}
@@ -0,0 +1,104 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import { dataPath, JsonFileStore } from "../store";
+import { generationSize, resolveImageGenerator } from "./generators";
+import { ImageError } from "./process";
+import type { ImageCandidate, ImageProvider } from "./types";
+
+// The 'ai' image provider: generates one image from the description and keeps
+// it under DATA_DIR/generated-images until it is published. The dashboard
+// shows it through GET /api/images/generated/:id; publishing reads the file.
+
+export interface GeneratedImageRecord {
+  id: string;
+  siteId: string;
+  prompt: string;
+  revisedPrompt?: string;
+  generator: string;
+  model: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+const GENERATED_URL_PREFIX = '/api/images/generated/';
+
+// Appended to every prompt; a site can add its own style in images.style
+const PROMPT_SUFFIX = 'Editorial featured image for a news article. No text, logos or watermarks.';
+
+const generatedStore = new JsonFileStore<GeneratedImageRecord>('generated-images');
+
+function imageFile(id: string): string {
+  return dataPath('generated-images', `${id}.bin`);
+}
+
+export function isGeneratedImageUrl(url: string): boolean {
+  return url.startsWith(GENERATED_URL_PREFIX);
+}
+
+export async function getGeneratedImage(id: string): Promise<{ record: GeneratedImageRecord; data: Buffer }> {
+  const record = await generatedStore.get(id);
+  if (!record) {
+    throw new ImageError(`Generated image not found: ${id}`, 404);
+  }
+  return { record, data: await fs.readFile(imageFile(record.id)) };
+}
+
+// Bytes of a generated image from its dashboard URL
+export async function readGeneratedImage(url: string): Promise<Uint8Array> {
+  const { data } = await getGeneratedImage(url.slice(GENERATED_URL_PREFIX.length));
+  return new Uint8Array(data);
+}
+
+export const aiImageProvider: ImageProvider = {
+  id: 'ai',
+  name: 'AI-generated',
+  kind: 'generated',
+
+  isConfigured(site) {
+    return resolveImageGenerator(site) !== null;
+  },
+
+  async search(site, prompt, { signal }) {
+    const generator = resolveImageGenerator(site);
+    if (!generator) {
+      throw new ImageError('No image generator configured', 400);
+    }
+
+    const size = generationSize(site);
+    const fullPrompt = [prompt, site.images?.style, PROMPT_SUFFIX].filter(Boolean).join('. ');
+    console.log(`Generating image with ${generator.id}:${generator.model}:`, fullPrompt);
+    const image = await generator.generate(fullPrompt, { ...size, signal });
+
+    const record: GeneratedImageRecord = {
+      id: randomUUID(),
+      siteId: site.id,
+      prompt,
+      revisedPrompt: image.revisedPrompt,
+      generator: generator.id,
+      model: image.model,
+      mimeType: image.mimeType,
+      ...size,
+      createdAt: new Date().toISOString(),
+    };
+    await fs.mkdir(dataPath('generated-images'), { recursive: true });
+    await fs.writeFile(imageFile(record.id), image.data);
+    await generatedStore.put(record);
+
+    const url = `${GENERATED_URL_PREFIX}${record.id}`;
+    const candidate: ImageCandidate = {
+      id: `ai:${record.id}`,
+      provider: 'ai',
+      url,
+      thumbnailUrl: url,
+      width: size.width,
+      height: size.height,
+      alt: prompt,
+      license: 'AI-generated',
+      sourceUrl: url,
+      generatedBy: `${generator.id}:${image.model}`,
+    };
+    return [candidate];
+  },
+};
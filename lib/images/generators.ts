@@ -0,0 +1,190 @@
+import sharp from "sharp";
+import type { SiteConfig } from "../sites";
+import { getImageProcessingOptions, ImageError } from "./process";
+import type { GeneratedImage, ImageGenerationOptions, ImageGenerator, ImageGeneratorId } from "./types";
+
+// Image generation backends for the 'ai' image provider. The model renders at
+// one of its fixed sizes; the result is cropped to the site's aspect ratio.
+
+const GENERATOR_IDS: ImageGeneratorId[] = ['openai', 'fake'];
+
+const DEFAULT_ASPECT_RATIO = '16:9';
+
+// Sizes the OpenAI models accept, by model family
+const OPENAI_SIZES: Record<string, Array<[number, number]>> = {
+  'dall-e-3': [[1792, 1024], [1024, 1792], [1024, 1024]],
+  'gpt-image': [[1536, 1024], [1024, 1536], [1024, 1024]],
+};
+
+export function isImageGeneratorId(value: unknown): value is ImageGeneratorId {
+  return typeof value === 'string' && GENERATOR_IDS.includes(value as ImageGeneratorId);
+}
+
+// "16:9" -> 1.777...; invalid values fall back to 16:9
+export function parseAspectRatio(value?: string): number {
+  const match = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/.exec(value?.trim() ?? '');
+  const ratio = match ? parseFloat(match[1]) / parseFloat(match[2]) : 0;
+  return ratio > 0 && Number.isFinite(ratio) ? ratio : parseAspectRatio(DEFAULT_ASPECT_RATIO);
+}
+
+// Largest crop of width x height with the given aspect ratio
+function cropSize(width: number, height: number, ratio: number): { width: number; height: number } {
+  return width / height > ratio
+    ? { width: Math.round(height * ratio), height }
+    : { width, height: Math.round(width / ratio) };
+}
+
+async function cropToAspect(data: Uint8Array, ratio: number): Promise<Uint8Array> {
+  const { width, height } = await sharp(data).metadata();
+  if (!width || !height) return data;
+  const size = cropSize(width, height, ratio);
+  if (size.width === width && size.height === height) return data;
+  const cropped = await sharp(data)
+    .resize({ ...size, fit: 'cover', position: 'attention' })
+    .png()
+    .toBuffer();
+  return new Uint8Array(cropped);
+}
+
+class OpenAIImageGenerator implements ImageGenerator {
+  readonly id = 'openai' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string,
+    private readonly baseUrl = 'https://api.openai.com/v1'
+  ) {}
+
+  // The supported size closest to the requested aspect ratio
+  private size(ratio: number): string {
+    const sizes = OPENAI_SIZES[this.model.startsWith('dall-e') ? 'dall-e-3' : 'gpt-image'];
+    const [width, height] = sizes.reduce((best, size) =>
+      Math.abs(size[0] / size[1] - ratio) < Math.abs(best[0] / best[1] - ratio) ? size : best
+    );
+    return `${width}x${height}`;
+  }
+
+  async generate(prompt: string, { width, height, signal }: ImageGenerationOptions): Promise<GeneratedImage> {
+    const ratio = width / height;
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/images/generations`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.model,
+          prompt,
+          n: 1,
+          size: this.size(ratio),
+          // gpt-image models always answer with base64 and reject this field
+          ...(this.model.startsWith('dall-e') ? { response_format: 'b64_json' } : {}),
+        }),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ImageError(`OpenAI image request failed: ${error instanceof Error ? error.message : error}`, 502);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ImageError(`OpenAI image error (${response.status}): ${errorText.substring(0, 200)}`, 502);
+    }
+
+    const body: { data?: Array<{ b64_json?: string; revised_prompt?: string }> } = await response.json();
+    const image = body.data?.[0];
+    if (!image?.b64_json) {
+      throw new ImageError('OpenAI returned no image', 502);
+    }
+
+    return {
+      data: await cropToAspect(new Uint8Array(Buffer.from(image.b64_json, 'base64')), ratio),
+      mimeType: 'image/png',
+      model: this.model,
+      revisedPrompt: image.revised_prompt,
+    };
+  }
+}
+
+function hash(value: string): number {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) {
+    h = (h * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Deterministic offline stand-in: a gradient in colours derived from the
+// prompt, with the prompt written on it. Same prompt, same image.
+class FakeImageGenerator implements ImageGenerator {
+  readonly id = 'fake' as const;
+  readonly model = 'fake-gradient';
+
+  async generate(prompt: string, { width, height }: ImageGenerationOptions): Promise<GeneratedImage> {
+    const hue = hash(prompt) % 360;
+    const words = prompt.split(/\s+/).filter(Boolean).slice(0, 24);
+    const lines: string[] = [];
+    for (const word of words) {
+      const last = lines[lines.length - 1];
+      if (last !== undefined && `${last} ${word}`.length <= 32) {
+        lines[lines.length - 1] = `${last} ${word}`;
+      } else {
+        lines.push(word);
+      }
+    }
+
+    const fontSize = Math.round(height / 14);
+    const text = lines
+      .map((line, i) => {
+        const y = height / 2 + (i - (lines.length - 1) / 2) * fontSize * 1.3;
+        return `<text x="50%" y="${y}" text-anchor="middle" dominant-baseline="middle">${escapeXml(line)}</text>`;
+      })
+      .join('');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+      <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+        <stop offset="0" stop-color="hsl(${hue}, 70%, 45%)"/>
+        <stop offset="1" stop-color="hsl(${(hue + 60) % 360}, 70%, 25%)"/>
+      </linearGradient></defs>
+      <rect width="100%" height="100%" fill="url(#g)"/>
+      <g fill="#fff" font-family="sans-serif" font-size="${fontSize}">${text}</g>
+    </svg>`;
+
+    const data = await sharp(Buffer.from(svg)).png().toBuffer();
+    return { data: new Uint8Array(data), mimeType: 'image/png', model: this.model };
+  }
+}
+
+function createGenerator(id: ImageGeneratorId): ImageGenerator | null {
+  const env = process.env;
+  switch (id) {
+    case 'openai':
+      return env.OPENAI_API_KEY
+        ? new OpenAIImageGenerator(env.OPENAI_API_KEY, env.OPENAI_IMAGE_MODEL || 'gpt-image-1', env.OPENAI_BASE_URL)
+        : null;
+    case 'fake':
+      return new FakeImageGenerator();
+    default:
+      return null;
+  }
+}
+
+// The site's generator (images.generator, else IMAGE_GENERATOR); null when
+// generation is off or the generator isn't configured
+export function resolveImageGenerator(site: SiteConfig): ImageGenerator | null {
+  const id = site.images?.generator ?? process.env.IMAGE_GENERATOR;
+  return isImageGeneratorId(id) ? createGenerator(id) : null;
+}
+
+// Pixel size to generate at: the site's max upload width in its aspect ratio
+export function generationSize(site: SiteConfig): { width: number; height: number } {
+  const ratio = parseAspectRatio(site.images?.aspectRatio);
+  const { maxWidth: width } = getImageProcessingOptions(site);
+  return { width, height: Math.round(width / ratio) };
+}
@@ -0,0 +1,12 @@
+export * from "./credit";
+export * from "./generated";
+export * from "./generators";
+export * from "./library";
+export * from "./orphans";
+export * from "./pexels";
+export * from "./pixabay";
+export * from "./process";
+export * from "./search";
+export * from "./unsplash";
+export * from "./wordpress";
+export type * from "./types";
@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import type { SiteConfig } from "../sites";
+import { JsonFileStore } from "../store";
+import { WordPressError, type WordPressClient } from "../wordpress";
+import { isGeneratedImageUrl, readGeneratedImage } from "./generated";
+import {
+  downloadImage,
+  getImageProcessingOptions,
+  imageFilename,
+  processImage,
+  type ImageProcessingOptions,
+} from "./process";
+
+// Index of the images this tool uploaded, keyed by content hash, so that
+// publishing the same image again (re-saving a post, or another post picking
+// the same photo) reuses the media item instead of uploading a copy.
+
+export interface MediaRecord {
+  // "<siteId>-<hash>"
+  id: string;
+  siteId: string;
+  hash: string;
+  mediaId: number;
+  url: string;
+  filename: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  // Where the image was downloaded from the first time
+  sourceUrl: string;
+  // Posts it was published with
+  postIds: number[];
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface FeaturedImageUpload {
+  id: number;
+  url: string;
+  filename: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  // Type detected from the downloaded bytes; unknown when reused
+  sourceMimeType?: string;
+  // True when an earlier upload of the same image was reused
+  reused: boolean;
+}
+
+const mediaStore = new JsonFileStore<MediaRecord>('media');
+
+// The processing options are part of the hash: an image uploaded as WebP at
+// 1600px is not reused once the site switches to AVIF or another width.
+export function hashImage(bytes: Uint8Array, options: ImageProcessingOptions): string {
+  return createHash('sha256')
+    .update(bytes)
+    .update(JSON.stringify([options.format, options.maxWidth, options.quality]))
+    .digest('hex');
+}
+
+export async function listMediaRecords(siteId: string): Promise<MediaRecord[]> {
+  const records = await mediaStore.list();
+  return records.filter((record) => record.siteId === siteId);
+}
+
+export async function forgetMedia(siteId: string, mediaIds: number[]): Promise<void> {
+  const records = await listMediaRecords(siteId);
+  await Promise.all(
+    records
+      .filter((record) => mediaIds.includes(record.mediaId))
+      .map((record) => mediaStore.delete(record.id))
+  );
+}
+
+// The indexed media item, unless it was deleted in WordPress since
+async function findUploaded(wp: WordPressClient, record: MediaRecord): Promise<string | null> {
+  try {
+    const media = await wp.getMedia(record.mediaId, { _fields: 'id,source_url' });
+    return media.source_url;
+  } catch (error) {
+    if (error instanceof WordPressError && error.status === 404) {
+      await mediaStore.delete(record.id);
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Download the image and upload it processed and named after the keyword, or
+// reuse an earlier upload of the same bytes
+export async function uploadFeaturedImage(
+  site: SiteConfig,
+  wp: WordPressClient,
+  imageUrl: string,
+  { keyword, postId }: { keyword?: string; postId: number }
+): Promise<FeaturedImageUpload> {
+  const original = isGeneratedImageUrl(imageUrl) ? await readGeneratedImage(imageUrl) : await downloadImage(imageUrl);
+  const options = getImageProcessingOptions(site);
+  const hash = hashImage(original, options);
+  const now = new Date().toISOString();
+
+  const existing = await mediaStore.get(`${site.id}-${hash}`);
+  const existingUrl = existing && (await findUploaded(wp, existing));
+  if (existing && existingUrl) {
+    console.log(`[Media] Reusing media ${existing.mediaId} for ${keyword ?? imageUrl}`);
+    await mediaStore.put({
+      ...existing,
+      url: existingUrl,
+      postIds: existing.postIds.includes(postId) ? existing.postIds : [...existing.postIds, postId],
+      lastUsedAt: now,
+    });
+    return {
+      id: existing.mediaId,
+      url: existingUrl,
+      filename: existing.filename,
+      mimeType: existing.mimeType,
+      width: existing.width,
+      height: existing.height,
+      reused: true,
+    };
+  }
+
+  const image = await processImage(original, options);
+  const name = imageFilename(keyword, postId, image.extension);
+  // sharp returns a Node Buffer; the client wants a plain Uint8Array
+  const media = await wp.uploadMedia(new Uint8Array(image.data), name, image.mimeType);
+
+  await mediaStore.put({
+    id: `${site.id}-${hash}`,
+    siteId: site.id,
+    hash,
+    mediaId: media.id,
+    url: media.source_url,
+    filename: name,
+    mimeType: image.mimeType,
+    width: image.width,
+    height: image.height,
+    sourceUrl: imageUrl,
+    postIds: [postId],
+    createdAt: now,
+    lastUsedAt: now,
+  });
+
+  return {
+    id: media.id,
+    url: media.source_url,
+    filename: name,
+    mimeType: image.mimeType,
+    width: image.width,
+    height: image.height,
+    sourceMimeType: image.sourceMimeType,
+    reused: false,
+  };
+}
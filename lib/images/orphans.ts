@@ -0,0 +1,153 @@
+import type { SiteConfig } from "../sites";
+import { snapshotMediaIds } from "../snapshots";
+import type { WordPressClient, WPMedia, WPQuery } from "../wordpress";
+import { forgetMedia, listMediaRecords } from "./library";
+import { ImageError } from "./process";
+
+// Media this tool uploaded that no post uses any more, as featured image or
+// in its content: replaced images, posts published with another image since,
+// and the duplicates piled up before uploads were deduplicated. Images a
+// snapshot would restore are kept so rollbacks don't lose their featured image.
+
+export interface OrphanedMedia {
+  mediaId: number;
+  url: string;
+  slug?: string;
+  date?: string;
+  // indexed: in the local media index; legacy: named like the timestamped
+  // uploads of earlier versions (featured-image-<postId>-<ms>.jpg)
+  source: 'indexed' | 'legacy';
+}
+
+export interface MediaCleanupResult {
+  deleted: number[];
+  // Not orphaned (any more), so left alone
+  skipped: number[];
+  failed: Array<{ mediaId: number; error: string }>;
+}
+
+const LEGACY_SLUG = /^featured-image-\d+-\d{13}(-\d+)?$/;
+
+const ALL_STATUSES = 'publish,future,draft,pending,private';
+
+const IMAGE_CLASS = /\bwp-image-(\d+)\b/g;
+
+// File name without extension or the -scaled suffix, which the resized
+// copies in post content share (name-300x200.jpg)
+function fileStem(url: string): string {
+  const name = url.split(/[?#]/)[0].split('/').pop() ?? '';
+  return name.replace(/\.[a-z0-9]+$/i, '').replace(/-scaled$/, '');
+}
+
+// Which of the candidates any post, whatever its status, uses as featured
+// image or inserts in its content (by wp-image-<id> class or file name).
+// Every page is read: a partial scan would report used images as orphans.
+async function usedMediaIds(wp: WordPressClient, candidates: WPMedia[]): Promise<Set<number>> {
+  const used = new Set<number>();
+  const ids = new Set(candidates.map((media) => media.id));
+  const stems = candidates
+    .map((media) => ({ id: media.id, stem: fileStem(media.source_url) }))
+    .filter(({ stem }) => stem.length > 0);
+
+  for (let page = 1; ; page++) {
+    const { items, totalPages } = await wp.listPosts({
+      status: ALL_STATUSES,
+      per_page: 100,
+      page,
+      _fields: 'id,featured_media,content',
+    });
+    for (const post of items) {
+      if (post.featured_media && ids.has(post.featured_media)) used.add(post.featured_media);
+      const content = post.content?.rendered ?? '';
+      for (const [, id] of content.matchAll(IMAGE_CLASS)) {
+        if (ids.has(Number(id))) used.add(Number(id));
+      }
+      for (const { id, stem } of stems) {
+        if (!used.has(id) && content.includes(stem)) used.add(id);
+      }
+    }
+    if (page >= totalPages) break;
+  }
+  return used;
+}
+
+async function listMediaPages(wp: WordPressClient, query: WPQuery): Promise<WPMedia[]> {
+  const media: WPMedia[] = [];
+  for (let page = 1; ; page++) {
+    const { items, totalPages } = await wp.listMedia({
+      ...query,
+      per_page: 100,
+      page,
+      _fields: 'id,source_url,slug,date',
+    });
+    media.push(...items);
+    if (page >= totalPages) break;
+  }
+  return media;
+}
+
+function toOrphan(media: WPMedia, source: OrphanedMedia['source']): OrphanedMedia {
+  return { mediaId: media.id, url: media.source_url, slug: media.slug, date: media.date, source };
+}
+
+export async function findOrphanedMedia(site: SiteConfig, wp: WordPressClient): Promise<OrphanedMedia[]> {
+  const [snapshotted, records] = await Promise.all([
+    snapshotMediaIds(site.id),
+    listMediaRecords(site.id),
+  ]);
+
+  // Indexed uploads that still exist in WordPress; the rest were deleted there
+  const indexedIds = records.map((record) => record.mediaId);
+  const indexed: WPMedia[] = [];
+  for (let i = 0; i < indexedIds.length; i += 100) {
+    indexed.push(...(await listMediaPages(wp, { include: indexedIds.slice(i, i + 100) })));
+  }
+  const existing = new Set(indexed.map((media) => media.id));
+  const gone = indexedIds.filter((id) => !existing.has(id));
+  if (gone.length > 0) {
+    await forgetMedia(site.id, gone);
+  }
+
+  const legacy = (await listMediaPages(wp, { search: 'featured-image', media_type: 'image' }))
+    .filter((media) => media.slug && LEGACY_SLUG.test(media.slug) && !existing.has(media.id));
+
+  const candidates = [...indexed, ...legacy].filter((media) => !snapshotted.has(media.id));
+  const used = candidates.length > 0 ? await usedMediaIds(wp, candidates) : new Set<number>();
+  const unused = (media: WPMedia) => !snapshotted.has(media.id) && !used.has(media.id);
+
+  return [
+    ...indexed.filter(unused).map((media) => toOrphan(media, 'indexed')),
+    ...legacy.filter(unused).map((media) => toOrphan(media, 'legacy')),
+  ].sort((a, b) => a.mediaId - b.mediaId);
+}
+
+// Deletes the given media items for good. Each is checked again first, so an
+// image that was put to use since the list was made is skipped.
+export async function deleteOrphanedMedia(
+  site: SiteConfig,
+  wp: WordPressClient,
+  mediaIds: number[]
+): Promise<MediaCleanupResult> {
+  if (mediaIds.length === 0 || mediaIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+    throw new ImageError('mediaIds must be a non-empty list of media ids', 400);
+  }
+
+  const orphans = new Set((await findOrphanedMedia(site, wp)).map((orphan) => orphan.mediaId));
+  const result: MediaCleanupResult = { deleted: [], skipped: [], failed: [] };
+
+  for (const mediaId of mediaIds) {
+    if (!orphans.has(mediaId)) {
+      result.skipped.push(mediaId);
+      continue;
+    }
+    try {
+      await wp.deleteMedia(mediaId);
+      result.deleted.push(mediaId);
+    } catch (error) {
+      result.failed.push({ mediaId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  await forgetMedia(site.id, result.deleted);
+  return result;
+}
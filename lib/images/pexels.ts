@@ -0,0 +1,60 @@
+import { providerError } from "./query";
+import type { ImageCandidate, ImageProvider } from "./types";
+
+const PEXELS_API_KEY = process.env.PEXELS_API_KEY;
+
+interface PexelsPhoto {
+  id: number;
+  width: number;
+  height: number;
+  url: string;
+  alt?: string;
+  photographer: string;
+  photographer_url: string;
+  src: { large2x: string; large: string; medium: string };
+}
+
+function toCandidate(photo: PexelsPhoto): ImageCandidate {
+  return {
+    id: `pexels:${photo.id}`,
+    provider: 'pexels',
+    url: photo.src.large2x,
+    thumbnailUrl: photo.src.medium,
+    width: photo.width,
+    height: photo.height,
+    alt: photo.alt || undefined,
+    photographer: photo.photographer,
+    photographerUrl: photo.photographer_url,
+    license: 'Pexels License',
+    sourceUrl: photo.url,
+  };
+}
+
+export const pexelsProvider: ImageProvider = {
+  id: 'pexels',
+  name: 'Pexels',
+  kind: 'stock',
+
+  isConfigured() {
+    return Boolean(PEXELS_API_KEY);
+  },
+
+  async search(site, query, { perPage, signal }) {
+    const params = new URLSearchParams({
+      query,
+      per_page: String(perPage),
+      orientation: 'landscape',
+    });
+
+    const response = await fetch(`https://api.pexels.com/v1/search?${params.toString()}`, {
+      headers: { 'Authorization': PEXELS_API_KEY ?? '' },
+      signal,
+    });
+    if (!response.ok) {
+      throw await providerError('Pexels', response);
+    }
+
+    const data: { photos?: PexelsPhoto[] } = await response.json();
+    return (data.photos ?? []).map(toCandidate);
+  },
+};
@@ -0,0 +1,65 @@
+import { providerError } from "./query";
+import type { ImageCandidate, ImageProvider } from "./types";
+
+// Pixabay API Configuration
+const PIXABAY_API_KEY = process.env.PIXABAY_API_KEY;
+
+interface PixabayHit {
+  id: number;
+  pageURL: string;
+  largeImageURL?: string;
+  webformatURL: string;
+  previewURL: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  user?: string;
+  user_id?: number;
+}
+
+function toCandidate(hit: PixabayHit): ImageCandidate {
+  return {
+    id: `pixabay:${hit.id}`,
+    provider: 'pixabay',
+    url: hit.largeImageURL || hit.webformatURL,
+    thumbnailUrl: hit.webformatURL || hit.previewURL,
+    width: hit.imageWidth,
+    height: hit.imageHeight,
+    photographer: hit.user,
+    photographerUrl: hit.user && hit.user_id ? `https://pixabay.com/users/${hit.user}-${hit.user_id}/` : undefined,
+    license: 'Pixabay Content License',
+    sourceUrl: hit.pageURL,
+  };
+}
+
+export const pixabayProvider: ImageProvider = {
+  id: 'pixabay',
+  name: 'Pixabay',
+  kind: 'stock',
+
+  isConfigured() {
+    return Boolean(PIXABAY_API_KEY);
+  },
+
+  async search(site, query, { perPage, signal }) {
+    // Build URL manually to avoid any encoding issues
+    const params = new URLSearchParams({
+      key: PIXABAY_API_KEY ?? '',
+      q: query,
+      image_type: 'photo',
+      orientation: 'horizontal',
+      // Pixabay rejects per_page below 3
+      per_page: String(Math.max(3, perPage)),
+      safesearch: 'true',
+    });
+
+    console.log('Searching Pixabay with query:', query);
+    const response = await fetch(`https://pixabay.com/api/?${params.toString()}`, { signal });
+    if (!response.ok) {
+      throw await providerError('Pixabay', response);
+    }
+
+    const data: { hits?: PixabayHit[] } = await response.json();
+    console.log('Pixabay hits:', data.hits?.length || 0);
+    return (data.hits ?? []).slice(0, perPage).map(toCandidate);
+  },
+};
@@ -0,0 +1,153 @@
+import sharp from "sharp";
+import type { SiteConfig } from "../sites";
+import { toSlug } from "../wordpress";
+import type { ImageOutputFormat } from "./types";
+
+// Featured image pipeline run before upload: check what the download really
+// is, scale it down, re-encode it (which also drops EXIF/GPS metadata) and
+// name the file after the post's primary keyword.
+
+export interface ImageProcessingOptions {
+  maxWidth: number;
+  format: ImageOutputFormat;
+  quality: number;
+}
+
+export interface ProcessedImage {
+  data: Buffer;
+  mimeType: string;
+  extension: string;
+  width?: number;
+  height?: number;
+  // Type detected from the downloaded bytes
+  sourceMimeType: string;
+}
+
+export class ImageError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ImageError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_MAX_WIDTH = 1600;
+const DEFAULT_QUALITY = 80;
+// Downloads larger than this are refused
+const MAX_DOWNLOAD_BYTES = parseInt(process.env.IMAGE_MAX_DOWNLOAD_BYTES || String(25 * 1024 * 1024));
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+export function getImageProcessingOptions(site: SiteConfig): ImageProcessingOptions {
+  const { maxWidth, format, quality } = site.images ?? {};
+  return {
+    maxWidth: maxWidth && maxWidth > 0 ? maxWidth : DEFAULT_MAX_WIDTH,
+    format: format ?? 'webp',
+    quality: quality && quality > 0 && quality <= 100 ? quality : DEFAULT_QUALITY,
+  };
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+// MIME type from the file signature; the server's Content-Type and the URL's
+// extension are often wrong. Null for anything that isn't a raster image.
+export function detectImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(bytes, 8, 12))) return 'image/avif';
+  return null;
+}
+
+export async function downloadImage(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    throw new ImageError(`Failed to fetch image: ${error instanceof Error ? error.message : error}`, 502);
+  }
+  if (!response.ok) {
+    throw new ImageError(`Failed to fetch image: ${response.status}`, 502);
+  }
+
+  const length = parseInt(response.headers.get('content-length') || '0');
+  if (length > MAX_DOWNLOAD_BYTES) {
+    throw new ImageError(`Image is too large (${length} bytes)`, 413);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.length > MAX_DOWNLOAD_BYTES) {
+    throw new ImageError(`Image is too large (${bytes.length} bytes)`, 413);
+  }
+  return bytes;
+}
+
+export async function processImage(bytes: Uint8Array, options: ImageProcessingOptions): Promise<ProcessedImage> {
+  const sourceMimeType = detectImageType(bytes);
+  if (!sourceMimeType) {
+    throw new ImageError('Downloaded file is not a JPEG, PNG, GIF, WebP or AVIF image', 415);
+  }
+
+  // rotate() applies the EXIF orientation before the metadata is dropped;
+  // sharp writes no metadata unless asked to. Animated GIFs keep their first frame.
+  let pipeline = sharp(bytes, { failOn: 'error' })
+    .rotate()
+    .resize({ width: options.maxWidth, withoutEnlargement: true });
+
+  const format = options.format === 'original'
+    ? sourceMimeType.replace('image/', '')
+    : options.format;
+  switch (format) {
+    case 'avif':
+      pipeline = pipeline.avif({ quality: options.quality });
+      break;
+    case 'jpeg':
+      pipeline = pipeline.jpeg({ quality: options.quality, mozjpeg: true });
+      break;
+    case 'png':
+      pipeline = pipeline.png({ compressionLevel: 9 });
+      break;
+    case 'gif':
+      pipeline = pipeline.gif();
+      break;
+    default:
+      pipeline = pipeline.webp({ quality: options.quality });
+  }
+
+  try {
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    const mimeType = `image/${info.format === 'heif' ? 'avif' : info.format}`;
+    return {
+      data,
+      mimeType,
+      extension: EXTENSIONS[mimeType] ?? info.format,
+      width: info.width,
+      height: info.height,
+      sourceMimeType,
+    };
+  } catch (error) {
+    throw new ImageError(`Could not process image: ${error instanceof Error ? error.message : error}`, 422);
+  }
+}
+
+// e.g. "humanoid-robots-factory-floor.webp"; falls back to the post id when
+// the keyword has nothing usable in it. WordPress appends -1, -2, ... to
+// names already in the media library.
+export function imageFilename(keyword: string | undefined, postId: number, extension: string): string {
+  const slug = toSlug(keyword ?? '').substring(0, 60).replace(/-+$/, '');
+  return `${slug || `featured-image-${postId}`}.${extension}`;
+}
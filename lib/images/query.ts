@@ -0,0 +1,27 @@
+// Search text for the stock providers: AI image descriptions can be long and
+// full of punctuation, which the APIs either reject or match poorly.
+export function cleanImageQuery(query: string): string | null {
+  // Ensure query is not empty or too short
+  let searchQuery = query.trim();
+  if (!searchQuery || searchQuery.length < 3) {
+    return null;
+  }
+
+  // Clean up query - remove special chars, limit length
+  searchQuery = searchQuery
+    .replace(/[^\w\s-]/g, '') // Remove special chars except spaces and hyphens
+    .replace(/\s+/g, ' ')     // Normalize spaces
+    .trim();
+
+  if (searchQuery.length > 100) {
+    searchQuery = searchQuery.substring(0, 100).replace(/\s+\S*$/, '');
+  }
+
+  return searchQuery.length >= 3 ? searchQuery : null;
+}
+
+// Provider error with the start of the response body
+export async function providerError(provider: string, response: Response): Promise<Error> {
+  const text = await response.text().catch(() => '');
+  return new Error(`${provider} responded ${response.status}${text ? `: ${text.substring(0, 200)}` : ''}`);
+}
@@ -0,0 +1,124 @@
+import type { SiteConfig } from "../sites";
+import { aiImageProvider } from "./generated";
+import { pexelsProvider } from "./pexels";
+import { pixabayProvider } from "./pixabay";
+import { cleanImageQuery } from "./query";
+import type { ImageCandidate, ImageProvider, ImageProviderId, ImageSearchResult } from "./types";
+import { unsplashProvider } from "./unsplash";
+import { wordpressMediaProvider } from "./wordpress";
+
+// Candidates per provider when the site doesn't set images.perProvider
+const DEFAULT_PER_PROVIDER = parseInt(process.env.IMAGE_CANDIDATES_PER_PROVIDER || '6');
+const MAX_PER_PROVIDER = 30;
+
+const PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+  pixabay: pixabayProvider,
+  unsplash: unsplashProvider,
+  pexels: pexelsProvider,
+  wordpress: wordpressMediaProvider,
+  ai: aiImageProvider,
+};
+
+export const IMAGE_PROVIDER_IDS = Object.keys(PROVIDERS) as ImageProviderId[];
+
+// Generators cost money per image, so they are opt-in
+const DEFAULT_PROVIDER_ORDER = IMAGE_PROVIDER_IDS.filter((id) => PROVIDERS[id].kind === 'stock');
+
+export function isImageProviderId(value: string): value is ImageProviderId {
+  return value in PROVIDERS;
+}
+
+export function getImageProvider(id: ImageProviderId): ImageProvider {
+  return PROVIDERS[id];
+}
+
+// The site's providers in its preferred order, without unconfigured ones
+export function resolveImageProviders(site: SiteConfig, only?: ImageProviderId[]): ImageProvider[] {
+  const order = only ? IMAGE_PROVIDER_IDS : site.images?.providers ?? DEFAULT_PROVIDER_ORDER;
+  return order
+    .filter((id) => !only || only.includes(id))
+    .map((id) => PROVIDERS[id])
+    .filter((provider) => provider.isConfigured(site));
+}
+
+// Round-robin, so the first few candidates come from different providers
+function interleave(lists: ImageCandidate[][]): ImageCandidate[] {
+  const result: ImageCandidate[] = [];
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length) result.push(list[i]);
+    }
+  }
+  return result;
+}
+
+export interface SearchImagesOptions {
+  providers?: ImageProviderId[];
+  perProvider?: number;
+  // Generate an image when no provider found one (if the site allows it)
+  generateWhenEmpty?: boolean;
+  signal?: AbortSignal;
+}
+
+async function runProviders(
+  site: SiteConfig,
+  providers: ImageProvider[],
+  query: string,
+  perPage: number,
+  signal?: AbortSignal
+): Promise<ImageSearchResult> {
+  // Stock providers match keywords; generators get the full description
+  const cleaned = cleanImageQuery(query);
+  const prompt = query.trim().substring(0, 1000);
+  const settled = await Promise.allSettled(
+    providers.map((provider) =>
+      provider.kind === 'generated'
+        ? provider.search(site, prompt, { perPage: 1, signal })
+        : cleaned
+          ? provider.search(site, cleaned, { perPage, signal })
+          : Promise.resolve([])
+    )
+  );
+
+  const errors: ImageSearchResult['errors'] = [];
+  const lists = settled.map((outcome, i) => {
+    if (outcome.status === 'fulfilled') return outcome.value;
+    const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    console.error(`${providers[i].name} image search error:`, error);
+    errors.push({ provider: providers[i].id, error });
+    return [];
+  });
+
+  return { candidates: interleave(lists), errors };
+}
+
+// Query every configured provider at once. A failing provider is reported in
+// errors and doesn't fail the search.
+export async function searchImages(
+  site: SiteConfig,
+  query: string,
+  { providers: only, perProvider, generateWhenEmpty, signal }: SearchImagesOptions = {}
+): Promise<ImageSearchResult> {
+  if (query.trim().length < 3) {
+    console.warn('Query too short for image search:', query);
+    return { candidates: [], errors: [] };
+  }
+
+  const providers = resolveImageProviders(site, only);
+  const perPage = Math.min(MAX_PER_PROVIDER, Math.max(1, perProvider ?? site.images?.perProvider ?? DEFAULT_PER_PROVIDER));
+  const result = await runProviders(site, providers, query, perPage, signal);
+
+  const generator = PROVIDERS.ai;
+  const fallback =
+    generateWhenEmpty &&
+    result.candidates.length === 0 &&
+    site.images?.generateWhenEmpty !== false &&
+    !providers.includes(generator) &&
+    generator.isConfigured(site);
+  if (!fallback) return result;
+
+  console.log('No stock images found, generating one');
+  const generated = await runProviders(site, [generator], query, 1, signal);
+  return { candidates: generated.candidates, errors: [...result.errors, ...generated.errors] };
+}
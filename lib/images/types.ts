@@ -0,0 +1,74 @@
+import type { SiteConfig } from "../sites";
+
+// 'ai' generates an image from the description instead of searching
+export type ImageProviderId = 'pixabay' | 'unsplash' | 'pexels' | 'wordpress' | 'ai';
+
+export type ImageGeneratorId = 'openai' | 'fake';
+
+// Upload format; 'original' keeps the downloaded type (still resized and stripped)
+export type ImageOutputFormat = 'webp' | 'avif' | 'original';
+
+// One search hit, with what is needed to publish it and credit it
+export interface ImageCandidate {
+  // "<provider>:<provider's id>"
+  id: string;
+  provider: ImageProviderId;
+  // Full-size image to upload
+  url: string;
+  thumbnailUrl: string;
+  width?: number;
+  height?: number;
+  alt?: string;
+  photographer?: string;
+  photographerUrl?: string;
+  license: string;
+  // The image's page at the provider
+  sourceUrl: string;
+  // Already in the site's media library; used as-is instead of uploading
+  mediaId?: number;
+  // Unsplash: endpoint that must be called when the photo is used
+  downloadLocation?: string;
+  // AI-generated images: generator and model, e.g. "openai:gpt-image-1"
+  generatedBy?: string;
+}
+
+export interface ImageSearchOptions {
+  perPage: number;
+  signal?: AbortSignal;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  name: string;
+  // Stock providers get a cleaned-up search query; generators the full
+  // description, and only run when asked for or when the search found nothing
+  kind: 'stock' | 'generated';
+  isConfigured(site: SiteConfig): boolean;
+  search(site: SiteConfig, query: string, options: ImageSearchOptions): Promise<ImageCandidate[]>;
+}
+
+export interface ImageGenerationOptions {
+  width: number;
+  height: number;
+  signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+  data: Uint8Array;
+  mimeType: string;
+  model: string;
+  // The prompt as rewritten by the model, when it reports one
+  revisedPrompt?: string;
+}
+
+export interface ImageGenerator {
+  id: ImageGeneratorId;
+  model: string;
+  generate(prompt: string, options: ImageGenerationOptions): Promise<GeneratedImage>;
+}
+
+export interface ImageSearchResult {
+  candidates: ImageCandidate[];
+  // Providers that failed; the others' results are still returned
+  errors: Array<{ provider: ImageProviderId; error: string }>;
+}
@@ -0,0 +1,82 @@
+import { providerError } from "./query";
+import type { ImageCandidate, ImageProvider } from "./types";
+
+const UNSPLASH_ACCESS_KEY = process.env.UNSPLASH_ACCESS_KEY;
+// Unsplash asks for the app name in attribution links (utm_source)
+const UNSPLASH_APP_NAME = process.env.UNSPLASH_APP_NAME || 'dc_handler';
+
+interface UnsplashPhoto {
+  id: string;
+  width: number;
+  height: number;
+  alt_description?: string | null;
+  description?: string | null;
+  urls: { full: string; regular: string; small: string };
+  links: { html: string; download_location: string };
+  user: { name: string; links: { html: string } };
+}
+
+function withReferral(url: string): string {
+  const link = new URL(url);
+  link.searchParams.set('utm_source', UNSPLASH_APP_NAME);
+  link.searchParams.set('utm_medium', 'referral');
+  return link.toString();
+}
+
+function toCandidate(photo: UnsplashPhoto): ImageCandidate {
+  return {
+    id: `unsplash:${photo.id}`,
+    provider: 'unsplash',
+    // "regular" is 1080px wide; "full" can be tens of megabytes
+    url: photo.urls.regular,
+    thumbnailUrl: photo.urls.small,
+    width: photo.width,
+    height: photo.height,
+    alt: photo.alt_description || photo.description || undefined,
+    photographer: photo.user.name,
+    photographerUrl: withReferral(photo.user.links.html),
+    license: 'Unsplash License',
+    sourceUrl: withReferral(photo.links.html),
+    downloadLocation: photo.links.download_location,
+  };
+}
+
+export const unsplashProvider: ImageProvider = {
+  id: 'unsplash',
+  name: 'Unsplash',
+  kind: 'stock',
+
+  isConfigured() {
+    return Boolean(UNSPLASH_ACCESS_KEY);
+  },
+
+  async search(site, query, { perPage, signal }) {
+    const params = new URLSearchParams({
+      query,
+      per_page: String(perPage),
+      orientation: 'landscape',
+      content_filter: 'high',
+    });
+
+    const response = await fetch(`https://api.unsplash.com/search/photos?${params.toString()}`, {
+      headers: { 'Authorization': `Client-ID ${UNSPLASH_ACCESS_KEY}`, 'Accept-Version': 'v1' },
+      signal,
+    });
+    if (!response.ok) {
+      throw await providerError('Unsplash', response);
+    }
+
+    const data: { results?: UnsplashPhoto[] } = await response.json();
+    return (data.results ?? []).map(toCandidate);
+  },
+};
+
+// Required by the Unsplash API guidelines whenever a photo is actually used
+export async function trackUnsplashDownload(downloadLocation: string): Promise<void> {
+  if (!UNSPLASH_ACCESS_KEY || !downloadLocation.startsWith('https://api.unsplash.com/')) return;
+  try {
+    await fetch(downloadLocation, { headers: { 'Authorization': `Client-ID ${UNSPLASH_ACCESS_KEY}` } });
+  } catch (error) {
+    console.warn('Unsplash download tracking failed:', error);
+  }
+}
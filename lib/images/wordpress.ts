@@ -0,0 +1,44 @@
+import { connectToSite, getSiteWordPressConfig } from "../sites";
+import { hasCredentials, type WPMedia } from "../wordpress";
+import type { ImageCandidate, ImageProvider } from "./types";
+
+// Images already in the site's media library. Picking one sets it as the
+// featured image directly, without another upload.
+
+function toCandidate(media: WPMedia, siteName: string): ImageCandidate {
+  const sizes = media.media_details?.sizes ?? {};
+  const thumbnail = sizes.medium ?? sizes.medium_large ?? sizes.thumbnail;
+  return {
+    id: `wordpress:${media.id}`,
+    provider: 'wordpress',
+    url: media.source_url,
+    thumbnailUrl: thumbnail?.source_url ?? media.source_url,
+    width: media.media_details?.width,
+    height: media.media_details?.height,
+    alt: media.alt_text || media.title?.rendered || undefined,
+    license: `${siteName} media library`,
+    sourceUrl: media.link ?? media.source_url,
+    mediaId: media.id,
+  };
+}
+
+export const wordpressMediaProvider: ImageProvider = {
+  id: 'wordpress',
+  name: 'Media library',
+  kind: 'stock',
+
+  isConfigured(site) {
+    return hasCredentials(getSiteWordPressConfig(site));
+  },
+
+  async search(site, query, { perPage }) {
+    const { wp } = connectToSite(site.id);
+    const { items } = await wp.listMedia({
+      search: query,
+      media_type: 'image',
+      per_page: perPage,
+      _fields: 'id,source_url,alt_text,title,link,media_details',
+    });
+    return items.map((media) => toCandidate(media, site.name));
+  },
+};
@@ -0,0 +1,2 @@
+export * from "./queue";
+export type * from "./types";
@@ -0,0 +1,292 @@
+import { randomUUID } from "crypto";
+import type { LLMSelection } from "../llm";
+import { optimizeWithAI } from "../optimizer";
+import { connectToSite, getSite, type SiteConfig } from "../sites";
+import { JsonFileStore } from "../store";
+import { postCategorySlugs, type WordPressClient } from "../wordpress";
+import type { JobCounts, JobItem, JobSummary, OptimizationJob } from "./types";
+
+// Server-side optimization queue. Jobs are persisted to the local file store
+// after every state change and processed in-process with bounded concurrency;
+// jobs left queued/running by a restart are picked up again by recoverJobs().
+
+// A positive integer from the environment; anything else (e.g. NaN, which
+// would start no workers) falls back to the default
+function positiveIntEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+const DEFAULT_CONCURRENCY = positiveIntEnv('JOB_CONCURRENCY', 3);
+const MAX_CONCURRENCY = 10;
+const DEFAULT_MAX_ATTEMPTS = positiveIntEnv('JOB_MAX_ATTEMPTS', 3);
+const RETRY_BASE_DELAY_MS = 2000;
+
+const jobStore = new JsonFileStore<OptimizationJob>('jobs');
+
+interface ActiveJob {
+  job: OptimizationJob;
+  controller: AbortController;
+}
+
+// Route handlers can be bundled separately, so the registry of running jobs
+// lives on globalThis to be shared between them.
+const globalForJobs = globalThis as unknown as {
+  activeJobs?: Map<string, ActiveJob>;
+  jobsRecovered?: boolean;
+};
+const activeJobs = (globalForJobs.activeJobs ??= new Map<string, ActiveJob>());
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function isTerminal(item: JobItem): boolean {
+  return item.status === 'succeeded' || item.status === 'failed' || item.status === 'cancelled';
+}
+
+async function saveJob(job: OptimizationJob): Promise<void> {
+  job.updatedAt = now();
+  await jobStore.put(job);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+async function processItem(
+  job: OptimizationJob,
+  item: JobItem,
+  site: SiteConfig,
+  wp: WordPressClient,
+  signal: AbortSignal
+): Promise<void> {
+  while (item.attempts < job.maxAttempts) {
+    if (signal.aborted) break;
+
+    item.status = 'running';
+    item.attempts += 1;
+    item.startedAt = now();
+    await saveJob(job);
+
+    try {
+      const post = await wp.getPost(item.postId, { _embed: 'wp:term' });
+      item.title = post.title.rendered;
+      item.result = await optimizeWithAI(site, {
+        title: post.title.rendered,
+        content: post.content.rendered,
+        excerpt: post.excerpt.rendered,
+        categories: postCategorySlugs(post),
+        postId: post.id,
+      }, { signal, llm: job.llm, promptTemplate: job.promptTemplate });
+      item.status = 'succeeded';
+      item.error = undefined;
+      item.finishedAt = now();
+      await saveJob(job);
+      return;
+    } catch (error) {
+      if (signal.aborted) break;
+
+      console.error(`[JOB ${job.id}] Post ${item.postId} attempt ${item.attempts} failed:`, error);
+      item.error = error instanceof Error ? error.message : String(error);
+
+      if (item.attempts >= job.maxAttempts) {
+        item.status = 'failed';
+        item.finishedAt = now();
+        await saveJob(job);
+        return;
+      }
+
+      item.status = 'pending';
+      await saveJob(job);
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1), signal);
+    }
+  }
+
+  item.status = 'cancelled';
+  item.finishedAt = now();
+  await saveJob(job);
+}
+
+async function processJob(job: OptimizationJob, controller: AbortController): Promise<void> {
+  let site: SiteConfig;
+  let wp: WordPressClient;
+  try {
+    ({ site, wp } = connectToSite(job.siteId));
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+    job.finishedAt = now();
+    await saveJob(job);
+    return;
+  }
+
+  job.status = 'running';
+  await saveJob(job);
+
+  const pending = job.items.filter((item) => item.status === 'pending');
+  let next = 0;
+
+  // Each lane pulls the next pending item until the queue is drained
+  const lane = async () => {
+    while (!controller.signal.aborted) {
+      const item = pending[next++];
+      if (!item) return;
+      await processItem(job, item, site, wp, controller.signal);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(job.concurrency, pending.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+
+  if (controller.signal.aborted) {
+    for (const item of job.items) {
+      if (!isTerminal(item)) item.status = 'cancelled';
+    }
+    job.status = 'cancelled';
+  } else {
+    job.status = 'completed';
+  }
+  job.finishedAt = now();
+  await saveJob(job);
+}
+
+function startJob(job: OptimizationJob): void {
+  if (activeJobs.has(job.id)) return;
+
+  const controller = new AbortController();
+  activeJobs.set(job.id, { job, controller });
+
+  processJob(job, controller)
+    .catch((error) => console.error(`[JOB ${job.id}] Worker crashed:`, error))
+    .finally(() => activeJobs.delete(job.id));
+}
+
+export function countItems(job: OptimizationJob): JobCounts {
+  const counts: JobCounts = { total: job.items.length, pending: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 };
+  for (const item of job.items) counts[item.status] += 1;
+  return counts;
+}
+
+export function summarizeJob(job: OptimizationJob): JobSummary {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { items, ...rest } = job;
+  return { ...rest, counts: countItems(job) };
+}
+
+export async function enqueueJob(input: {
+  siteId?: string;
+  postIds: number[];
+  concurrency?: number;
+  maxAttempts?: number;
+  llm?: LLMSelection;
+  promptTemplate?: string;
+}): Promise<OptimizationJob> {
+  const site = getSite(input.siteId);
+  const postIds = Array.from(new Set(input.postIds));
+
+  const timestamp = now();
+  const job: OptimizationJob = {
+    id: randomUUID(),
+    siteId: site.id,
+    status: 'queued',
+    concurrency: Math.min(Math.max(1, input.concurrency ?? DEFAULT_CONCURRENCY), MAX_CONCURRENCY),
+    maxAttempts: Math.max(1, input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS),
+    llm: input.llm,
+    promptTemplate: input.promptTemplate,
+    items: postIds.map((postId) => ({ postId, status: 'pending', attempts: 0 })),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  await saveJob(job);
+  startJob(job);
+  return job;
+}
+
+export async function getJob(jobId: string): Promise<OptimizationJob | null> {
+  return activeJobs.get(jobId)?.job ?? jobStore.get(jobId);
+}
+
+export async function listJobs(siteId?: string | null): Promise<JobSummary[]> {
+  const jobs = await jobStore.list();
+  return jobs
+    .map((job) => activeJobs.get(job.id)?.job ?? job)
+    .filter((job) => !siteId || job.siteId === siteId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(summarizeJob);
+}
+
+export async function cancelJob(jobId: string): Promise<OptimizationJob | null> {
+  const active = activeJobs.get(jobId);
+  if (active) {
+    // The worker marks the remaining items cancelled once its lanes stop
+    active.controller.abort();
+    return active.job;
+  }
+
+  const job = await jobStore.get(jobId);
+  if (!job) return null;
+
+  if (job.status === 'queued' || job.status === 'running') {
+    for (const item of job.items) {
+      if (!isTerminal(item)) item.status = 'cancelled';
+    }
+    job.status = 'cancelled';
+    job.finishedAt = now();
+    await saveJob(job);
+  }
+  return job;
+}
+
+// Re-run every item that didn't succeed (failed or cancelled) with a fresh
+// attempt budget.
+export async function resumeJob(jobId: string): Promise<OptimizationJob | null> {
+  const active = activeJobs.get(jobId);
+  if (active) return active.job;
+
+  const job = await jobStore.get(jobId);
+  if (!job) return null;
+
+  for (const item of job.items) {
+    if (item.status !== 'succeeded') {
+      item.status = 'pending';
+      item.attempts = 0;
+      item.error = undefined;
+      item.finishedAt = undefined;
+    }
+  }
+  job.status = 'queued';
+  job.error = undefined;
+  job.finishedAt = undefined;
+
+  await saveJob(job);
+  startJob(job);
+  return job;
+}
+
+// Called once at server start: restart jobs a previous process left behind
+export async function recoverJobs(): Promise<void> {
+  if (globalForJobs.jobsRecovered) return;
+  globalForJobs.jobsRecovered = true;
+
+  for (const job of await jobStore.list()) {
+    if (job.status !== 'queued' && job.status !== 'running') continue;
+
+    // The interrupted attempt doesn't count against the retry budget
+    for (const item of job.items) {
+      if (item.status === 'running') {
+        item.status = 'pending';
+        item.attempts = Math.max(0, item.attempts - 1);
+      }
+    }
+    console.log(`[JOB ${job.id}] Resuming after restart`);
+    startJob(job);
+  }
+}
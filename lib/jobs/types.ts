@@ -0,0 +1,48 @@
+import type { LLMSelection } from "../llm";
+import type { OptimizedContent } from "../optimizer/types";
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobItem {
+  postId: number;
+  title?: string;
+  status: JobItemStatus;
+  attempts: number;
+  error?: string;
+  result?: OptimizedContent;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface OptimizationJob {
+  id: string;
+  siteId: string;
+  status: JobStatus;
+  concurrency: number;
+  maxAttempts: number;
+  // Provider/model override for every item; unset uses the site's choice
+  llm?: LLMSelection;
+  // Prompt template override ("id" or "id@version")
+  promptTemplate?: string;
+  items: JobItem[];
+  // Job-level failure, e.g. the site has no credentials
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export interface JobCounts {
+  total: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+}
+
+// List view: the job without per-item results
+export interface JobSummary extends Omit<OptimizationJob, 'items'> {
+  counts: JobCounts;
+}
@@ -0,0 +1,186 @@
+import { htmlToText } from "../diff/blocks";
+import { getSeoAdapter } from "../seo/adapters";
+import { readMetaValue } from "../seo/meta";
+import { fingerprint } from "../similarity/fingerprint";
+import { connectToSite, getSiteWordPressConfig, type SiteConfig } from "../sites";
+import { JsonFileStore } from "../store";
+import { hasCredentials, type WordPressClient, type WPPost } from "../wordpress";
+import { suggestLinks } from "./suggest";
+import type { IndexedPost, LinkIndex, LinkSuggestion, LinkSuggestOptions } from "./types";
+
+// Local index of a site's published posts, the link targets for internal
+// link suggestions. Built once from the REST API, then kept current by
+// fetching only the posts modified since the last sync; a periodic full
+// rebuild drops posts that were unpublished or deleted in the meantime.
+
+// Incremental syncs at most this often
+const SYNC_INTERVAL_MS = parseInt(process.env.LINK_INDEX_SYNC_MINUTES || '10') * 60 * 1000;
+// Full rebuild after this long
+const REBUILD_INTERVAL_MS = parseInt(process.env.LINK_INDEX_REBUILD_HOURS || '24') * 60 * 60 * 1000;
+
+// Posts and categories are read in pages of 100, up to this many pages
+const MAX_PAGES = 50;
+
+// Bumped when IndexedPost gains fields (2: content fingerprints)
+const INDEX_VERSION = 2;
+
+const indexStore = new JsonFileStore<LinkIndex>('link-index');
+
+// One sync per site at a time; concurrent optimizations share it
+const syncing = new Map<string, Promise<LinkIndex>>();
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+export async function getLinkIndex(siteId: string): Promise<LinkIndex | null> {
+  return indexStore.get(siteId);
+}
+
+async function categorySlugs(wp: WordPressClient): Promise<Map<number, string>> {
+  const slugs = new Map<number, string>();
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const { items, totalPages } = await wp.listTerms('categories', { per_page: 100, page, _fields: 'id,slug' });
+    for (const term of items) slugs.set(term.id, term.slug);
+    if (page >= totalPages) break;
+  }
+  return slugs;
+}
+
+function toIndexedPost(site: SiteConfig, post: WPPost, categories: Map<number, string>): IndexedPost {
+  const focusKeyword = post.meta ? readMetaValue(post.meta, getSeoAdapter(site.seoPlugin).focusKeywordKey) : null;
+  return {
+    id: post.id,
+    title: htmlToText(post.title?.rendered ?? ''),
+    slug: post.slug,
+    link: post.link ?? '',
+    categories: (post.categories ?? []).flatMap((id) => categories.get(id) ?? []),
+    keywords: (focusKeyword ?? '').split(',').map((keyword) => keyword.trim()).filter(Boolean),
+    modified: post.modified ?? post.date,
+    fingerprint: post.content ? fingerprint(post.content.rendered) : undefined,
+  };
+}
+
+async function fetchPublished(site: SiteConfig, wp: WordPressClient, modifiedAfter?: string): Promise<IndexedPost[]> {
+  const categories = await categorySlugs(wp);
+  const posts: IndexedPost[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const { items, totalPages } = await wp.listPosts({
+      status: 'publish',
+      modified_after: modifiedAfter,
+      orderby: 'modified',
+      order: 'asc',
+      per_page: 100,
+      page,
+      // Meta (the focus keyword) is only returned in the edit context
+      context: 'edit',
+      _fields: 'id,date,modified,slug,link,title,content,categories,meta',
+    });
+    posts.push(...items.map((post) => toIndexedPost(site, post, categories)));
+    if (page >= totalPages) break;
+  }
+  return posts;
+}
+
+// A second back from the newest modification: WordPress compares with
+// "after", and posts saved within the same second would be missed
+function syncCursor(posts: IndexedPost[]): string | undefined {
+  const newest = posts.reduce<string | undefined>((max, post) => (!max || post.modified > max ? post.modified : max), undefined);
+  if (!newest) return undefined;
+  const time = Date.parse(`${newest}Z`);
+  return Number.isNaN(time) ? newest : new Date(time - 1000).toISOString().substring(0, 19);
+}
+
+function mergePosts(existing: IndexedPost[], changed: IndexedPost[]): IndexedPost[] {
+  const byId = new Map(existing.map((post) => [post.id, post]));
+  for (const post of changed) byId.set(post.id, post);
+  return Array.from(byId.values());
+}
+
+async function runSync(site: SiteConfig, wp: WordPressClient, rebuild: boolean): Promise<LinkIndex> {
+  const index = await getLinkIndex(site.id);
+  const age = index ? Date.now() - Date.parse(index.rebuiltAt) : Infinity;
+
+  if (!index || rebuild || age > REBUILD_INTERVAL_MS || index.version !== INDEX_VERSION) {
+    const posts = await fetchPublished(site, wp);
+    const rebuilt: LinkIndex = {
+      id: site.id,
+      siteId: site.id,
+      version: INDEX_VERSION,
+      posts,
+      rebuiltAt: now(),
+      syncedAt: now(),
+    };
+    await indexStore.put(rebuilt);
+    console.log(`[DEBUG] Link index rebuilt for ${site.id}: ${posts.length} posts`);
+    return rebuilt;
+  }
+
+  const changed = await fetchPublished(site, wp, syncCursor(index.posts));
+  const synced: LinkIndex = { ...index, posts: mergePosts(index.posts, changed), syncedAt: now() };
+  await indexStore.put(synced);
+  console.log(`[DEBUG] Link index synced for ${site.id}: ${changed.length} changed`);
+  return synced;
+}
+
+// The site's index, synced first unless that happened recently (or `force`).
+// Pass `rebuild` to fetch everything again.
+export async function syncLinkIndex(
+  site: SiteConfig,
+  wp: WordPressClient,
+  { rebuild = false, force = false }: { rebuild?: boolean; force?: boolean } = {}
+): Promise<LinkIndex> {
+  const pending = syncing.get(site.id);
+  if (pending) return pending;
+
+  if (!rebuild && !force) {
+    const index = await getLinkIndex(site.id);
+    const recent = index && Date.now() - Date.parse(index.syncedAt) < SYNC_INTERVAL_MS;
+    if (index && recent && index.version === INDEX_VERSION) return index;
+  }
+
+  const sync = runSync(site, wp, rebuild).finally(() => syncing.delete(site.id));
+  syncing.set(site.id, sync);
+  return sync;
+}
+
+// Brings one post up to date after it was saved from the dashboard, so a
+// newly published post can be linked to right away and one put back to draft
+// is not. `post` is the update response (edit context, so its meta carries the
+// focus keyword); categories are given as slugs.
+export async function updateIndexedPost(site: SiteConfig, post: WPPost, categories: string[]): Promise<void> {
+  const index = await getLinkIndex(site.id);
+  // Nothing to update yet; the first sync fetches it with everything else
+  if (!index) return;
+
+  const others = index.posts.filter((indexed) => indexed.id !== post.id);
+  const posts = post.status === 'publish'
+    ? [...others, { ...toIndexedPost(site, post, new Map()), categories }]
+    : others;
+  await indexStore.put({ ...index, posts });
+}
+
+// The site's index for a check that runs now: synced when due, as stored when
+// the sync fails (or the site has no credentials), null before the first sync
+export async function loadLinkIndex(site: SiteConfig): Promise<LinkIndex | null> {
+  try {
+    return hasCredentials(getSiteWordPressConfig(site))
+      ? await syncLinkIndex(site, connectToSite(site.id).wp)
+      : await getLinkIndex(site.id);
+  } catch (error) {
+    console.warn(`Link index sync failed for ${site.id}:`, error instanceof Error ? error.message : error);
+    return getLinkIndex(site.id);
+  }
+}
+
+// Link suggestions for a draft from the site's index; none without one
+export async function suggestInternalLinks(
+  site: SiteConfig,
+  html: string,
+  options: Omit<LinkSuggestOptions, 'max'> = {}
+): Promise<LinkSuggestion[]> {
+  const index = await loadLinkIndex(site);
+  if (!index) return [];
+
+  return suggestLinks(html, index.posts, { ...options, max: site.links?.max });
+}
@@ -0,0 +1,3 @@
+export * from "./catalog";
+export * from "./suggest";
+export type * from "./types";
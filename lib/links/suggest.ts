@@ -0,0 +1,218 @@
+import { topLevelNodes } from "../content/nodes";
+import { decodeEntities, extractLinks, htmlToText } from "../diff/blocks";
+import type { IndexedPost, LinkSuggestion, LinkSuggestOptions } from "./types";
+
+// Finds places in a draft where a published post can be linked: a focus
+// keyword or part of the post's title that already appears in a paragraph
+// becomes the anchor, so the link reads naturally. Regex based like the rest
+// of the content helpers; runs in the browser too (accept/reject in the
+// review card).
+
+const DEFAULT_MAX_LINKS = 3;
+
+// Blocks a link may be placed in; headings, tables and figures are left alone
+const LINKABLE_BLOCKS = new Set(['p', 'ul', 'ol', 'blockquote', '#text']);
+
+// Never link inside these (existing links, code, captions)
+const BLOCKED_TAGS = new Set(['a', 'code', 'pre', 'figcaption', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'it', 'its', 'this', 'that', 'these', 'those', 'how', 'why', 'what',
+  'when', 'where', 'who', 'your', 'you', 'our', 'we', 'my', 'vs', 'into', 'about', 'than', 'can', 'will',
+]);
+
+// Title windows of this many words are tried, longest first
+const MAX_TITLE_WORDS = 6;
+
+const WORD_CHAR = 'A-Za-z0-9\\u00C0-\\u024F';
+
+interface Phrase {
+  text: string;
+  words: number;
+  matchedBy: LinkSuggestion['matchedBy'];
+}
+
+interface TextMatch {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function words(text: string): string[] {
+  return decodeEntities(text)
+    .toLowerCase()
+    .split(new RegExp(`[^${WORD_CHAR}]+`))
+    .filter(Boolean);
+}
+
+// Whole words only, separated by whitespace or a hyphen
+function phrasePattern(phrase: string, flags = 'i'): RegExp {
+  const body = phrase.trim().split(/[\s-]+/).map(escapeRegExp).join('(?:\\s+|-)');
+  return new RegExp(`(^|[^${WORD_CHAR}])(${body})(?=$|[^${WORD_CHAR}])`, flags);
+}
+
+// First match in the text of an HTML fragment, outside links, headings and
+// code; offsets are into the fragment
+function findInText(html: string, pattern: RegExp): TextMatch | null {
+  const stack: string[] = [];
+  for (const token of html.matchAll(/<[^>]+>|[^<]+/g)) {
+    const value = token[0];
+    if (value.startsWith('<')) {
+      const tag = /^<(\/?)([a-zA-Z][a-zA-Z0-9]*)/.exec(value);
+      const name = tag?.[2].toLowerCase();
+      if (!tag || !name || !BLOCKED_TAGS.has(name)) continue;
+      if (tag[1]) {
+        const open = stack.lastIndexOf(name);
+        if (open !== -1) stack.splice(open);
+      } else if (!value.endsWith('/>')) {
+        stack.push(name);
+      }
+      continue;
+    }
+    if (stack.length > 0) continue;
+
+    const match = pattern.exec(value);
+    if (match) {
+      const start = token.index + match.index + match[1].length;
+      return { start, end: start + match[2].length, text: match[2] };
+    }
+  }
+  return null;
+}
+
+// Same page, whatever the scheme, host prefix or trailing slash
+function linksTo(href: string, target: IndexedPost): boolean {
+  const normalize = (url: string) =>
+    decodeEntities(url).toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+  const path = normalize(href);
+  return path === normalize(target.link) || (target.slug !== '' && path.endsWith(`/${target.slug}`));
+}
+
+// Anchor candidates for a target: its focus keywords, then runs of its title
+// that don't start or end on a stopword
+function targetPhrases(target: IndexedPost): Phrase[] {
+  const phrases: Phrase[] = [];
+  for (const keyword of target.keywords) {
+    const keywordWords = words(keyword);
+    if (keywordWords.length > 1 || (keywordWords[0]?.length ?? 0) >= 4) {
+      phrases.push({ text: keywordWords.join(' '), words: keywordWords.length, matchedBy: 'keyword' });
+    }
+  }
+
+  const titleWords = words(target.title);
+  for (let size = Math.min(MAX_TITLE_WORDS, titleWords.length); size >= 2; size--) {
+    for (let i = 0; i + size <= titleWords.length; i++) {
+      const run = titleWords.slice(i, i + size);
+      if (STOPWORDS.has(run[0]) || STOPWORDS.has(run[size - 1])) continue;
+      phrases.push({ text: run.join(' '), words: size, matchedBy: 'title' });
+    }
+  }
+
+  const seen = new Set<string>();
+  return phrases.filter((phrase) => !seen.has(phrase.text) && seen.add(phrase.text));
+}
+
+function phraseScore(phrase: Phrase, sharedCategory: boolean): number {
+  const base = phrase.matchedBy === 'keyword' ? 30 + 2 * phrase.words : 10 + 4 * phrase.words;
+  return base + (sharedCategory ? 10 : 0);
+}
+
+// The sentence the anchor is in
+function sentenceAround(html: string, anchor: string): string {
+  const text = htmlToText(html);
+  const sentences = text.match(/[^.!?]+[.!?]*/g) ?? [text];
+  const sentence = sentences.find((s) => s.toLowerCase().includes(anchor.toLowerCase())) ?? text;
+  const trimmed = sentence.trim();
+  return trimmed.length > 200 ? `${trimmed.substring(0, 197)}...` : trimmed;
+}
+
+// Up to `max` links, at most one per target post and one per paragraph, best
+// scoring first. Posts the draft already links to are skipped.
+export function suggestLinks(html: string, posts: IndexedPost[], options: LinkSuggestOptions = {}): LinkSuggestion[] {
+  const max = options.max ?? DEFAULT_MAX_LINKS;
+  if (max <= 0) return [];
+
+  const blocks = topLevelNodes(html).filter((node) => LINKABLE_BLOCKS.has(node.tag));
+  const draftText = ` ${words(htmlToText(html)).join(' ')} `;
+  const existingLinks = extractLinks(html);
+  const categories = new Set(options.categories ?? []);
+
+  const candidates: Array<LinkSuggestion & { block: number }> = [];
+  for (const target of posts) {
+    if (target.id === options.postId || !target.link) continue;
+    if (existingLinks.some((href) => linksTo(href, target))) continue;
+    const sharedCategory = target.categories.some((slug) => categories.has(slug));
+
+    for (const phrase of targetPhrases(target)) {
+      // Cheap check first; most phrases appear nowhere in the draft
+      if (!draftText.includes(` ${phrase.text} `)) continue;
+      const pattern = phrasePattern(phrase.text);
+      const block = blocks.findIndex((node) => findInText(node.html, pattern));
+      if (block === -1) continue;
+
+      const anchor = findInText(blocks[block].html, pattern)!.text;
+      candidates.push({
+        id: `link-${target.id}`,
+        targetPostId: target.id,
+        url: target.link,
+        title: target.title,
+        anchor,
+        context: sentenceAround(blocks[block].html, anchor),
+        matchedBy: phrase.matchedBy,
+        score: phraseScore(phrase, sharedCategory),
+        status: 'suggested',
+        block,
+      });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.block - b.block);
+  const usedTargets = new Set<number>();
+  const usedBlocks = new Set<number>();
+  const suggestions: LinkSuggestion[] = [];
+  for (const { block, ...suggestion } of candidates) {
+    if (usedTargets.has(suggestion.targetPostId) || usedBlocks.has(block)) continue;
+    usedTargets.add(suggestion.targetPostId);
+    usedBlocks.add(block);
+    suggestions.push(suggestion);
+    if (suggestions.length >= max) break;
+  }
+  return suggestions;
+}
+
+// Wraps the first free occurrence of the anchor text in a link. Null when the
+// anchor is no longer in the content (e.g. edited away).
+export function insertLink(html: string, suggestion: Pick<LinkSuggestion, 'anchor' | 'url'>): string | null {
+  for (const node of topLevelNodes(html)) {
+    if (!LINKABLE_BLOCKS.has(node.tag)) continue;
+    // The exact text first, then any capitalisation
+    const match = findInText(node.html, phrasePattern(suggestion.anchor, '')) ??
+      findInText(node.html, phrasePattern(suggestion.anchor));
+    if (!match) continue;
+
+    const offset = html.indexOf(node.html);
+    const start = offset + match.start;
+    const end = offset + match.end;
+    return `${html.slice(0, start)}<a href="${escapeAttribute(suggestion.url)}">${html.slice(start, end)}</a>${html.slice(end)}`;
+  }
+  return null;
+}
+
+// Unwraps every link to the URL, keeping its text
+export function removeLink(html: string, url: string): string {
+  const href = escapeRegExp(escapeAttribute(url));
+  return html.replace(new RegExp(`<a\\b[^>]*\\bhref="${href}"[^>]*>([\\s\\S]*?)</a>`, 'gi'), '$1');
+}
+
+export function hasLink(html: string, url: string): boolean {
+  return html !== removeLink(html, url);
+}
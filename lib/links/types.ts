@@ -0,0 +1,59 @@
+import type { ContentFingerprint } from "../similarity/types";
+
+// Internal linking: a local index of the site's published posts and the links
+// to them suggested for a draft. The index is also the corpus the similarity
+// check compares drafts with.
+
+export interface IndexedPost {
+  id: number;
+  title: string;
+  slug: string;
+  link: string;
+  // Category slugs
+  categories: string[];
+  // Focus keyword(s) from the SEO plugin, when the REST API exposes them
+  keywords: string[];
+  // WordPress's "modified" (site time), the sync cursor
+  modified: string;
+  fingerprint?: ContentFingerprint;
+}
+
+export interface LinkIndex {
+  // The site id; one index per site
+  id: string;
+  siteId: string;
+  // Format version; an index from an older version is rebuilt
+  version?: number;
+  posts: IndexedPost[];
+  // Last full rebuild and last incremental sync (ISO instants)
+  rebuiltAt: string;
+  syncedAt: string;
+}
+
+// suggested: waiting for the editor; accepted: the link is in the content
+export type LinkSuggestionStatus = 'suggested' | 'accepted' | 'rejected';
+
+export interface LinkSuggestion {
+  // "link-<targetPostId>"
+  id: string;
+  targetPostId: number;
+  url: string;
+  title: string;
+  // Text of the draft that becomes the link
+  anchor: string;
+  // The sentence around the anchor, as plain text
+  context: string;
+  // What the anchor matched: a focus keyword or part of the target's title
+  matchedBy: 'keyword' | 'title';
+  score: number;
+  status: LinkSuggestionStatus;
+}
+
+export interface LinkSuggestOptions {
+  // The draft itself, never linked to
+  postId?: number;
+  // Category slugs of the draft; targets sharing one rank higher
+  categories?: string[];
+  // Suggestions returned (default 3)
+  max?: number;
+}
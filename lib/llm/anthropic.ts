@@ -0,0 +1,77 @@
+import { readSse } from "../sse";
+import { LLMError, type CompletionRequest, type CompletionResult, type LLMProvider } from "./types";
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Anthropic Messages API. The system prompt is a top-level field rather than
+// a message, and streamed text arrives as content_block_delta events.
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    readonly defaultModel: string,
+    private readonly baseUrl = 'https://api.anthropic.com'
+  ) {}
+
+  async complete({
+    messages,
+    model = this.defaultModel,
+    temperature = 0.7,
+    maxTokens = 5000,
+    signal,
+    onToken,
+  }: CompletionRequest): Promise<CompletionResult> {
+    const stream = Boolean(onToken);
+    const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/v1/messages`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          system: system || undefined,
+          messages: messages
+            .filter((m) => m.role !== 'system')
+            .map((m) => ({ role: m.role, content: m.content })),
+          temperature,
+          max_tokens: maxTokens,
+          stream,
+        }),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new LLMError(this.id, `Request failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMError(this.id, `API error: ${response.status} - ${errorText.substring(0, 200)}`, response.status);
+    }
+
+    if (!stream || !response.body) {
+      const data: { content?: Array<{ type: string; text?: string }> } = await response.json();
+      const text = (data.content ?? []).map((block) => (block.type === 'text' ? block.text ?? '' : '')).join('');
+      return { text, provider: this.id, model };
+    }
+
+    let text = '';
+    for await (const message of readSse(response.body)) {
+      const event = JSON.parse(message.data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+        onToken?.(event.delta.text);
+      } else if (event.type === 'error') {
+        throw new LLMError(this.id, `Stream error: ${event.error?.message ?? 'unknown'}`, 529);
+      }
+    }
+    return { text, provider: this.id, model };
+  }
+}
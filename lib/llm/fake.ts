@@ -0,0 +1,85 @@
+import type { CompletionRequest, CompletionResult, LLMProvider } from "./types";
+
+// Deterministic offline stand-in: answers the optimization prompt with a
+// well-formed response derived from the prompt itself (original title,
+// allowed categories and authors), so the whole optimize -> publish flow can
+// be exercised without network access or API keys. Same prompt, same answer.
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function hash(value: string): number {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) {
+    h = (h * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+function fit(text: string, min: number, max: number, filler: string): string {
+  let result = text;
+  while (result.length < min) result = `${result} ${filler}`.trim();
+  if (result.length > max) result = result.substring(0, max).replace(/\s+\S*$/, '');
+  return result;
+}
+
+function readLine(prompt: string, label: string): string {
+  const match = new RegExp(`^${label}:\\s*(.*)$`, 'm').exec(prompt);
+  return match ? match[1].trim() : '';
+}
+
+export class FakeProvider implements LLMProvider {
+  readonly id = 'fake' as const;
+  readonly defaultModel = 'fake-deterministic';
+
+  async complete({ messages, model = this.defaultModel, signal, onToken }: CompletionRequest): Promise<CompletionResult> {
+    const prompt = messages.find((m) => m.role === 'user')?.content ?? '';
+
+    const title = stripHtml(readLine(prompt, 'Original Title')) || 'Untitled draft';
+    const categories = readLine(prompt, 'CATEGORY').split(',').map((c) => c.trim()).filter(Boolean);
+    const authorBlock = /AUTHOR MAPPING:\n((?:- .*\n?)+)/.exec(prompt)?.[1] ?? '';
+    const authors = Array.from(authorBlock.matchAll(/^- ([^:]+):/gm)).map((m) => m[1].trim());
+
+    const seed = hash(title);
+    const keyword = title.toLowerCase().split(/\s+/).slice(0, 3).join(' ');
+    const paragraphs = Array.from({ length: 6 }, (_, i) =>
+      `<p>Paragraph ${i + 1} about ${keyword}. ${title} matters because readers want clear, practical detail on ${keyword}, with examples and context they can act on.</p>`
+    );
+
+    const response = {
+      seoTitle: fit(`${keyword}: ${title}`, 30, 60, 'Guide'),
+      optimizedTitle: fit(title, 10, 120, 'Explained'),
+      facebookTitle: fit(`What ${title} means for you`, 20, 70, 'now'),
+      facebookDescription: fit(`${title}: the short version, with what changes and why it matters to you.`, 50, 200, 'Read more.'),
+      twitterTitle: fit(`${title}, explained`, 20, 70, 'today'),
+      twitterDescription: fit(`Everything you need on ${keyword}, in one read.`, 50, 200, 'Read more.'),
+      seoDescription: fit(`Discover what ${title} means for you. Learn how ${keyword} works and what to do next.`, 120, 160, 'Read the full guide.'),
+      optimizedContent: [
+        `<h1>${title}</h1>`,
+        `<p>${title} is drawing attention. Here is what you need to know about ${keyword}.</p>`,
+        '<h2>Key points</h2>',
+        `<ul><li>What ${keyword} is</li><li>Why it matters now</li><li>What comes next</li></ul>`,
+        ...paragraphs,
+        '<h2>Conclusion</h2>',
+        `<p>Keep following ${keyword} as the story develops.</p>`,
+      ].join(''),
+      primaryKeyword: keyword,
+      keywords: [keyword, `${keyword} news`, `${keyword} guide`, `what is ${keyword}`],
+      seoScore: 60 + (seed % 35),
+      category: categories.length > 0 ? categories[seed % categories.length] : 'news',
+      tags: keyword.split(' ').concat('analysis'),
+      recommendedAuthor: authors.length > 0 ? authors[seed % authors.length] : 'admin',
+      imageDescription: keyword,
+    };
+
+    const text = JSON.stringify(response);
+    if (onToken) {
+      for (let i = 0; i < text.length; i += 40) {
+        if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+        onToken(text.slice(i, i + 40));
+      }
+    }
+    return { text, provider: this.id, model };
+  }
+}
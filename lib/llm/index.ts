@@ -0,0 +1,136 @@
+import type { SiteConfig } from "../sites";
+import { AnthropicProvider } from "./anthropic";
+import { FakeProvider } from "./fake";
+import { createAzureOpenAIProvider, createCompatibleProvider, createOpenAIProvider } from "./openai";
+import {
+  LLMError,
+  type CompletionRequest,
+  type CompletionResult,
+  type LLMProvider,
+  type LLMSelection,
+  type ProviderId,
+} from "./types";
+
+export * from "./types";
+
+const PROVIDER_IDS: ProviderId[] = ['openai', 'anthropic', 'azure', 'openai-compatible', 'fake'];
+
+// Build a provider from its environment variables; null when not configured
+function createProvider(id: ProviderId): LLMProvider | null {
+  const env = process.env;
+  switch (id) {
+    case 'openai':
+      return env.OPENAI_API_KEY
+        ? createOpenAIProvider(env.OPENAI_API_KEY, env.OPENAI_MODEL || 'gpt-4o', env.OPENAI_BASE_URL)
+        : null;
+    case 'anthropic':
+      return env.ANTHROPIC_API_KEY
+        ? new AnthropicProvider(env.ANTHROPIC_API_KEY, env.ANTHROPIC_MODEL || 'claude-sonnet-4-5')
+        : null;
+    case 'azure':
+      return env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_API_KEY && env.AZURE_OPENAI_DEPLOYMENT
+        ? createAzureOpenAIProvider(
+            env.AZURE_OPENAI_ENDPOINT,
+            env.AZURE_OPENAI_API_KEY,
+            env.AZURE_OPENAI_DEPLOYMENT,
+            env.AZURE_OPENAI_API_VERSION || '2024-10-21'
+          )
+        : null;
+    case 'openai-compatible':
+      return env.LLM_COMPATIBLE_BASE_URL
+        ? createCompatibleProvider(
+            env.LLM_COMPATIBLE_BASE_URL,
+            env.LLM_COMPATIBLE_MODEL || 'llama3.1',
+            env.LLM_COMPATIBLE_API_KEY
+          )
+        : null;
+    case 'fake':
+      return new FakeProvider();
+    default:
+      return null;
+  }
+}
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && PROVIDER_IDS.includes(value as ProviderId);
+}
+
+// Validate a provider/model override from a request body; undefined when
+// absent, null when malformed
+export function parseLLMSelection(value: unknown): LLMSelection | null | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') return null;
+  const { provider, model } = value as Record<string, unknown>;
+  if (!isProviderId(provider)) return null;
+  if (model !== undefined && typeof model !== 'string') return null;
+  return { provider, model: model || undefined };
+}
+
+export function getProvider(id: ProviderId): LLMProvider | null {
+  return PROVIDER_IDS.includes(id) ? createProvider(id) : null;
+}
+
+export function listProviders(): Array<{ id: ProviderId; configured: boolean; defaultModel?: string }> {
+  return PROVIDER_IDS.map((id) => {
+    const provider = createProvider(id);
+    return { id, configured: provider !== null, defaultModel: provider?.defaultModel };
+  });
+}
+
+// "anthropic,openai-compatible:llama3.1" -> selections
+function parseSelections(value: string | undefined): LLMSelection[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [provider, ...model] = entry.split(':');
+      return { provider: provider as ProviderId, model: model.join(':') || undefined };
+    });
+}
+
+// Provider chain for a run: the request override, else the site's choice,
+// else LLM_PROVIDER; followed by the site's (or LLM_FALLBACK's) fallbacks.
+// Unconfigured providers are dropped.
+export function resolveProviderChain(site: SiteConfig, override?: LLMSelection | null): LLMSelection[] {
+  const primary: LLMSelection = override?.provider
+    ? override
+    : site.llm ?? { provider: (process.env.LLM_PROVIDER as ProviderId) || 'openai', model: process.env.LLM_MODEL || undefined };
+  const fallbacks = site.llm?.fallback ?? parseSelections(process.env.LLM_FALLBACK);
+
+  const seen = new Set<string>();
+  return [primary, ...fallbacks].filter((selection) => {
+    const key = `${selection.provider}:${selection.model ?? ''}`;
+    if (seen.has(key) || !getProvider(selection.provider)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Try each provider in turn; any failure other than an abort moves on to the
+// next one. onFallback lets streaming callers discard partial output.
+export async function completeWithFallback(
+  chain: LLMSelection[],
+  request: CompletionRequest,
+  onFallback?: (failed: LLMSelection, error: unknown) => void
+): Promise<CompletionResult> {
+  if (chain.length === 0) {
+    throw new LLMError('openai', 'No LLM provider configured');
+  }
+
+  let lastError: unknown;
+  for (const [index, selection] of chain.entries()) {
+    const provider = getProvider(selection.provider);
+    if (!provider) continue;
+
+    try {
+      return await provider.complete({ ...request, model: selection.model ?? provider.defaultModel });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      lastError = error;
+      console.error(`[LLM] ${selection.provider} failed${index < chain.length - 1 ? ', falling back' : ''}:`, error);
+      if (index < chain.length - 1) onFallback?.(selection, error);
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,117 @@
+import { readSse } from "../sse";
+import { LLMError, type CompletionRequest, type CompletionResult, type LLMProvider, type ProviderId } from "./types";
+
+// Chat completions client for OpenAI and everything that speaks the same
+// protocol: Azure OpenAI (different URL and auth header) and local servers
+// such as Ollama, llama.cpp server or vLLM.
+
+export interface OpenAICompatibleConfig {
+  id: ProviderId;
+  defaultModel: string;
+  // Builds the chat completions URL for a model (Azure puts the deployment in the path)
+  url: (model: string) => string;
+  headers: Record<string, string>;
+  // Azure ignores the model field; local servers may require it
+  sendModel: boolean;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: ProviderId;
+  readonly defaultModel: string;
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    this.id = config.id;
+    this.defaultModel = config.defaultModel;
+  }
+
+  async complete({
+    messages,
+    model = this.defaultModel,
+    temperature = 0.7,
+    maxTokens = 5000,
+    signal,
+    onToken,
+  }: CompletionRequest): Promise<CompletionResult> {
+    const stream = Boolean(onToken);
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url(model), {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.config.headers,
+        },
+        body: JSON.stringify({
+          ...(this.config.sendModel ? { model } : {}),
+          messages,
+          temperature,
+          max_tokens: maxTokens,
+          stream,
+        }),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new LLMError(this.id, `Request failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMError(this.id, `API error: ${response.status} - ${errorText.substring(0, 200)}`, response.status);
+    }
+
+    if (!stream || !response.body) {
+      const data = await response.json();
+      return { text: data.choices?.[0]?.message?.content ?? '', provider: this.id, model };
+    }
+
+    let text = '';
+    for await (const message of readSse(response.body)) {
+      if (message.data === '[DONE]') break;
+      const delta: string | undefined = JSON.parse(message.data).choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken?.(delta);
+      }
+    }
+    return { text, provider: this.id, model };
+  }
+}
+
+export function createOpenAIProvider(apiKey: string, model: string, baseUrl = 'https://api.openai.com/v1'): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    id: 'openai',
+    defaultModel: model,
+    url: () => `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+    sendModel: true,
+  });
+}
+
+export function createAzureOpenAIProvider(
+  endpoint: string,
+  apiKey: string,
+  deployment: string,
+  apiVersion: string
+): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    id: 'azure',
+    defaultModel: deployment,
+    url: (model) =>
+      `${endpoint.replace(/\/+$/, '')}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${apiVersion}`,
+    headers: { 'api-key': apiKey },
+    sendModel: false,
+  });
+}
+
+// Ollama (http://localhost:11434/v1), llama.cpp server, vLLM, LM Studio, ...
+export function createCompatibleProvider(baseUrl: string, model: string, apiKey?: string): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    id: 'openai-compatible',
+    defaultModel: model,
+    url: () => `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    sendModel: true,
+  });
+}
@@ -0,0 +1,51 @@
+export type ProviderId = 'openai' | 'anthropic' | 'azure' | 'openai-compatible' | 'fake';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  // Overrides the provider's default model (for Azure: the deployment)
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // When set, the response is streamed and relayed token by token
+  onToken?: (text: string) => void;
+}
+
+export interface CompletionResult {
+  text: string;
+  provider: ProviderId;
+  model: string;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+// Which provider/model to use; a site or a single request can set this
+export interface LLMSelection {
+  provider: ProviderId;
+  model?: string;
+}
+
+export class LLMError extends Error {
+  readonly provider: ProviderId;
+  readonly status?: number;
+
+  constructor(provider: ProviderId, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.provider = provider;
+    this.status = status;
+  }
+
+  get rateLimited(): boolean {
+    return this.status === 429;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./optimize";
+export * from "./partial";
+export type * from "./types";
@@ -0,0 +1,13 @@
+// Length limits for the SEO fields, shared by the response schema and the
+// dashboard's review counters (so this module must stay browser-safe).
+
+export const SEO_TITLE_MIN = 30;
+export const SEO_TITLE_MAX = 60;
+export const SEO_DESCRIPTION_MIN = 120;
+export const SEO_DESCRIPTION_MAX = 160;
+
+// Link cards on Facebook and X cut titles and descriptions past these
+export const SOCIAL_TITLE_MIN = 20;
+export const SOCIAL_TITLE_MAX = 70;
+export const SOCIAL_DESCRIPTION_MIN = 50;
+export const SOCIAL_DESCRIPTION_MAX = 200;
@@ -0,0 +1,235 @@
+import { resolveAuthor } from "../authors";
+import { cleanContent } from "../content";
+import { IMAGE_PROVIDER_NAMES, searchImages } from "../images";
+import { insertLink, suggestInternalLinks } from "../links";
+import { completeWithFallback, resolveProviderChain, type ChatMessage, type LLMSelection } from "../llm";
+import { resolvePrompt } from "../prompts";
+import { analyzeSeo } from "../seo/analyzer";
+import { checkSimilarity } from "../similarity";
+import { getSiteWordPressConfig, type SiteConfig } from "../sites";
+import { authorUrl, buildStructuredData, validateStructuredData } from "../structured-data";
+import { toSlug } from "../wordpress";
+import { SOCIAL_DESCRIPTION_MAX, SOCIAL_TITLE_MAX } from "./limits";
+import { formatIssues, parseAIResponse, validateAIResponse, type ValidationResult } from "./schema";
+import type { OptimizationInput, OptimizedContent, OptimizeOptions } from "./types";
+
+// Follow-up requests allowed when the answer fails schema validation
+const MAX_REPAIR_ATTEMPTS = parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS || '2');
+
+// Response fields that get a fallback value when they never validate
+const DEFAULTABLE_FIELDS = [
+  'optimizedTitle',
+  'optimizedContent',
+  'keywords',
+  'seoTitle',
+  'seoDescription',
+  'category',
+  'tags',
+  'recommendedAuthor',
+] as const;
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 3).trimEnd()}...` : text;
+}
+
+// True when at least one provider in the site's (or the override's) chain is
+// configured
+export function isLLMConfigured(site: SiteConfig, llm?: LLMSelection | null): boolean {
+  return resolveProviderChain(site, llm).length > 0;
+}
+
+// Helper function to generate AI-optimized content
+export async function optimizeWithAI(
+  site: SiteConfig,
+  { title, content, excerpt, categories, postId }: OptimizationInput,
+  { signal, onEvent, llm, promptTemplate }: OptimizeOptions = {}
+): Promise<OptimizedContent> {
+  const query = title.replace(/<[^>]*>/g, '').trim();
+  const chain = resolveProviderChain(site, llm);
+
+  onEvent?.({ type: 'step', step: 'prompting' });
+  const { template, system, prompt } = await resolvePrompt(site, { title, content, excerpt, categories }, promptTemplate);
+
+  try {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: system },
+      { role: 'user', content: prompt },
+    ];
+
+    // Ask, validate, and feed validation errors back until the answer passes
+    // or the repair budget runs out
+    let validation: ValidationResult = { data: {}, issues: [] };
+    let repairAttempts = 0;
+    let provider = chain[0]?.provider;
+    let model = chain[0]?.model;
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      onEvent?.({ type: 'step', step: attempt === 0 ? 'generating' : 'repairing' });
+      const completion = await completeWithFallback(
+        chain,
+        {
+          messages,
+          temperature: 0.7,
+          maxTokens: 5000,
+          signal,
+          onToken: onEvent
+            ? (text) => onEvent({ type: 'token', text })
+            : undefined,
+        },
+        () => onEvent?.({ type: 'step', step: 'fallback' })
+      );
+      const aiContent = completion.text;
+      provider = completion.provider;
+      model = completion.model;
+
+      onEvent?.({ type: 'step', step: 'parsing' });
+      const { value, issue } = parseAIResponse(aiContent);
+      validation = issue ? { data: {}, issues: [issue] } : validateAIResponse(value, site);
+
+      if (validation.issues.length === 0) break;
+
+      console.warn(`AI response failed validation (attempt ${attempt + 1}):`, validation.issues);
+      if (attempt === MAX_REPAIR_ATTEMPTS) break;
+
+      repairAttempts++;
+      messages.push(
+        { role: 'assistant', content: aiContent },
+        {
+          role: 'user',
+          content: `Your response did not pass validation:\n${formatIssues(validation.issues)}\n\nRespond again with the complete corrected JSON object only.`,
+        }
+      );
+    }
+
+    // Nothing usable to fall back on if the answer never parsed
+    const fatal = validation.issues.find((issue) => issue.field === '$');
+    if (fatal) {
+      throw new Error(`Failed to parse AI response: ${fatal.message}`);
+    }
+
+    const parsed = validation.data;
+    const defaultedFields = DEFAULTABLE_FIELDS.filter((field) => parsed[field] === undefined);
+
+    const imageQuery = parsed.imageDescription || query;
+    console.log('AI suggested image query:', imageQuery);
+    console.log('AI generated keywords:', parsed.keywords);
+    console.log('AI detected category:', parsed.category);
+    console.log('AI generated tags:', parsed.tags);
+    console.log('AI recommended author:', parsed.recommendedAuthor);
+    console.log('SEO Title:', parsed.seoTitle);
+    console.log('SEO Description:', parsed.seoDescription);
+    
+    onEvent?.({ type: 'step', step: 'image-search' });
+    const imageResult = await searchImages(site, imageQuery, { signal, generateWhenEmpty: true });
+    console.log('Image candidates:', imageResult.candidates.length);
+    const [firstImage] = imageResult.candidates;
+
+    let optimizedContent = parsed.optimizedContent ? cleanContent(parsed.optimizedContent) : content;
+
+    onEvent?.({ type: 'step', step: 'linking' });
+    const linkSuggestions = await suggestInternalLinks(site, optimizedContent, {
+      postId,
+      categories: [...(categories ?? []), ...(parsed.category ? [toSlug(parsed.category)] : [])],
+    });
+    console.log('Internal link suggestions:', linkSuggestions.length);
+    if (site.links?.autoInsert) {
+      for (const suggestion of linkSuggestions) {
+        const linked = insertLink(optimizedContent, suggestion);
+        if (linked === null) continue;
+        optimizedContent = linked;
+        suggestion.status = 'accepted';
+      }
+    }
+    const keywords = parsed.keywords || [query];
+
+    onEvent?.({ type: 'step', step: 'similarity' });
+    const similarity = await checkSimilarity(site, {
+      postId,
+      title: parsed.optimizedTitle || title,
+      content: optimizedContent,
+      keywords,
+    });
+    console.log('Similar published posts:', similarity.matches.length, similarity.blocked ? '(blocked)' : '');
+    const seoTitle = parsed.seoTitle || query.substring(0, 60);
+    const seoDescription = parsed.seoDescription || excerpt.replace(/<[^>]*>/g, '').trim().substring(0, 160);
+
+    // Score the result ourselves; the model's own seoScore is ignored
+    const analysis = analyzeSeo({
+      seoTitle,
+      seoDescription,
+      content: optimizedContent,
+      keywords,
+      siteUrl: getSiteWordPressConfig(site).baseUrl,
+    });
+    console.log('SEO Score:', analysis.score);
+
+    const optimizedTitle = parsed.optimizedTitle || title;
+    const category = parsed.category || site.defaultCategory;
+    const authorAssignment = await resolveAuthor(site, {
+      category,
+      tags: parsed.tags,
+      keywords,
+      title: optimizedTitle,
+      suggested: parsed.recommendedAuthor,
+    });
+    console.log('Assigned author:', authorAssignment.author, authorAssignment.reasons);
+    // Shares lead with the headline, not the keyword-first SEO title
+    const shareTitle = clip(optimizedTitle.replace(/<[^>]*>/g, '').trim(), SOCIAL_TITLE_MAX);
+    const shareDescription = clip(seoDescription, SOCIAL_DESCRIPTION_MAX);
+    const social = {
+      facebook: {
+        title: parsed.facebookTitle || shareTitle,
+        description: parsed.facebookDescription || shareDescription,
+      },
+      twitter: {
+        title: parsed.twitterTitle || parsed.facebookTitle || shareTitle,
+        description: parsed.twitterDescription || parsed.facebookDescription || shareDescription,
+      },
+    };
+    const structuredData = site.structuredData?.enabled === false
+      ? undefined
+      : validateStructuredData(buildStructuredData(site, {
+          title: optimizedTitle,
+          description: seoDescription,
+          content: optimizedContent,
+          keywords,
+          category,
+          authorName: authorAssignment.name,
+          authorUrl: authorUrl(site, authorAssignment.author),
+          // Generated images only get a public URL once uploaded
+          imageUrl: firstImage && /^https?:\/\//.test(firstImage.url) ? firstImage.url : undefined,
+          // Not published yet; publish-post uses the post's real dates
+          datePublished: new Date().toISOString(),
+        }));
+
+    return {
+      optimizedTitle,
+      optimizedContent,
+      suggestedImage: firstImage?.url || '',
+      imageSource: firstImage ? IMAGE_PROVIDER_NAMES[firstImage.provider] : 'No image found',
+      imageCandidates: imageResult.candidates,
+      selectedImage: firstImage,
+      imageQuery,
+      linkSuggestions,
+      similarity,
+      structuredData,
+      keywords,
+      seoScore: analysis.score,
+      seoChecks: analysis.checks,
+      seoTitle,
+      seoDescription,
+      social,
+      category,
+      tags: parsed.tags || ['content'],
+      detectedAuthor: authorAssignment.author,
+      authorAssignment,
+      defaultedFields,
+      repairAttempts,
+      provider,
+      model,
+      promptTemplate: template,
+    };
+  } catch (error) {
+    console.error('AI optimization error:', error);
+    throw error;
+  }
+}
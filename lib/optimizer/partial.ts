@@ -0,0 +1,35 @@
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// Pull the (possibly still incomplete) value of a string field out of a JSON
+// object that is being streamed, e.g. optimizedContent while the model is
+// still writing it. Returns null until the field has started.
+export function extractPartialJsonString(raw: string, field: string): string | null {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(raw);
+  if (!match) return null;
+
+  let value = '';
+  let i = match.index + match[0].length;
+  while (i < raw.length) {
+    const ch = raw[i];
+    if (ch === '"') break;
+
+    if (ch === '\\') {
+      const next = raw[i + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = raw.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      value += ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+
+    value += ch;
+    i++;
+  }
+  return value;
+}
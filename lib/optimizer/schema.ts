@@ -0,0 +1,202 @@
+import type { SiteConfig } from "../sites";
+import { toSlug } from "../wordpress/client";
+import {
+  SEO_DESCRIPTION_MAX,
+  SEO_DESCRIPTION_MIN,
+  SEO_TITLE_MAX,
+  SEO_TITLE_MIN,
+  SOCIAL_DESCRIPTION_MAX,
+  SOCIAL_DESCRIPTION_MIN,
+  SOCIAL_TITLE_MAX,
+  SOCIAL_TITLE_MIN,
+} from "./limits";
+
+// Response contract for the optimization prompt. The model output is parsed
+// and checked field by field; the issues are fed back to the model so it can
+// repair its answer.
+
+const MIN_CONTENT_LENGTH = 500;
+const MIN_KEYWORDS = 3;
+
+export interface AIResponse {
+  seoTitle: string;
+  optimizedTitle: string;
+  seoDescription: string;
+  // Link card text; templates that don't ask for it get the headline and
+  // meta description
+  facebookTitle?: string;
+  facebookDescription?: string;
+  twitterTitle?: string;
+  twitterDescription?: string;
+  optimizedContent: string;
+  primaryKeyword?: string;
+  keywords: string[];
+  seoScore?: number;
+  category: string;
+  tags: string[];
+  recommendedAuthor: string;
+  imageDescription?: string;
+}
+
+export type AIResponseField = keyof AIResponse;
+
+export interface ValidationIssue {
+  // '$' for problems with the response as a whole
+  field: AIResponseField | '$';
+  message: string;
+}
+
+export interface ValidationResult {
+  // Only the fields that passed validation
+  data: Partial<AIResponse>;
+  issues: ValidationIssue[];
+}
+
+export function parseAIResponse(raw: string): { value: unknown; issue?: ValidationIssue } {
+  const cleaned = raw.replace(/```json\s*|\s*```/g, '').trim();
+  // Tolerate prose around the object
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  const candidate = start !== -1 && end > start ? cleaned.slice(start, end + 1) : cleaned;
+
+  try {
+    return { value: JSON.parse(candidate) };
+  } catch (error) {
+    return {
+      value: null,
+      issue: {
+        field: '$',
+        message: `Response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`,
+      },
+    };
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim() !== '');
+}
+
+export function validateAIResponse(value: unknown, site: SiteConfig): ValidationResult {
+  const data: Partial<AIResponse> = {};
+  const issues: ValidationIssue[] = [];
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { data, issues: [{ field: '$', message: 'Response must be a JSON object' }] };
+  }
+  const input = value as Record<string, unknown>;
+
+  const requireString = (field: AIResponseField, min = 1, max = Infinity): string | undefined => {
+    const v = input[field];
+    if (typeof v !== 'string' || v.trim() === '') {
+      issues.push({ field, message: 'Required string is missing or empty' });
+      return undefined;
+    }
+    const length = v.trim().length;
+    if (length < min || length > max) {
+      issues.push({
+        field,
+        message: max === Infinity
+          ? `Must be at least ${min} characters (got ${length})`
+          : `Must be ${min}-${max} characters (got ${length})`,
+      });
+      return undefined;
+    }
+    return v.trim();
+  };
+
+  const seoTitle = requireString('seoTitle', SEO_TITLE_MIN, SEO_TITLE_MAX);
+  if (seoTitle) data.seoTitle = seoTitle;
+
+  const optimizedTitle = requireString('optimizedTitle', 10, 120);
+  if (optimizedTitle) data.optimizedTitle = optimizedTitle;
+
+  const seoDescription = requireString('seoDescription', SEO_DESCRIPTION_MIN, SEO_DESCRIPTION_MAX);
+  if (seoDescription) data.seoDescription = seoDescription;
+
+  const socialFields = [
+    ['facebookTitle', SOCIAL_TITLE_MIN, SOCIAL_TITLE_MAX],
+    ['facebookDescription', SOCIAL_DESCRIPTION_MIN, SOCIAL_DESCRIPTION_MAX],
+    ['twitterTitle', SOCIAL_TITLE_MIN, SOCIAL_TITLE_MAX],
+    ['twitterDescription', SOCIAL_DESCRIPTION_MIN, SOCIAL_DESCRIPTION_MAX],
+  ] as const;
+  for (const [field, min, max] of socialFields) {
+    if (input[field] === undefined) continue;
+    const text = requireString(field, min, max);
+    if (text) data[field] = text;
+  }
+
+  const optimizedContent = requireString('optimizedContent', MIN_CONTENT_LENGTH);
+  if (optimizedContent) {
+    if (!/<(p|h[1-6]|ul|ol)\b/i.test(optimizedContent)) {
+      issues.push({ field: 'optimizedContent', message: 'Must be HTML with <p>/<h2>/<ul> elements' });
+    } else {
+      data.optimizedContent = optimizedContent;
+    }
+  }
+
+  if (input.primaryKeyword !== undefined) {
+    if (typeof input.primaryKeyword === 'string' && input.primaryKeyword.trim()) {
+      data.primaryKeyword = input.primaryKeyword.trim();
+    } else {
+      issues.push({ field: 'primaryKeyword', message: 'Must be a non-empty string' });
+    }
+  }
+
+  if (!isStringArray(input.keywords) || input.keywords.length < MIN_KEYWORDS) {
+    issues.push({ field: 'keywords', message: `Must be an array of at least ${MIN_KEYWORDS} non-empty strings` });
+  } else {
+    data.keywords = input.keywords.map((keyword) => keyword.trim());
+  }
+
+  if (input.seoScore !== undefined) {
+    const score = input.seoScore;
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+      issues.push({ field: 'seoScore', message: 'Must be a number between 0 and 100' });
+    } else {
+      data.seoScore = score;
+    }
+  }
+
+  const category = requireString('category');
+  if (category) {
+    const match = site.categories.find((c) => toSlug(c) === toSlug(category));
+    if (match) {
+      data.category = match;
+    } else {
+      issues.push({ field: 'category', message: `Must be one of: ${site.categories.join(', ')}` });
+    }
+  }
+
+  if (!isStringArray(input.tags)) {
+    issues.push({ field: 'tags', message: 'Must be an array of non-empty strings' });
+  } else {
+    data.tags = input.tags.map((tag) => tag.trim());
+  }
+
+  const author = requireString('recommendedAuthor');
+  if (author) {
+    const match = site.authors.find((a) => a.slug === toSlug(author));
+    if (match) {
+      data.recommendedAuthor = match.slug;
+    } else {
+      issues.push({
+        field: 'recommendedAuthor',
+        message: `Must be one of: ${site.authors.map((a) => a.slug).join(', ')}`,
+      });
+    }
+  }
+
+  if (input.imageDescription !== undefined) {
+    if (typeof input.imageDescription === 'string' && input.imageDescription.trim()) {
+      data.imageDescription = input.imageDescription.trim();
+    } else {
+      issues.push({ field: 'imageDescription', message: 'Must be a non-empty string' });
+    }
+  }
+
+  return { data, issues };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `- ${issue.field === '$' ? 'response' : issue.field}: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,94 @@
+import type { AuthorAssignment } from "../authors/types";
+import type { ImageCandidate } from "../images/types";
+import type { LinkSuggestion } from "../links/types";
+import type { LLMSelection, ProviderId } from "../llm";
+import type { PromptRef } from "../prompts";
+import type { SocialNetwork } from "../seo/adapters";
+import type { SeoCheck } from "../seo/analyzer";
+import type { SimilarityReport } from "../similarity/types";
+import type { StructuredDataResult } from "../structured-data/types";
+
+export interface SocialText {
+  title: string;
+  description: string;
+}
+
+// Output of one AI optimization run, shared by the API routes, the job
+// worker and the dashboard.
+export interface OptimizedContent {
+  optimizedTitle: string;
+  optimizedContent: string;
+  // URL of the first candidate ('' when there is none)
+  suggestedImage: string;
+  imageSource: string;
+  // Featured image gallery from the site's image providers, interleaved
+  imageCandidates: ImageCandidate[];
+  // Candidate behind suggestedImage, carried to publish for the credit
+  selectedImage?: ImageCandidate;
+  // Search text the candidates were found with; the picker starts from it
+  imageQuery: string;
+  // Internal links to published posts; accepted ones are already in
+  // optimizedContent (site links.autoInsert)
+  linkSuggestions: LinkSuggestion[];
+  // Published posts this one duplicates or competes with for its keyword
+  similarity?: SimilarityReport;
+  // JSON-LD preview with its validation; publish rebuilds it with the real
+  // dates, permalink and uploaded image
+  structuredData?: StructuredDataResult;
+  keywords: string[];
+  // Computed by the local SEO analyzer, with the checklist behind it
+  seoScore: number;
+  seoChecks?: SeoCheck[];
+  seoTitle: string;
+  seoDescription: string;
+  // Link card text per network; publish adds the featured image
+  social: Record<SocialNetwork, SocialText>;
+  category: string;
+  tags: string[];
+  // Slug of the assigned author, and why; publish assigns again from the
+  // edited category, tags and keywords
+  detectedAuthor: string;
+  authorAssignment?: AuthorAssignment;
+  // Fields that failed validation after all repair attempts and were filled
+  // with a fallback value
+  defaultedFields: string[];
+  // How many times the model was asked to fix its answer
+  repairAttempts: number;
+  // Provider and model that produced the final answer
+  provider?: ProviderId;
+  model?: string;
+  // Prompt template version the answer was generated from
+  promptTemplate?: PromptRef;
+}
+
+export interface OptimizationInput {
+  title: string;
+  content: string;
+  excerpt: string;
+  // Slugs of the post's current categories (selects a category prompt variant)
+  categories?: string[];
+  // The post being optimized, so it isn't suggested as a link to itself
+  postId?: number;
+}
+
+export type OptimizeStep = 'prompting' | 'generating' | 'parsing' | 'repairing' | 'fallback' | 'image-search' | 'linking' | 'similarity';
+
+export type OptimizeEvent =
+  | { type: 'step'; step: OptimizeStep }
+  | { type: 'token'; text: string };
+
+export interface OptimizeOptions {
+  signal?: AbortSignal;
+  // When set, the model response is streamed and relayed token by token
+  onEvent?: (event: OptimizeEvent) => void;
+  // Provider/model override for this run; defaults to the site's choice
+  llm?: LLMSelection | null;
+  // Prompt template override, "id" or "id@version"
+  promptTemplate?: string | null;
+}
+
+// Events sent by POST /api/optimize-content/stream
+export type OptimizeStreamEvent =
+  | OptimizeEvent
+  | { type: 'done'; result: OptimizedContent }
+  | { type: 'error'; error: string };
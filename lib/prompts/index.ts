@@ -0,0 +1,4 @@
+export * from "./render";
+export * from "./resolve";
+export * from "./templates";
+export type * from "./types";
@@ -0,0 +1,23 @@
+// {{variable}} substitution for prompt templates
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Filled in from the post and the site on every render
+export const BUILTIN_VARIABLES = [
+  'title',
+  'content',
+  'excerpt',
+  'siteName',
+  'categories',
+  'authorMapping',
+  'category',
+];
+
+export function findVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER), (match) => match[1])));
+}
+
+// Unknown placeholders are left as-is so a typo shows up in the preview
+export function renderTemplate(text: string, variables: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) => variables[name] ?? placeholder);
+}
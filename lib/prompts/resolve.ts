@@ -0,0 +1,57 @@
+import { describeAuthorRules } from "../authors/rules";
+import type { SiteConfig } from "../sites";
+import { renderTemplate } from "./render";
+import { getTemplate, getTemplateVersion, PromptError } from "./templates";
+import type { PromptContext, RenderedPrompt } from "./types";
+
+export const DEFAULT_TEMPLATE = 'article';
+
+// "health" or "health@2"
+export function parseTemplateRef(ref: string): { id: string; version?: number } {
+  const [id, version] = ref.trim().split('@');
+  return { id, version: version ? parseInt(version) : undefined };
+}
+
+// Template for a run: the request's choice, else the site's variant for the
+// post's category, else the site default, else DEFAULT_TEMPLATE.
+export function selectTemplateRef(site: SiteConfig, categories: string[] = [], override?: string | null): string {
+  if (override) return override;
+  const byCategory = site.prompts?.categories ?? {};
+  const category = categories.find((slug) => byCategory[slug]);
+  return (category && byCategory[category]) || site.prompts?.template || DEFAULT_TEMPLATE;
+}
+
+export async function resolvePrompt(
+  site: SiteConfig,
+  context: PromptContext,
+  override?: string | null
+): Promise<RenderedPrompt> {
+  const ref = parseTemplateRef(selectTemplateRef(site, context.categories, override));
+
+  const template = await getTemplate(ref.id);
+  if (!template) {
+    throw new PromptError(`Unknown prompt template: ${ref.id}`, 404);
+  }
+  const version = getTemplateVersion(template, ref.version);
+  if (!version) {
+    throw new PromptError(`Prompt template ${ref.id} has no version ${ref.version}`, 404);
+  }
+
+  const variables: Record<string, string> = {
+    ...version.variables,
+    ...site.prompts?.variables,
+    title: context.title,
+    content: context.content,
+    excerpt: context.excerpt,
+    siteName: site.name,
+    categories: site.categories.join(', '),
+    authorMapping: describeAuthorRules(site),
+    category: context.categories?.[0] ?? '',
+  };
+
+  return {
+    template: { id: template.id, version: version.version },
+    system: renderTemplate(version.system, variables),
+    prompt: renderTemplate(version.body, variables),
+  };
+}
@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { JsonFileStore } from "../store";
+import { findVariables, BUILTIN_VARIABLES } from "./render";
+import type { PromptTemplate, PromptTemplateSummary, PromptVersion } from "./types";
+
+export class PromptError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'PromptError';
+    this.status = status;
+  }
+}
+
+const TEMPLATE_ID = /^[a-z0-9][a-z0-9-]*$/;
+
+const promptStore = new JsonFileStore<PromptTemplate>('prompts');
+
+// One save per template at a time, so concurrent saves get distinct numbers
+const saving = new Map<string, Promise<PromptTemplate>>();
+
+let cachedBuiltins: PromptTemplate[] | null = null;
+
+function loadBuiltinTemplates(): PromptTemplate[] {
+  if (cachedBuiltins) return cachedBuiltins;
+
+  const configPath = process.env.PROMPTS_CONFIG_PATH || path.join(process.cwd(), 'config', 'prompts.json');
+  const raw = JSON.parse(fs.readFileSync(configPath, 'utf8')) as { templates?: PromptTemplate[] };
+
+  cachedBuiltins = raw.templates ?? [];
+  return cachedBuiltins;
+}
+
+// Saved versions whose number is already taken, by a built-in version added
+// to the config later or by an earlier saved one, move after the highest
+// number so each {id, version} names exactly one prompt
+function storedVersions(builtin: PromptTemplate | undefined, stored: PromptTemplate | null): PromptVersion[] {
+  const versions = stored?.versions ?? [];
+  const taken = new Set((builtin?.versions ?? []).map((v) => v.version));
+  let next = Math.max(0, ...taken, ...versions.map((v) => v.version)) + 1;
+
+  return versions.map((v) => {
+    if (!taken.has(v.version)) {
+      taken.add(v.version);
+      return v;
+    }
+    console.warn(`[DEBUG] Prompt ${stored!.id} v${v.version} clashes with an existing version; renumbered to v${next}`);
+    taken.add(next);
+    return { ...v, version: next++ };
+  });
+}
+
+// Built-in versions first, then the ones saved through the API
+function mergeTemplate(builtin: PromptTemplate | undefined, stored: PromptTemplate | null): PromptTemplate | null {
+  if (!builtin && !stored) return null;
+  return {
+    id: (builtin ?? stored)!.id,
+    description: stored?.description ?? builtin?.description,
+    versions: [...(builtin?.versions ?? []), ...storedVersions(builtin, stored)].sort((a, b) => a.version - b.version),
+  };
+}
+
+export async function getTemplate(id: string): Promise<PromptTemplate | null> {
+  const builtin = loadBuiltinTemplates().find((template) => template.id === id);
+  return mergeTemplate(builtin, await promptStore.get(id));
+}
+
+export function getTemplateVersion(template: PromptTemplate, version?: number): PromptVersion | null {
+  if (version === undefined) return template.versions[template.versions.length - 1] ?? null;
+  return template.versions.find((v) => v.version === version) ?? null;
+}
+
+export function summarizeTemplate(template: PromptTemplate): PromptTemplateSummary {
+  const latest = template.versions[template.versions.length - 1];
+  return {
+    id: template.id,
+    description: template.description,
+    latestVersion: latest?.version ?? 0,
+    versionCount: template.versions.length,
+    updatedAt: latest?.createdAt ?? '',
+  };
+}
+
+export async function listTemplates(): Promise<PromptTemplateSummary[]> {
+  const builtins = loadBuiltinTemplates();
+  const stored = await promptStore.list();
+  const ids = Array.from(new Set([...builtins.map((t) => t.id), ...stored.map((t) => t.id)]));
+
+  return ids
+    .map((id) => mergeTemplate(builtins.find((t) => t.id === id), stored.find((t) => t.id === id) ?? null))
+    .filter((template): template is PromptTemplate => template !== null)
+    .map(summarizeTemplate)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+interface TemplateVersionInput {
+  id: string;
+  description?: string;
+  system?: string;
+  body: string;
+  variables?: Record<string, string>;
+  note?: string;
+}
+
+// Create a template, or add a new version to an existing one. Versions are
+// never edited in place so results keep pointing at the text that made them.
+export async function saveTemplateVersion(input: TemplateVersionInput): Promise<PromptTemplate> {
+  const previous = saving.get(input.id);
+  const save = (previous ? previous.catch(() => null) : Promise.resolve(null)).then(() => addTemplateVersion(input));
+  saving.set(input.id, save);
+  try {
+    return await save;
+  } finally {
+    if (saving.get(input.id) === save) saving.delete(input.id);
+  }
+}
+
+async function addTemplateVersion(input: TemplateVersionInput): Promise<PromptTemplate> {
+  if (typeof input.id !== 'string' || !TEMPLATE_ID.test(input.id)) {
+    throw new PromptError('Template id must be lowercase letters, digits and dashes', 400);
+  }
+  if (typeof input.body !== 'string' || input.body.trim() === '') {
+    throw new PromptError('Template body is required', 400);
+  }
+
+  const builtin = loadBuiltinTemplates().find((template) => template.id === input.id);
+  const stored = await promptStore.get(input.id);
+  const existing = mergeTemplate(builtin, stored);
+  // Highest number across built-in and saved versions
+  const latest = existing ? getTemplateVersion(existing) : null;
+
+  // A new version keeps the previous version's variable defaults unless given
+  const variables = input.variables ?? latest?.variables ?? {};
+  const unknown = findVariables(`${input.system ?? ''}\n${input.body}`)
+    .filter((name) => !BUILTIN_VARIABLES.includes(name) && !(name in variables));
+  if (unknown.length > 0) {
+    throw new PromptError(`Unknown template variables: ${unknown.join(', ')}`, 400);
+  }
+
+  const version: PromptVersion = {
+    version: (latest?.version ?? 0) + 1,
+    system: input.system ?? latest?.system ?? 'Always respond with valid JSON only.',
+    body: input.body,
+    variables,
+    note: input.note,
+    createdAt: new Date().toISOString(),
+  };
+
+  // Renumbered clashes are written back so their numbers stay put
+  await promptStore.put({
+    id: input.id,
+    description: input.description ?? stored?.description,
+    versions: [...storedVersions(builtin, stored), version],
+  });
+
+  return (await getTemplate(input.id))!;
+}
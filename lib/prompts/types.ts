@@ -0,0 +1,48 @@
+// A prompt template is a named list of immutable versions. Built-in templates
+// come from config/prompts.json; versions created through the API are kept
+// in the local store and numbered after them.
+
+export interface PromptVersion {
+  version: number;
+  system: string;
+  // Prompt text with {{variable}} placeholders
+  body: string;
+  // Defaults for the template's own variables (sites can override them)
+  variables?: Record<string, string>;
+  note?: string;
+  createdAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  description?: string;
+  versions: PromptVersion[];
+}
+
+export interface PromptTemplateSummary {
+  id: string;
+  description?: string;
+  latestVersion: number;
+  versionCount: number;
+  updatedAt: string;
+}
+
+// Which template version produced a result
+export interface PromptRef {
+  id: string;
+  version: number;
+}
+
+export interface RenderedPrompt {
+  template: PromptRef;
+  system: string;
+  prompt: string;
+}
+
+export interface PromptContext {
+  title: string;
+  content: string;
+  excerpt: string;
+  // Slugs of the post's current categories, used to pick a category variant
+  categories?: string[];
+}
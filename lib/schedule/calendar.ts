@@ -0,0 +1,101 @@
+import type { SiteConfig } from "../sites";
+import { postCategorySlugs, type WordPressClient, type WPPost } from "../wordpress";
+import { planSchedule, ScheduleError, type PlannedSlot, type SlotRequest } from "./plan";
+import { getScheduleSettings } from "./settings";
+
+// WordPress side of scheduling: reading the posts already queued as
+// status "future" and moving them. Dates are written as date_gmt so the
+// WordPress timezone setting can't shift them.
+
+// Lead time so WordPress doesn't publish a "scheduled" post right away
+export const MIN_LEAD_MS = 5 * 60 * 1000;
+
+// Scheduled posts are read in pages of 100, up to this many pages
+const MAX_PAGES = 10;
+
+export interface ScheduledPost {
+  id: number;
+  title: string;
+  // UTC instant (ISO string)
+  date: string;
+  // Category slugs
+  categories: string[];
+  link?: string;
+}
+
+function postInstant(post: WPPost): Date {
+  // date_gmt has no zone designator; date (site time) is only a fallback
+  return new Date(post.date_gmt ? `${post.date_gmt}Z` : post.date);
+}
+
+function toScheduledPost(post: WPPost): ScheduledPost {
+  return {
+    id: post.id,
+    title: post.title.rendered,
+    date: postInstant(post).toISOString(),
+    categories: postCategorySlugs(post),
+    link: post.link,
+  };
+}
+
+// date_gmt format expected by the REST API
+export function toGmtString(date: Date): string {
+  return date.toISOString().slice(0, 19);
+}
+
+export function parseScheduleDate(value: unknown): Date {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ScheduleError(`Invalid schedule date: ${String(value)}`, 400);
+  }
+  if (date.getTime() < Date.now() + MIN_LEAD_MS) {
+    throw new ScheduleError('Scheduled time must be at least 5 minutes in the future', 400);
+  }
+  return date;
+}
+
+export async function listScheduledPosts(
+  wp: WordPressClient,
+  range: { from?: Date; to?: Date } = {}
+): Promise<ScheduledPost[]> {
+  const posts: ScheduledPost[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const { items, totalPages } = await wp.listPosts({
+      status: 'future',
+      orderby: 'date',
+      order: 'asc',
+      per_page: 100,
+      page,
+      _embed: 'wp:term',
+    });
+    posts.push(...items.map(toScheduledPost));
+    if (page >= totalPages) break;
+  }
+
+  return posts.filter((post) => {
+    const time = new Date(post.date).getTime();
+    return (!range.from || time >= range.from.getTime()) && (!range.to || time < range.to.getTime());
+  });
+}
+
+export async function planForSite(site: SiteConfig, wp: WordPressClient, requests: SlotRequest[]): Promise<PlannedSlot[]> {
+  const scheduled = await listScheduledPosts(wp);
+  // Posts being rescheduled give up their current slot
+  const moving = new Set(requests.map((request) => request.postId));
+  const occupied = scheduled
+    .filter((post) => !moving.has(post.id))
+    .map((post) => ({ date: new Date(post.date), categories: post.categories }));
+
+  return planSchedule(requests, occupied, getScheduleSettings(site.schedule), new Date(Date.now() + MIN_LEAD_MS));
+}
+
+// Moves an already scheduled post; published posts are left alone
+export async function reschedulePost(wp: WordPressClient, postId: number, date: Date): Promise<ScheduledPost> {
+  const current = await wp.getPost(postId, { _fields: 'id,status' });
+  if (current.status !== 'future') {
+    throw new ScheduleError(`Post ${postId} is not scheduled (status: ${current.status})`, 409);
+  }
+
+  await wp.updatePost(postId, { status: 'future', date_gmt: toGmtString(date) });
+  return toScheduledPost(await wp.getPost(postId, { _embed: 'wp:term' }));
+}
@@ -0,0 +1,4 @@
+export * from "./calendar";
+export * from "./plan";
+export * from "./settings";
+export * from "./time";
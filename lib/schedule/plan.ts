@@ -0,0 +1,83 @@
+import { toSlug } from "../wordpress/client";
+import type { ScheduleSettings } from "./settings";
+import { addDays, zonedDay, zonedTime, zonedToUtc } from "./time";
+
+// Spreads a batch of posts over the site's publishing slots: the earliest
+// free slot after `start` for each post in order, skipping slots that already
+// hold a scheduled post (of the same category when slots are per category).
+
+export interface SlotRequest {
+  postId: number;
+  // Category name or slug
+  category?: string;
+}
+
+// A post already scheduled in WordPress
+export interface OccupiedSlot {
+  date: Date;
+  categories: string[];
+}
+
+export interface PlannedSlot {
+  postId: number;
+  category?: string;
+  // Site-local day and slot time
+  day: string;
+  time: string;
+  // The slot as a UTC instant (ISO string)
+  date: string;
+}
+
+export class ScheduleError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ScheduleError';
+    this.status = status;
+  }
+}
+
+const HORIZON_DAYS = 366;
+
+export function planSchedule(
+  requests: SlotRequest[],
+  occupied: OccupiedSlot[],
+  settings: ScheduleSettings,
+  start: Date
+): PlannedSlot[] {
+  const { timeZone, slots, perCategory } = settings;
+  const slotKey = (day: string, time: string, category?: string) =>
+    perCategory ? `${category ?? ''}|${day}|${time}` : `${day}|${time}`;
+
+  const taken = new Set<string>();
+  for (const post of occupied) {
+    const day = zonedDay(post.date, timeZone);
+    const time = zonedTime(post.date, timeZone);
+    if (!slots.includes(time)) continue;
+    const categories = post.categories.length > 0 ? post.categories : [undefined];
+    for (const category of categories) {
+      taken.add(slotKey(day, time, category));
+    }
+  }
+
+  const firstDay = zonedDay(start, timeZone);
+
+  return requests.map((request) => {
+    const category = request.category ? toSlug(request.category) : undefined;
+
+    for (let offset = 0; offset < HORIZON_DAYS; offset++) {
+      const day = addDays(firstDay, offset);
+      for (const time of slots) {
+        const instant = zonedToUtc(day, time, timeZone);
+        const key = slotKey(day, time, category);
+        if (instant <= start || taken.has(key)) continue;
+
+        taken.add(key);
+        return { postId: request.postId, category, day, time, date: instant.toISOString() };
+      }
+    }
+
+    throw new ScheduleError(`No free slot for post ${request.postId} in the next ${HORIZON_DAYS} days`, 409);
+  });
+}
@@ -0,0 +1,42 @@
+import { isValidTimeZone } from "./time";
+
+// Per-site publishing slots, e.g. 09:00, 13:00 and 17:00 in Europe/London.
+// With perCategory each category gets its own set of slots per day.
+
+export interface SiteSchedule {
+  // IANA zone the slots are in (default UTC); should match the WordPress
+  // site's timezone setting so the calendar shows what WordPress shows
+  timeZone?: string;
+  // "HH:MM" wall-clock times (default 09:00, 13:00, 17:00)
+  slots?: string[];
+  // Slots are per category rather than shared (default true)
+  perCategory?: boolean;
+}
+
+export type ScheduleSettings = Required<SiteSchedule>;
+
+export const DEFAULT_SLOTS = ['09:00', '13:00', '17:00'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function getScheduleSettings(schedule: SiteSchedule = {}): ScheduleSettings {
+  const timeZone = schedule.timeZone || 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid schedule time zone: ${timeZone}`);
+  }
+
+  const slots = schedule.slots ?? DEFAULT_SLOTS;
+  if (!Array.isArray(slots)) {
+    throw new Error('Invalid schedule slots: expected a list of HH:MM times');
+  }
+  const invalid = slots.filter((slot) => typeof slot !== 'string' || !TIME_PATTERN.test(slot));
+  if (invalid.length > 0 || slots.length === 0) {
+    throw new Error(`Invalid schedule slots: ${invalid.join(', ') || '(none)'} (expected HH:MM)`);
+  }
+
+  return {
+    timeZone,
+    slots: Array.from(new Set(slots)).sort(),
+    perCategory: schedule.perCategory ?? true,
+  };
+}
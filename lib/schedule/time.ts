@@ -0,0 +1,71 @@
+// Wall-clock arithmetic in a named time zone with nothing but Intl, so the
+// same helpers work in route handlers and in the dashboard. Days are
+// "YYYY-MM-DD" and times "HH:MM" in the site's zone; instants are Dates.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(date: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute', string> {
+  const parts = Object.fromEntries(formatter(timeZone).formatToParts(date).map((part) => [part.type, part.value]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+export function zonedDay(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${month}-${day}`;
+}
+
+export function zonedTime(date: Date, timeZone: string): string {
+  const { hour, minute } = zonedParts(date, timeZone);
+  return `${hour}:${minute}`;
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute } = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+  return wallClock - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+// The instant a wall-clock time occurs in the zone. Times skipped by a DST
+// change resolve to the instant just after the gap.
+export function zonedToUtc(day: string, time: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hour, minute);
+
+  const first = new Date(wallClock - zoneOffset(new Date(wallClock), timeZone));
+  const second = new Date(wallClock - zoneOffset(first, timeZone));
+  // Only in a gap does the corrected guess miss the requested time
+  return zonedTime(second, timeZone) === time ? second : first;
+}
+
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
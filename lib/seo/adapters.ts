@@ -0,0 +1,245 @@
+import type { SeoPlugin } from "../sites";
+import type { JsonLdGraph } from "../structured-data/types";
+
+// SEO plugin adapters: each plugin keeps the same logical fields under its
+// own post meta keys. The adapter only knows the mapping; writing and
+// read-back verification live in ./meta.
+
+export type SocialNetwork = 'facebook' | 'twitter';
+
+// Link card shown when the post is shared; Facebook's doubles as the Open
+// Graph card other networks read
+export interface SocialFields {
+  title?: string;
+  description?: string;
+  image?: string;
+  imageId?: number;
+}
+
+export interface SeoFields {
+  title?: string;
+  description?: string;
+  // First keyword is the focus keyword
+  keywords?: string[];
+  score?: number;
+  facebook?: SocialFields;
+  twitter?: SocialFields;
+}
+
+export type SeoField =
+  | 'title'
+  | 'description'
+  | 'focusKeyword'
+  | 'score'
+  | `${SocialNetwork}${'Title' | 'Description' | 'Image' | 'ImageId'}`
+  | 'twitterOverride';
+
+export interface SeoMetaEntry {
+  field: SeoField;
+  key: string;
+  value: string;
+}
+
+export interface SeoAdapter {
+  plugin: SeoPlugin;
+  name: string;
+  // Every meta key the adapter writes, e.g. to snapshot them
+  metaKeys: string[];
+  // Where the focus keyword(s) are read back from
+  focusKeywordKey: string;
+  metaEntries(fields: SeoFields): SeoMetaEntry[];
+  // Meta the plugin renders JSON-LD from, for plugins that keep per-post
+  // schema in post meta
+  schemaMeta?(jsonLd: JsonLdGraph): Record<string, unknown>;
+}
+
+interface SocialKeyMap {
+  title: string;
+  description: string;
+  image?: string;
+  imageId?: string;
+}
+
+interface MetaKeyMap {
+  title: string;
+  description: string;
+  focusKeyword: string;
+  score?: string;
+  // Whether the focus keyword key accepts a comma-separated list
+  multipleKeywords: boolean;
+  facebook?: SocialKeyMap;
+  twitter?: SocialKeyMap & {
+    // Switch that stops the plugin copying the Facebook card to X, written
+    // along with the X fields
+    override?: { key: string; value: string };
+  };
+}
+
+function socialKeys(keys?: MetaKeyMap['twitter']): string[] {
+  if (!keys) return [];
+  return [keys.title, keys.description, keys.image, keys.imageId, keys.override?.key]
+    .filter((key): key is string => Boolean(key));
+}
+
+function socialEntries(network: SocialNetwork, keys: SocialKeyMap | undefined, fields: SocialFields | undefined): SeoMetaEntry[] {
+  if (!keys || !fields) return [];
+  const entries: SeoMetaEntry[] = [];
+  if (fields.title) {
+    entries.push({ field: `${network}Title`, key: keys.title, value: fields.title });
+  }
+  if (fields.description) {
+    entries.push({ field: `${network}Description`, key: keys.description, value: fields.description });
+  }
+  if (keys.image && fields.image) {
+    entries.push({ field: `${network}Image`, key: keys.image, value: fields.image });
+  }
+  if (keys.imageId && fields.imageId) {
+    entries.push({ field: `${network}ImageId`, key: keys.imageId, value: String(fields.imageId) });
+  }
+  return entries;
+}
+
+function createMetaAdapter(plugin: SeoPlugin, name: string, keys: MetaKeyMap): SeoAdapter {
+  return {
+    plugin,
+    name,
+    metaKeys: [
+      keys.title,
+      keys.description,
+      keys.focusKeyword,
+      ...(keys.score ? [keys.score] : []),
+      ...socialKeys(keys.facebook),
+      ...socialKeys(keys.twitter),
+    ],
+    focusKeywordKey: keys.focusKeyword,
+    metaEntries(fields) {
+      const entries: SeoMetaEntry[] = [];
+      if (fields.title) {
+        entries.push({ field: 'title', key: keys.title, value: fields.title });
+      }
+      if (fields.description) {
+        entries.push({ field: 'description', key: keys.description, value: fields.description });
+      }
+      const keywords = (fields.keywords ?? []).map((keyword) => keyword.trim()).filter(Boolean);
+      if (keywords.length > 0) {
+        entries.push({
+          field: 'focusKeyword',
+          key: keys.focusKeyword,
+          value: keys.multipleKeywords ? keywords.join(',') : keywords[0],
+        });
+      }
+      if (keys.score && fields.score !== undefined) {
+        entries.push({ field: 'score', key: keys.score, value: String(Math.round(fields.score)) });
+      }
+      entries.push(...socialEntries('facebook', keys.facebook, fields.facebook));
+      const twitter = socialEntries('twitter', keys.twitter, fields.twitter);
+      if (twitter.length > 0 && keys.twitter?.override) {
+        twitter.push({ field: 'twitterOverride', ...keys.twitter.override });
+      }
+      entries.push(...twitter);
+      return entries;
+    },
+  };
+}
+
+export const rankMathAdapter: SeoAdapter = {
+  ...createMetaAdapter('rank-math', 'Rank Math', {
+    title: 'rank_math_title',
+    description: 'rank_math_description',
+    focusKeyword: 'rank_math_focus_keyword',
+    score: 'rank_math_seo_score',
+    multipleKeywords: true,
+    facebook: {
+      title: 'rank_math_facebook_title',
+      description: 'rank_math_facebook_description',
+      image: 'rank_math_facebook_image',
+      imageId: 'rank_math_facebook_image_id',
+    },
+    twitter: {
+      title: 'rank_math_twitter_title',
+      description: 'rank_math_twitter_description',
+      image: 'rank_math_twitter_image',
+      imageId: 'rank_math_twitter_image_id',
+      override: { key: 'rank_math_twitter_use_facebook', value: 'off' },
+    },
+  }),
+  // One rank_math_schema_<Type> entry per node; the first is the primary one
+  schemaMeta(jsonLd) {
+    return Object.fromEntries(jsonLd['@graph'].map((node, i) => [
+      `rank_math_schema_${node['@type']}`,
+      { ...node, metadata: { title: node['@type'], type: 'custom', isPrimary: i === 0 } },
+    ]));
+  },
+};
+
+export const yoastAdapter = createMetaAdapter('yoast', 'Yoast SEO', {
+  title: '_yoast_wpseo_title',
+  description: '_yoast_wpseo_metadesc',
+  focusKeyword: '_yoast_wpseo_focuskw',
+  score: '_yoast_wpseo_linkdex',
+  multipleKeywords: false,
+  facebook: {
+    title: '_yoast_wpseo_opengraph-title',
+    description: '_yoast_wpseo_opengraph-description',
+    image: '_yoast_wpseo_opengraph-image',
+    imageId: '_yoast_wpseo_opengraph-image-id',
+  },
+  twitter: {
+    title: '_yoast_wpseo_twitter-title',
+    description: '_yoast_wpseo_twitter-description',
+    image: '_yoast_wpseo_twitter-image',
+    imageId: '_yoast_wpseo_twitter-image-id',
+  },
+});
+
+export const seoPressAdapter = createMetaAdapter('seopress', 'SEOPress', {
+  title: '_seopress_titles_title',
+  description: '_seopress_titles_desc',
+  focusKeyword: '_seopress_analysis_target_kw',
+  multipleKeywords: true,
+  facebook: {
+    title: '_seopress_social_fb_title',
+    description: '_seopress_social_fb_desc',
+    image: '_seopress_social_fb_img',
+    imageId: '_seopress_social_fb_img_attachment_id',
+  },
+  twitter: {
+    title: '_seopress_social_twitter_title',
+    description: '_seopress_social_twitter_desc',
+    image: '_seopress_social_twitter_img',
+    imageId: '_seopress_social_twitter_img_attachment_id',
+  },
+});
+
+// AIOSEO keeps its data in its own table but mirrors these legacy post meta
+// keys into it on save. It has no legacy keys for the social images, which
+// come from the featured image.
+export const aioseoAdapter = createMetaAdapter('aioseo', 'All in One SEO', {
+  title: '_aioseo_title',
+  description: '_aioseo_description',
+  focusKeyword: '_aioseo_keywords',
+  multipleKeywords: true,
+  facebook: {
+    title: '_aioseo_og_title',
+    description: '_aioseo_og_description',
+  },
+  twitter: {
+    title: '_aioseo_twitter_title',
+    description: '_aioseo_twitter_description',
+  },
+});
+
+const ADAPTERS: Record<SeoPlugin, SeoAdapter> = {
+  'rank-math': rankMathAdapter,
+  'yoast': yoastAdapter,
+  'seopress': seoPressAdapter,
+  'aioseo': aioseoAdapter,
+};
+
+export function getSeoAdapter(plugin: SeoPlugin): SeoAdapter {
+  const adapter = ADAPTERS[plugin];
+  if (!adapter) {
+    throw new Error(`Unsupported SEO plugin: ${plugin}`);
+  }
+  return adapter;
+}
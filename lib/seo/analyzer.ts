@@ -0,0 +1,243 @@
+import { extractLinks, htmlToText, splitBlocks } from "../diff/blocks";
+import { SEO_DESCRIPTION_MAX, SEO_DESCRIPTION_MIN, SEO_TITLE_MAX, SEO_TITLE_MIN } from "../optimizer/limits";
+
+// Deterministic on-page SEO analysis. The score is the sum of the weights of
+// the checks that pass (weights add up to 100), so the same post always gets
+// the same score whatever the model claims. Browser-safe: the review editor
+// re-runs it on every change.
+
+export interface SeoAnalysisInput {
+  seoTitle: string;
+  seoDescription: string;
+  content: string;
+  // First keyword is the focus keyword
+  keywords: string[];
+  // Site root, to tell internal links from external ones
+  siteUrl?: string;
+}
+
+export type SeoCheckId =
+  | 'keyword-in-title'
+  | 'keyword-in-description'
+  | 'keyword-in-intro'
+  | 'keyword-in-headings'
+  | 'keyword-density'
+  | 'title-length'
+  | 'description-length'
+  | 'content-length'
+  | 'readability'
+  | 'heading-structure'
+  | 'internal-links'
+  | 'external-links'
+  | 'image-alt';
+
+export interface SeoCheck {
+  id: SeoCheckId;
+  label: string;
+  passed: boolean;
+  weight: number;
+  detail: string;
+}
+
+export interface SeoAnalysis {
+  score: number;
+  checks: SeoCheck[];
+  stats: {
+    wordCount: number;
+    keywordDensity: number;
+    fleschReadingEase: number;
+    internalLinks: number;
+    externalLinks: number;
+    images: number;
+    imagesWithoutAlt: number;
+  };
+}
+
+const MIN_WORDS = 600;
+const DENSITY_MIN = 0.5;
+const DENSITY_MAX = 2.5;
+const MIN_FLESCH = 50;
+
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const needle = normalize(phrase);
+  return needle.trim() !== '' && normalize(text).includes(needle);
+}
+
+function countPhrase(text: string, phrase: string): number {
+  const needle = normalize(phrase);
+  if (needle.trim() === '') return 0;
+  return normalize(text).split(needle).length - 1;
+}
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word));
+}
+
+// Vowel-group heuristic, good enough for English readability scoring
+function syllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+export function fleschReadingEase(text: string): number {
+  const wordList = words(text);
+  if (wordList.length === 0) return 0;
+  const sentences = Math.max(1, (text.match(/[.!?]+(\s|$)/g) ?? []).length);
+  const syllableCount = wordList.reduce((sum, word) => sum + syllables(word), 0);
+  const score = 206.835 - 1.015 * (wordList.length / sentences) - 84.6 * (syllableCount / wordList.length);
+  return Math.round(Math.max(0, Math.min(100, score)));
+}
+
+function isInternal(href: string, siteUrl?: string): boolean {
+  if (href.startsWith('/') && !href.startsWith('//')) return true;
+  if (!siteUrl) return false;
+  try {
+    return new URL(href).hostname.replace(/^www\./, '') === new URL(siteUrl).hostname.replace(/^www\./, '');
+  } catch {
+    return false;
+  }
+}
+
+export function analyzeSeo({ seoTitle, seoDescription, content, keywords, siteUrl }: SeoAnalysisInput): SeoAnalysis {
+  const keyword = keywords.find((k) => k.trim())?.trim() ?? '';
+  const text = htmlToText(content);
+  const wordCount = words(text).length;
+  const blocks = splitBlocks(content);
+  const headings = blocks.filter((block) => block.kind === 'heading');
+  const intro = blocks.find((block) => block.kind === 'paragraph')?.text ?? '';
+
+  const keywordWords = Math.max(1, words(keyword).length);
+  const keywordDensity = wordCount > 0
+    ? Math.round(((countPhrase(text, keyword) * keywordWords) / wordCount) * 1000) / 10
+    : 0;
+  const flesch = fleschReadingEase(text);
+
+  const links = extractLinks(content).filter((href) => !/^(mailto:|tel:|#)/i.test(href));
+  const internalLinks = links.filter((href) => isInternal(href, siteUrl)).length;
+  const externalLinks = links.length - internalLinks;
+
+  const images = Array.from(content.matchAll(/<img\b[^>]*>/gi), (match) => match[0]);
+  const imagesWithoutAlt = images.filter((img) => !/\balt=["'][^"']*\S[^"']*["']/i.test(img)).length;
+
+  const levels = headings.map((heading) => Number(heading.tag.slice(1)));
+  const skipsLevel = levels.some((level, i) => level > (i === 0 ? 2 : levels[i - 1] + 1));
+  const hasH1 = levels.includes(1);
+
+  const titleLength = seoTitle.trim().length;
+  const descriptionLength = seoDescription.trim().length;
+  const noKeyword = 'No focus keyword';
+
+  const checks: SeoCheck[] = [
+    {
+      id: 'keyword-in-title',
+      label: 'Focus keyword in SEO title',
+      passed: containsPhrase(seoTitle, keyword),
+      weight: 12,
+      detail: keyword ? `"${keyword}"` : noKeyword,
+    },
+    {
+      id: 'keyword-in-description',
+      label: 'Focus keyword in meta description',
+      passed: containsPhrase(seoDescription, keyword),
+      weight: 8,
+      detail: keyword ? `"${keyword}"` : noKeyword,
+    },
+    {
+      id: 'keyword-in-intro',
+      label: 'Focus keyword in first paragraph',
+      passed: containsPhrase(intro, keyword),
+      weight: 8,
+      detail: keyword ? `"${keyword}"` : noKeyword,
+    },
+    {
+      id: 'keyword-in-headings',
+      label: 'Focus keyword in a subheading',
+      passed: headings.some((heading) => containsPhrase(heading.text, keyword)),
+      weight: 8,
+      detail: `${headings.length} heading${headings.length !== 1 ? 's' : ''}`,
+    },
+    {
+      id: 'keyword-density',
+      label: `Keyword density ${DENSITY_MIN}-${DENSITY_MAX}%`,
+      passed: keywordDensity >= DENSITY_MIN && keywordDensity <= DENSITY_MAX,
+      weight: 12,
+      detail: `${keywordDensity}%`,
+    },
+    {
+      id: 'title-length',
+      label: `SEO title ${SEO_TITLE_MIN}-${SEO_TITLE_MAX} characters`,
+      passed: titleLength >= SEO_TITLE_MIN && titleLength <= SEO_TITLE_MAX,
+      weight: 8,
+      detail: `${titleLength} characters`,
+    },
+    {
+      id: 'description-length',
+      label: `Meta description ${SEO_DESCRIPTION_MIN}-${SEO_DESCRIPTION_MAX} characters`,
+      passed: descriptionLength >= SEO_DESCRIPTION_MIN && descriptionLength <= SEO_DESCRIPTION_MAX,
+      weight: 8,
+      detail: `${descriptionLength} characters`,
+    },
+    {
+      id: 'content-length',
+      label: `At least ${MIN_WORDS} words`,
+      passed: wordCount >= MIN_WORDS,
+      weight: 8,
+      detail: `${wordCount} words`,
+    },
+    {
+      id: 'readability',
+      label: `Flesch reading ease ${MIN_FLESCH}+`,
+      passed: flesch >= MIN_FLESCH,
+      weight: 8,
+      detail: `${flesch}`,
+    },
+    {
+      id: 'heading-structure',
+      label: 'Subheadings start at H2 without skipping levels',
+      passed: headings.length > 0 && !hasH1 && !skipsLevel,
+      weight: 6,
+      detail: headings.length === 0 ? 'No subheadings' : levels.map((level) => `H${level}`).join(' '),
+    },
+    {
+      id: 'internal-links',
+      label: 'Links to other posts on the site',
+      passed: internalLinks > 0,
+      weight: 5,
+      detail: `${internalLinks} internal`,
+    },
+    {
+      id: 'external-links',
+      label: 'Links to external sources',
+      passed: externalLinks > 0,
+      weight: 4,
+      detail: `${externalLinks} external`,
+    },
+    {
+      id: 'image-alt',
+      label: 'Images have alt text',
+      passed: imagesWithoutAlt === 0,
+      weight: 5,
+      detail: images.length === 0 ? 'No images' : `${imagesWithoutAlt} of ${images.length} missing`,
+    },
+  ];
+
+  return {
+    score: checks.reduce((sum, check) => sum + (check.passed ? check.weight : 0), 0),
+    checks,
+    stats: {
+      wordCount,
+      keywordDensity,
+      fleschReadingEase: flesch,
+      internalLinks,
+      externalLinks,
+      images: images.length,
+      imagesWithoutAlt,
+    },
+  };
+}
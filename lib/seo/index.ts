@@ -0,0 +1,3 @@
+export * from "./adapters";
+export * from "./analyzer";
+export * from "./meta";
@@ -0,0 +1,101 @@
+import type { WordPressClient } from "../wordpress";
+import type { SeoAdapter, SeoField, SeoFields, SeoMetaEntry, SocialFields } from "./adapters";
+
+// Writing SEO fields through an adapter and confirming WordPress kept them.
+// Meta keys the plugin hasn't registered with show_in_rest are silently
+// dropped by the REST API, so a successful response proves nothing.
+
+export interface SeoFieldCheck {
+  field: SeoField;
+  key: string;
+  expected: string;
+  actual: string | null;
+  stored: boolean;
+}
+
+export interface SeoWriteResult {
+  plugin: string;
+  checks: SeoFieldCheck[];
+  allStored: boolean;
+}
+
+export function toMetaObject(entries: SeoMetaEntry[]): Record<string, string> {
+  return Object.fromEntries(entries.map((entry) => [entry.key, entry.value]));
+}
+
+export function readMetaValue(meta: Record<string, unknown>, key: string): string | null {
+  const value = meta[key];
+  if (value === undefined || value === null) return null;
+  // Single meta values occasionally come back wrapped in an array
+  if (Array.isArray(value)) return value.length > 0 ? String(value[0]) : null;
+  return String(value);
+}
+
+// Link card text from a request body; the image is always set server side
+export function readSocialFields(value: unknown, image?: { url?: string; id?: number }): SocialFields | undefined {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const text = (field: string) => {
+    const v = input[field];
+    return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+  };
+  const fields: SocialFields = {
+    title: text('title'),
+    description: text('description'),
+    image: image?.url,
+    imageId: image?.id,
+  };
+  return Object.values(fields).some((v) => v !== undefined) ? fields : undefined;
+}
+
+export async function verifySeoMeta(
+  wp: WordPressClient,
+  postId: number,
+  adapter: SeoAdapter,
+  fields: SeoFields
+): Promise<SeoWriteResult> {
+  const entries = adapter.metaEntries(fields);
+  const meta = entries.length > 0 ? await wp.getPostMeta(postId) : {};
+
+  const checks = entries.map((entry) => {
+    const actual = readMetaValue(meta, entry.key);
+    return {
+      field: entry.field,
+      key: entry.key,
+      expected: entry.value,
+      actual,
+      stored: actual === entry.value,
+    };
+  });
+
+  return {
+    plugin: adapter.plugin,
+    checks,
+    allStored: checks.every((check) => check.stored),
+  };
+}
+
+// Write all fields in one request, falling back to one request per key when
+// WordPress rejects the batch (a single unregistered key fails the lot).
+export async function saveSeoMeta(
+  wp: WordPressClient,
+  postId: number,
+  adapter: SeoAdapter,
+  fields: SeoFields
+): Promise<SeoWriteResult> {
+  const entries = adapter.metaEntries(fields);
+
+  try {
+    await wp.updatePostMeta(postId, toMetaObject(entries));
+  } catch (error) {
+    console.error(`[SEO] ${adapter.name} meta update failed, retrying per field:`, error);
+    for (const entry of entries) {
+      try {
+        await wp.updatePostMeta(postId, { [entry.key]: entry.value });
+      } catch (e) {
+        console.error(`[SEO] Error saving ${entry.key}:`, e);
+      }
+    }
+  }
+
+  return verifySeoMeta(wp, postId, adapter, fields);
+}
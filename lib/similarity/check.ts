@@ -0,0 +1,123 @@
+import { loadLinkIndex } from "../links/catalog";
+import type { IndexedPost } from "../links/types";
+import type { SiteConfig } from "../sites";
+import { cosineSimilarity, fingerprint, shingleSimilarity, terms, textWords } from "./fingerprint";
+import type { SimilarityInput, SimilarityMatch, SimilarityReport } from "./types";
+
+// Compares a draft with the site's published posts before it goes live. Two
+// things are caught: near-duplicates (the same passages, via shingles) and
+// keyword cannibalization (the same focus keyword with similar content, so
+// both pages compete for one search). Matches at warnAt are reported; one at
+// blockAt stops the publish.
+
+const DEFAULT_WARN_AT = 0.35;
+const DEFAULT_BLOCK_AT = 0.7;
+
+// Matches reported at most
+const MAX_MATCHES = 5;
+
+export interface SimilaritySettings {
+  warnAt: number;
+  blockAt: number;
+}
+
+export function getSimilaritySettings(site: SiteConfig): SimilaritySettings {
+  return {
+    warnAt: site.similarity?.warnAt ?? DEFAULT_WARN_AT,
+    blockAt: site.similarity?.blockAt ?? DEFAULT_BLOCK_AT,
+  };
+}
+
+function termSet(text: string): Set<string> {
+  return new Set(terms(textWords(text)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// The draft's primary keyword against the post's focus keywords. Posts
+// without one are compared by title, which counts for less.
+function keywordOverlap(primary: Set<string>, post: IndexedPost): { overlap: number; keyword?: string } {
+  if (primary.size === 0) return { overlap: 0 };
+  if (post.keywords.length === 0) {
+    const title = termSet(post.title);
+    const contained = Array.from(primary).filter((term) => title.has(term)).length / primary.size;
+    return { overlap: contained * 0.8 };
+  }
+  return post.keywords.reduce<{ overlap: number; keyword?: string }>((best, keyword) => {
+    const overlap = jaccard(primary, termSet(keyword));
+    return overlap > best.overlap ? { overlap, keyword } : best;
+  }, { overlap: 0 });
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Pure comparison against a list of indexed posts
+export function compareWithPosts(
+  input: SimilarityInput,
+  posts: IndexedPost[],
+  { warnAt, blockAt }: SimilaritySettings
+): SimilarityReport {
+  const corpus = posts.filter((post) => post.id !== input.postId);
+  const draft = fingerprint(`${input.title} ${input.content}`);
+  const primary = termSet(input.keywords[0] ?? '');
+
+  // Document frequencies over the corpus and the draft
+  const documentFrequency = new Map<string, number>();
+  for (const fp of [draft, ...corpus.flatMap((post) => post.fingerprint ?? [])]) {
+    for (const term of Object.keys(fp.terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const documents = corpus.length + 1;
+  const idf = (term: string) => Math.log((documents + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+
+  const matches: SimilarityMatch[] = [];
+  for (const post of corpus) {
+    const { overlap, keyword } = keywordOverlap(primary, post);
+    const contentSimilarity = post.fingerprint ? cosineSimilarity(draft, post.fingerprint, idf) : 0;
+    const shingleOverlap = post.fingerprint ? shingleSimilarity(draft, post.fingerprint) : 0;
+    const score = Math.max(shingleOverlap, (overlap + contentSimilarity) / 2);
+    if (score < warnAt) continue;
+
+    const reasons: string[] = [];
+    if (keyword && overlap >= 0.99) reasons.push(`Same focus keyword "${keyword}"`);
+    else if (keyword && overlap >= 0.5) reasons.push(`Overlapping focus keyword "${keyword}"`);
+    else if (!keyword && overlap >= 0.5) reasons.push('Primary keyword is in its title');
+    if (contentSimilarity >= 0.5) reasons.push(`Similar content (${percent(contentSimilarity)} TF-IDF similarity)`);
+    if (shingleOverlap >= 0.2) reasons.push(`Near-duplicate text (${percent(shingleOverlap)} of passages shared)`);
+
+    matches.push({
+      postId: post.id,
+      title: post.title,
+      link: post.link,
+      keywordOverlap: overlap,
+      contentSimilarity,
+      shingleOverlap,
+      score,
+      reasons,
+    });
+  }
+
+  matches.sort((a, b) => b.score - a.score);
+  return {
+    checked: corpus.length,
+    matches: matches.slice(0, MAX_MATCHES),
+    warnAt,
+    blockAt,
+    blocked: matches.some((match) => match.score >= blockAt),
+  };
+}
+
+// Checks a draft against the site's published-post index (synced first when
+// due). Without an index nothing is compared and nothing is blocked.
+export async function checkSimilarity(site: SiteConfig, input: SimilarityInput): Promise<SimilarityReport> {
+  const index = await loadLinkIndex(site);
+  return compareWithPosts(input, index?.posts ?? [], getSimilaritySettings(site));
+}
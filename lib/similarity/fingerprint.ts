@@ -0,0 +1,96 @@
+import { htmlToText } from "../diff/blocks";
+import type { ContentFingerprint } from "./types";
+
+// Text features for the similarity check: term counts for TF-IDF cosine
+// similarity and a MinHash signature of word shingles for near-duplicates.
+
+// Terms kept per fingerprint
+const MAX_TERMS = 200;
+const SHINGLE_SIZE = 5;
+const MINHASH_SIZE = 64;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'these', 'those', 'from',
+  'they', 'them', 'their', 'there', 'was', 'were', 'been', 'have', 'has', 'had', 'will', 'would', 'can',
+  'could', 'should', 'what', 'when', 'where', 'which', 'who', 'why', 'how', 'all', 'any', 'more', 'most',
+  'some', 'such', 'than', 'then', 'too', 'very', 'into', 'about', 'over', 'also', 'its', 'our', 'out',
+  'just', 'like', 'one', 'two', 'new', 'now', 'may', 'each', 'other', 'many', 'much', 'here', 'while',
+]);
+
+export function textWords(html: string): string[] {
+  return htmlToText(html)
+    .toLowerCase()
+    .split(/[^a-z0-9\u00C0-\u024F]+/)
+    .filter(Boolean);
+}
+
+// Content words, with a plural "s" dropped so "robot" and "robots" count together
+export function terms(words: string[]): string[] {
+  return words
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word))
+    .map((word) => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+// 32-bit FNV-1a, seeded
+function hash(text: string, seed: number): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+function minhash(words: string[]): number[] {
+  if (words.length < SHINGLE_SIZE) return [];
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+    for (let seed = 0; seed < MINHASH_SIZE; seed++) {
+      const value = hash(shingle, seed);
+      if (value < signature[seed]) signature[seed] = value;
+    }
+  }
+  return signature;
+}
+
+export function fingerprint(html: string): ContentFingerprint {
+  const words = textWords(html);
+  const counts = new Map<string, number>();
+  for (const term of terms(words)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  const top = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_TERMS);
+
+  return { terms: Object.fromEntries(top), minhash: minhash(words), words: words.length };
+}
+
+// Estimated Jaccard similarity of the two texts' shingle sets
+export function shingleSimilarity(a: ContentFingerprint, b: ContentFingerprint): number {
+  if (a.minhash.length === 0 || a.minhash.length !== b.minhash.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.minhash.length; i++) {
+    if (a.minhash[i] === b.minhash[i]) same++;
+  }
+  return same / a.minhash.length;
+}
+
+// Cosine similarity of TF-IDF vectors; idf maps a term to its weight
+export function cosineSimilarity(a: ContentFingerprint, b: ContentFingerprint, idf: (term: string) => number): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, count] of Object.entries(a.terms)) {
+    const weight = count * idf(term);
+    normA += weight * weight;
+    const other = b.terms[term];
+    if (other) dot += weight * other * idf(term);
+  }
+  for (const [term, count] of Object.entries(b.terms)) {
+    const weight = count * idf(term);
+    normB += weight * weight;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,3 @@
+export * from "./check";
+export * from "./fingerprint";
+export type * from "./types";
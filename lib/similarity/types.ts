@@ -0,0 +1,46 @@
+// Duplicate and keyword cannibalization checks of a draft against the site's
+// published posts.
+
+// Compact stand-in for a post's text, kept in the published-post index so the
+// corpus doesn't have to be refetched for every check
+export interface ContentFingerprint {
+  // Most frequent terms (stopwords dropped) and their counts
+  terms: Record<string, number>;
+  // MinHash signature over 5-word shingles; empty for very short texts
+  minhash: number[];
+  words: number;
+}
+
+export interface SimilarityMatch {
+  postId: number;
+  title: string;
+  link: string;
+  // 0-1: the draft's primary keyword against the post's focus keyword(s)
+  keywordOverlap: number;
+  // 0-1: TF-IDF cosine similarity of the texts
+  contentSimilarity: number;
+  // 0-1: estimated share of identical 5-word runs (near-duplicate text)
+  shingleOverlap: number;
+  // The larger of the duplicate and the cannibalization score
+  score: number;
+  reasons: string[];
+}
+
+export interface SimilarityReport {
+  // Published posts compared against; 0 when there is no index yet
+  checked: number;
+  // Posts scoring at or above warnAt, highest first
+  matches: SimilarityMatch[];
+  warnAt: number;
+  blockAt: number;
+  // True when a match reaches blockAt; publishing is refused
+  blocked: boolean;
+}
+
+export interface SimilarityInput {
+  // The draft itself, never compared with its own published version
+  postId?: number;
+  title: string;
+  content: string;
+  keywords: string[];
+}
@@ -0,0 +1,241 @@
+import fs from "fs";
+import path from "path";
+import {
+  createWordPressClient,
+  hasCredentials,
+  type TermPolicy,
+  type TermTaxonomy,
+  type WordPressClient,
+  type WordPressClientConfig,
+} from "./wordpress";
+import type { ImageGeneratorId, ImageOutputFormat, ImageProviderId } from "./images/types";
+import type { LLMSelection } from "./llm";
+import type { AuthorRule } from "./authors/types";
+import type { ArticleType } from "./structured-data/types";
+import { getScheduleSettings, type SiteSchedule } from "./schedule/settings";
+
+// Site registry: every WordPress property managed from the dashboard is
+// described in config/sites.json (or the file named by SITES_CONFIG_PATH).
+// Credentials are read from the environment variables the entry names so the
+// config file itself can be committed.
+
+export type SeoPlugin = 'rank-math' | 'yoast' | 'seopress' | 'aioseo';
+
+export interface SiteAuthor {
+  slug: string;
+  name: string;
+  // Categories this author normally covers
+  categories: string[];
+}
+
+export interface SiteConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  // Optional env var that overrides baseUrl (e.g. to point at staging)
+  baseUrlEnv?: string;
+  credentials: {
+    username?: string;
+    password?: string;
+    usernameEnv?: string;
+    passwordEnv?: string;
+  };
+  seoPlugin: SeoPlugin;
+  categories: string[];
+  authors: SiteAuthor[];
+  defaultCategory: string;
+  // Used when no assignment rule matches and the optimizer suggested no one
+  defaultAuthor: string;
+  // Author assignment beyond the authors' own categories
+  authorAssignment?: {
+    // Category, tag or keyword -> author, highest priority wins
+    rules?: AuthorRule[];
+    // Authors tied on priority are balanced by their posts over this many
+    // days (default 14); 0 turns balancing off
+    balanceDays?: number;
+  };
+  terms?: {
+    // Create categories/tags that don't exist yet (default true)
+    createMissing?: boolean;
+    // Minimum similarity for matching an existing term (default 0.85)
+    fuzzyThreshold?: number;
+    // Tags that may be created; omit to allow any tag
+    tagAllowlist?: string[];
+    // Name -> existing slug, e.g. { "ai": "artificial-intelligence" }
+    aliases?: Record<string, string>;
+  };
+  // Provider/model for optimization, tried in order with the fallbacks when
+  // it errors or is rate limited. Defaults to LLM_PROVIDER / LLM_FALLBACK.
+  llm?: LLMSelection & {
+    fallback?: LLMSelection[];
+  };
+  prompts?: {
+    // Template used when no category variant applies (default "article");
+    // "id" for the latest version or "id@version" to pin one
+    template?: string;
+    // Category slug -> template, e.g. { "health": "health" }
+    categories?: Record<string, string>;
+    // Overrides for the templates' own variables
+    variables?: Record<string, string>;
+  };
+  content?: {
+    // Publish as Gutenberg block markup (default true); off for classic-editor sites
+    blockMarkup?: boolean;
+  };
+  // Publishing slots for scheduled posts
+  schedule?: SiteSchedule;
+  images?: {
+    // Featured image sources, in gallery order; unconfigured ones are skipped.
+    // Defaults to pixabay, unsplash, pexels, wordpress (the media library).
+    // Listing "ai" generates an image on every search.
+    providers?: ImageProviderId[];
+    // Candidates fetched from each provider (default 6)
+    perProvider?: number;
+    // Uploads are scaled down to this width (default 1600)
+    maxWidth?: number;
+    // Upload format (default webp) and its quality, 1-100 (default 80)
+    format?: ImageOutputFormat;
+    quality?: number;
+    // Image generator for the "ai" provider (default IMAGE_GENERATOR); "none" turns it off
+    generator?: ImageGeneratorId | 'none';
+    // Generate an image when the optimizer's search finds none (default true)
+    generateWhenEmpty?: boolean;
+    // Brand aspect ratio of generated images (default "16:9")
+    aspectRatio?: string;
+    // Style added to generation prompts, e.g. "Flat illustration, muted colours"
+    style?: string;
+  };
+  // Internal links to the site's published posts, suggested on optimization
+  links?: {
+    // Suggestions per post (default 3); 0 turns them off
+    max?: number;
+    // Insert the suggested links right away; the editor can still reject them
+    autoInsert?: boolean;
+  };
+  // Duplicate and keyword cannibalization check against published posts,
+  // scores 0-1: reported from warnAt (default 0.35), publishing refused from
+  // blockAt (default 0.7; above 1 never blocks)
+  similarity?: {
+    warnAt?: number;
+    blockAt?: number;
+  };
+  // JSON-LD written on publish (Article/NewsArticle, FAQPage, HowTo)
+  structuredData?: {
+    // Default true
+    enabled?: boolean;
+    // Type for posts outside newsCategories (default "Article")
+    articleType?: ArticleType;
+    // Categories published as NewsArticle (default ["news"])
+    newsCategories?: string[];
+    // Publisher logo for the Organization node
+    logoUrl?: string;
+    // "seo-plugin" (default) uses the plugin's schema meta where it has one
+    // (Rank Math); otherwise, or if it isn't kept, metaKey is written
+    target?: 'seo-plugin' | 'meta';
+    // Post meta key holding the JSON-LD string (default "json_ld")
+    metaKey?: string;
+  };
+}
+
+// What the dashboard gets to see: everything except credentials
+export type PublicSite = Omit<SiteConfig, 'credentials' | 'baseUrlEnv' | 'terms'>;
+
+export class SiteError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SiteError';
+    this.status = status;
+  }
+}
+
+let cachedSites: SiteConfig[] | null = null;
+
+function loadSites(): SiteConfig[] {
+  if (cachedSites) return cachedSites;
+
+  const configPath = process.env.SITES_CONFIG_PATH || path.join(process.cwd(), 'config', 'sites.json');
+  const raw = JSON.parse(fs.readFileSync(configPath, 'utf8')) as { sites?: SiteConfig[] };
+
+  if (!raw.sites || raw.sites.length === 0) {
+    throw new SiteError(`No sites configured in ${configPath}`, 500);
+  }
+
+  // Checked up front so one site's bad schedule is a config error with its
+  // name, not a failure wherever the schedule is first read
+  for (const site of raw.sites) {
+    try {
+      getScheduleSettings(site.schedule);
+    } catch (error) {
+      throw new SiteError(`Site ${site.id}: ${error instanceof Error ? error.message : error}`, 500);
+    }
+  }
+
+  cachedSites = raw.sites;
+  return cachedSites;
+}
+
+export function listSites(): SiteConfig[] {
+  return loadSites();
+}
+
+// Returns the requested site, or the first configured site when no id is given
+export function getSite(siteId?: string | null): SiteConfig {
+  const sites = loadSites();
+  if (!siteId) return sites[0];
+
+  const site = sites.find((s) => s.id === siteId);
+  if (!site) {
+    throw new SiteError(`Unknown site: ${siteId}`, 404);
+  }
+  return site;
+}
+
+export function toPublicSite(site: SiteConfig): PublicSite {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { credentials, baseUrlEnv, terms, ...rest } = site;
+  return {
+    ...rest,
+    baseUrl: getSiteWordPressConfig(site).baseUrl,
+    // Resolved, so the dashboard gets the zone and slots it should show
+    schedule: getScheduleSettings(site.schedule),
+  };
+}
+
+export function getSiteWordPressConfig(site: SiteConfig): WordPressClientConfig {
+  const { credentials } = site;
+  return {
+    baseUrl: (site.baseUrlEnv && process.env[site.baseUrlEnv]) || site.baseUrl,
+    username: (credentials.usernameEnv && process.env[credentials.usernameEnv]) || credentials.username || '',
+    password: (credentials.passwordEnv && process.env[credentials.passwordEnv]) || credentials.password || '',
+  };
+}
+
+// Resolve a site and a WordPress client for it, or throw a SiteError the
+// route can turn into a 4xx response.
+export function connectToSite(siteId?: string | null): { site: SiteConfig; wp: WordPressClient } {
+  const site = getSite(siteId);
+  const config = getSiteWordPressConfig(site);
+
+  if (!hasCredentials(config)) {
+    throw new SiteError("Missing WordPress credentials", 400);
+  }
+
+  return { site, wp: createWordPressClient(config) };
+}
+
+export function getAuthorName(site: SiteConfig, slug: string): string {
+  return site.authors.find((author) => author.slug === slug)?.name ?? slug;
+}
+
+// Categories may only be created from the site's own taxonomy; tags from the
+// optional tag allowlist.
+export function getTermPolicy(site: SiteConfig, taxonomy: TermTaxonomy): TermPolicy {
+  return {
+    createMissing: site.terms?.createMissing ?? true,
+    allowlist: taxonomy === 'categories' ? site.categories : site.terms?.tagAllowlist,
+    aliases: site.terms?.aliases,
+    fuzzyThreshold: site.terms?.fuzzyThreshold ?? 0.85,
+  };
+}
@@ -0,0 +1,2 @@
+export * from "./snapshots";
+export type * from "./types";
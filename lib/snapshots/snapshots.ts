@@ -0,0 +1,256 @@
+import { randomUUID } from "crypto";
+import { getSeoAdapter, readMetaValue } from "../seo";
+import type { SiteConfig } from "../sites";
+import { JsonFileStore } from "../store";
+import { structuredDataMetaKeys } from "../structured-data/write";
+import type { WordPressClient, WPPost, WPPostUpdate } from "../wordpress";
+import type {
+  PostSnapshot,
+  SnapshotComparison,
+  SnapshotFieldChange,
+  SnapshotPost,
+  SnapshotReason,
+  SnapshotSummary,
+} from "./types";
+
+// Pre-publish snapshots. Publishing overwrites the post in place, so the
+// fields it touches, with their SEO and structured data meta, are saved to the
+// local store first; a snapshot can be compared with the live post and
+// restored. Restoring takes a snapshot of its own, so a rollback can be undone
+// the same way.
+
+// Snapshots kept per post; older ones are pruned
+const SNAPSHOT_LIMIT = parseInt(process.env.SNAPSHOT_LIMIT || '20');
+
+const snapshotStore = new JsonFileStore<PostSnapshot>('snapshots');
+
+export class SnapshotError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SnapshotError';
+    this.status = status;
+  }
+}
+
+function toSnapshotPost(post: WPPost): SnapshotPost {
+  return {
+    title: post.title.raw ?? post.title.rendered,
+    content: post.content.raw ?? post.content.rendered,
+    excerpt: post.excerpt.raw ?? post.excerpt.rendered,
+    status: post.status,
+    date: post.date,
+    author: post.author,
+    featuredMedia: post.featured_media || undefined,
+    categories: post.categories ?? [],
+    tags: post.tags ?? [],
+  };
+}
+
+// The edit context returns raw fields and registered meta in one request
+async function readPost(site: SiteConfig, wp: WordPressClient, postId: number) {
+  const post = await wp.getPost(postId, { context: 'edit' });
+  const meta = post.meta ?? {};
+  const seoMeta = Object.fromEntries(
+    getSeoAdapter(site.seoPlugin).metaKeys.map((key) => [key, readMetaValue(meta, key)])
+  );
+  const structuredData = Object.fromEntries(
+    structuredDataMetaKeys(site).map((key) => [key, meta[key] ?? null])
+  );
+  return { post: toSnapshotPost(post), seoMeta, structuredData };
+}
+
+async function latestRevisionId(wp: WordPressClient, postId: number): Promise<number | undefined> {
+  try {
+    const { items } = await wp.listRevisions(postId, { per_page: 1, _fields: 'id' });
+    return items[0]?.id;
+  } catch (error) {
+    // Revisions disabled or not readable with these credentials
+    console.warn(`[Snapshots] Could not read revisions of post ${postId}:`, error);
+    return undefined;
+  }
+}
+
+function summarize(snapshot: PostSnapshot): SnapshotSummary {
+  return {
+    id: snapshot.id,
+    siteId: snapshot.siteId,
+    postId: snapshot.postId,
+    reason: snapshot.reason,
+    createdAt: snapshot.createdAt,
+    revisionId: snapshot.revisionId,
+    title: snapshot.post.title,
+    status: snapshot.post.status,
+  };
+}
+
+async function snapshotsForPost(siteId: string, postId: number): Promise<PostSnapshot[]> {
+  const snapshots = await snapshotStore.list();
+  return snapshots
+    .filter((snapshot) => snapshot.siteId === siteId && snapshot.postId === postId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createSnapshot(
+  site: SiteConfig,
+  wp: WordPressClient,
+  postId: number,
+  reason: SnapshotReason
+): Promise<PostSnapshot> {
+  const [{ post, seoMeta, structuredData }, revisionId] = await Promise.all([
+    readPost(site, wp, postId),
+    latestRevisionId(wp, postId),
+  ]);
+
+  const snapshot: PostSnapshot = {
+    id: randomUUID(),
+    siteId: site.id,
+    postId,
+    reason,
+    createdAt: new Date().toISOString(),
+    revisionId,
+    post,
+    seo: { plugin: site.seoPlugin, meta: seoMeta },
+    structuredData,
+  };
+  await snapshotStore.put(snapshot);
+
+  const stale = (await snapshotsForPost(site.id, postId)).slice(SNAPSHOT_LIMIT);
+  await Promise.all(stale.map((old) => snapshotStore.delete(old.id)));
+
+  return snapshot;
+}
+
+export async function listSnapshots(siteId: string, postId: number): Promise<SnapshotSummary[]> {
+  return (await snapshotsForPost(siteId, postId)).map(summarize);
+}
+
+// Featured images the site's snapshots would restore
+export async function snapshotMediaIds(siteId: string): Promise<Set<number>> {
+  const snapshots = await snapshotStore.list();
+  return new Set(
+    snapshots
+      .filter((snapshot) => snapshot.siteId === siteId && snapshot.post.featuredMedia)
+      .map((snapshot) => snapshot.post.featuredMedia!)
+  );
+}
+
+export async function getSnapshot(site: SiteConfig, snapshotId: string): Promise<PostSnapshot> {
+  const snapshot = await snapshotStore.get(snapshotId);
+  if (!snapshot || snapshot.siteId !== site.id) {
+    throw new SnapshotError(`Snapshot not found: ${snapshotId}`, 404);
+  }
+  return snapshot;
+}
+
+// Meta values compared and restored as stored; empty strings count as unset
+function metaJson(value: unknown): string {
+  return value === undefined || value === null || value === '' ? 'null' : JSON.stringify(value);
+}
+
+function fieldChanges(
+  snapshot: PostSnapshot,
+  current: SnapshotPost,
+  currentSeo: Record<string, string | null>,
+  currentStructuredData: Record<string, unknown>
+) {
+  const changes: SnapshotFieldChange[] = [];
+  const compare = (field: string, before: unknown, after: unknown) => {
+    const snapshotValue = Array.isArray(before) ? before.join(', ') : String(before ?? '');
+    const currentValue = Array.isArray(after) ? after.join(', ') : String(after ?? '');
+    if (snapshotValue !== currentValue) {
+      changes.push({ field, snapshot: snapshotValue, current: currentValue });
+    }
+  };
+
+  // Unset fields (e.g. no featured image) are missing from the stored JSON
+  const fields = new Set([...Object.keys(snapshot.post), ...Object.keys(current)]) as Set<keyof SnapshotPost>;
+  for (const field of fields) {
+    compare(field, snapshot.post[field], current[field]);
+  }
+  for (const key of Object.keys(snapshot.seo.meta)) {
+    compare(key, snapshot.seo.meta[key], currentSeo[key]);
+  }
+  for (const key of Object.keys(snapshot.structuredData ?? {})) {
+    const before = metaJson(snapshot.structuredData![key]);
+    const after = metaJson(currentStructuredData[key]);
+    if (before !== after) changes.push({ field: key, snapshot: before, current: after });
+  }
+  return changes;
+}
+
+export async function compareSnapshot(
+  site: SiteConfig,
+  wp: WordPressClient,
+  snapshotId: string
+): Promise<SnapshotComparison> {
+  const snapshot = await getSnapshot(site, snapshotId);
+  const { post: current, seoMeta: currentSeo, structuredData } = await readPost(site, wp, snapshot.postId);
+  return {
+    snapshot,
+    current,
+    currentSeo,
+    currentStructuredData: structuredData,
+    changes: fieldChanges(snapshot, current, currentSeo, structuredData),
+  };
+}
+
+export interface RollbackResult {
+  snapshot: SnapshotSummary;
+  // Snapshot of the state that was replaced
+  backup: SnapshotSummary;
+  post: WPPost;
+  // Meta keys WordPress did not store (not exposed to the REST API)
+  unrestoredMeta: string[];
+}
+
+export async function rollbackToSnapshot(
+  site: SiteConfig,
+  wp: WordPressClient,
+  snapshotId: string
+): Promise<RollbackResult> {
+  const snapshot = await getSnapshot(site, snapshotId);
+  if (snapshot.seo.plugin !== site.seoPlugin) {
+    throw new SnapshotError(
+      `Snapshot holds ${snapshot.seo.plugin} meta but the site now uses ${site.seoPlugin}`,
+      409
+    );
+  }
+
+  const backup = await createSnapshot(site, wp, snapshot.postId, 'rollback');
+  const { post: saved, seo } = snapshot;
+
+  const update: WPPostUpdate = {
+    title: saved.title,
+    content: saved.content,
+    excerpt: saved.excerpt,
+    status: saved.status,
+    author: saved.author,
+    // 0 removes a featured image set by the publish
+    featured_media: saved.featuredMedia ?? 0,
+    categories: saved.categories,
+    tags: saved.tags,
+    // Keys that were unset are cleared rather than left with published values
+    // (null deletes the JSON-LD meta, which need not be a string)
+    meta: {
+      ...Object.fromEntries(Object.entries(seo.meta).map(([key, value]) => [key, value ?? ''])),
+      ...snapshot.structuredData,
+    },
+  };
+  // Drafts keep a floating date; only pin it for scheduled or published posts
+  if (saved.status === 'future' || saved.status === 'publish') {
+    update.date = saved.date;
+  }
+
+  const post = await wp.updatePost(snapshot.postId, update);
+  const storedMeta = post.meta ?? {};
+  const unrestoredMeta = Object.entries(seo.meta)
+    .filter(([key, value]) => (readMetaValue(storedMeta, key) ?? '') !== (value ?? ''))
+    .map(([key]) => key);
+  for (const [key, value] of Object.entries(snapshot.structuredData ?? {})) {
+    if (metaJson(storedMeta[key]) !== metaJson(value)) unrestoredMeta.push(key);
+  }
+
+  return { snapshot: summarize(snapshot), backup: summarize(backup), post, unrestoredMeta };
+}
@@ -0,0 +1,59 @@
+import type { SeoPlugin } from "../sites";
+import type { WPPostStatus } from "../wordpress";
+
+export type SnapshotReason = 'publish' | 'rollback';
+
+// The post fields a publish overwrites, as stored in WordPress (raw, i.e.
+// block markup rather than rendered HTML)
+export interface SnapshotPost {
+  title: string;
+  content: string;
+  excerpt: string;
+  status: WPPostStatus;
+  date: string;
+  author?: number;
+  featuredMedia?: number;
+  categories: number[];
+  tags: number[];
+}
+
+export interface PostSnapshot {
+  id: string;
+  siteId: string;
+  postId: number;
+  reason: SnapshotReason;
+  createdAt: string;
+  // Latest WordPress revision at snapshot time, i.e. the revision holding
+  // this state (unset when the site keeps no revisions or hides them)
+  revisionId?: number;
+  post: SnapshotPost;
+  seo: {
+    plugin: SeoPlugin;
+    // Values of the plugin's meta keys; null when the key was not set
+    meta: Record<string, string | null>;
+  };
+  // JSON-LD meta as stored (Rank Math keeps objects, the meta key a JSON
+  // string); null when the key was not set. Missing on older snapshots.
+  structuredData?: Record<string, unknown>;
+}
+
+// List view: the snapshot without the post body
+export interface SnapshotSummary extends Omit<PostSnapshot, 'post' | 'seo' | 'structuredData'> {
+  title: string;
+  status: WPPostStatus;
+}
+
+// A field whose snapshot value differs from the live post
+export interface SnapshotFieldChange {
+  field: string;
+  snapshot: string;
+  current: string;
+}
+
+export interface SnapshotComparison {
+  snapshot: PostSnapshot;
+  current: SnapshotPost;
+  currentSeo: Record<string, string | null>;
+  currentStructuredData: Record<string, unknown>;
+  changes: SnapshotFieldChange[];
+}
@@ -0,0 +1,80 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+// Local persistence for state that must survive restarts (jobs, snapshots,
+// indexes). Each record is one JSON file under DATA_DIR/<collection>/, written
+// via a temp file + rename so a crash never leaves a half-written record.
+
+export function dataPath(...segments: string[]): string {
+  const root = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+  return path.join(root, ...segments);
+}
+
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+function assertSafeId(id: string): void {
+  if (!SAFE_ID.test(id)) {
+    throw new Error(`Invalid record id: ${id}`);
+  }
+}
+
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function writeJsonFile(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+  await fs.rename(tmp, file);
+}
+
+export class JsonFileStore<T extends { id: string }> {
+  private readonly dir: string;
+
+  constructor(collection: string) {
+    this.dir = dataPath(collection);
+  }
+
+  private file(id: string): string {
+    assertSafeId(id);
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async get(id: string): Promise<T | null> {
+    // Ids come from URLs; anything that isn't a valid file name can't exist
+    if (!SAFE_ID.test(id)) return null;
+    return readJsonFile<T>(this.file(id));
+  }
+
+  async list(): Promise<T[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: Array<T | null> = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => readJsonFile<T>(path.join(this.dir, name)))
+    );
+    return records.filter((record): record is T => record !== null);
+  }
+
+  put(record: T): Promise<void> {
+    return writeJsonFile(this.file(record.id), record);
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.file(id), { force: true });
+  }
+}
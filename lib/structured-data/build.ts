@@ -0,0 +1,101 @@
+import { htmlToText } from "../diff/blocks";
+import { getSiteWordPressConfig, type SiteConfig } from "../sites";
+import { toSlug } from "../wordpress/client";
+import { extractFaq, extractHowTo } from "./detect";
+import type { ArticleType, JsonLdGraph, JsonLdNode, StructuredDataInput } from "./types";
+
+// Builds the JSON-LD graph for a post. The article node is always there;
+// FAQPage and HowTo nodes are added when the content has Q&A sections or
+// numbered steps.
+
+// Google truncates longer headlines
+export const HEADLINE_MAX = 110;
+
+// Categories published as NewsArticle unless the site says otherwise
+const DEFAULT_NEWS_CATEGORIES = ['news'];
+
+export function articleType(site: SiteConfig, category?: string): ArticleType {
+  const settings = site.structuredData;
+  const newsCategories = (settings?.newsCategories ?? DEFAULT_NEWS_CATEGORIES).map(toSlug);
+  if (category && newsCategories.includes(toSlug(category))) return 'NewsArticle';
+  return settings?.articleType ?? 'Article';
+}
+
+function siteUrl(site: SiteConfig): string {
+  return getSiteWordPressConfig(site).baseUrl.replace(/\/+$/, '');
+}
+
+function publisher(site: SiteConfig): JsonLdNode {
+  const logo = site.structuredData?.logoUrl;
+  return {
+    '@type': 'Organization',
+    name: site.name,
+    url: siteUrl(site),
+    ...(logo ? { logo: { '@type': 'ImageObject', url: logo } } : {}),
+  };
+}
+
+function headline(title: string): string {
+  const text = htmlToText(title);
+  return text.length > HEADLINE_MAX ? `${text.substring(0, HEADLINE_MAX - 3).trimEnd()}...` : text;
+}
+
+export function buildStructuredData(site: SiteConfig, input: StructuredDataInput): JsonLdGraph {
+  const text = htmlToText(input.content);
+  const name = htmlToText(input.title);
+  const article: JsonLdNode = {
+    '@type': articleType(site, input.category),
+    headline: headline(input.title),
+    description: input.description,
+    ...(input.imageUrl ? { image: [input.imageUrl] } : {}),
+    datePublished: input.datePublished,
+    dateModified: input.dateModified ?? input.datePublished,
+    author: {
+      '@type': 'Person',
+      name: input.authorName,
+      ...(input.authorUrl ? { url: input.authorUrl } : {}),
+    },
+    publisher: publisher(site),
+    ...(input.url ? { mainEntityOfPage: { '@type': 'WebPage', '@id': input.url } } : {}),
+    ...(input.keywords.length > 0 ? { keywords: input.keywords.join(', ') } : {}),
+    ...(input.category ? { articleSection: input.category } : {}),
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+  };
+
+  const graph: JsonLdNode[] = [article];
+
+  const faq = extractFaq(input.content);
+  if (faq.length > 0) {
+    graph.push({
+      '@type': 'FAQPage',
+      mainEntity: faq.map((item) => ({
+        '@type': 'Question',
+        name: item.question,
+        acceptedAnswer: { '@type': 'Answer', text: item.answer },
+      })),
+    });
+  }
+
+  const steps = extractHowTo(input.content, input.title);
+  if (steps.length > 0) {
+    graph.push({
+      '@type': 'HowTo',
+      name,
+      ...(input.description ? { description: input.description } : {}),
+      ...(input.imageUrl ? { image: input.imageUrl } : {}),
+      step: steps.map((step, i) => ({
+        '@type': 'HowToStep',
+        position: i + 1,
+        name: step.name,
+        text: step.text,
+      })),
+    });
+  }
+
+  return { '@context': 'https://schema.org', '@graph': graph };
+}
+
+// Author archive on the site, WordPress's default permalink
+export function authorUrl(site: SiteConfig, slug: string): string {
+  return `${siteUrl(site)}/author/${slug}/`;
+}
@@ -0,0 +1,85 @@
+import { topLevelNodes, type TopLevelNode } from "../content/nodes";
+import { htmlToText } from "../diff/blocks";
+import type { FaqItem, HowToStep } from "./types";
+
+// Finds Q&A sections and step-by-step instructions in cleaned post HTML. Both
+// need a few entries before they count; a lone question heading is not a FAQ.
+
+const MIN_FAQ_ITEMS = 2;
+const MIN_HOWTO_STEPS = 3;
+
+const STEP_HEADING = /^step\s+\d+\s*[:.)-]?\s*/i;
+const HOWTO_HEADING = /\b(how to|step[- ]by[- ]step|steps?|instructions)\b/i;
+
+function headingLevel(node: TopLevelNode): number | null {
+  const match = /^h([1-6])$/.exec(node.tag);
+  return match ? Number(match[1]) : null;
+}
+
+interface Section {
+  heading: string;
+  level: number;
+  body: TopLevelNode[];
+}
+
+// Each heading with the blocks up to the next heading of the same or a higher level
+function sections(html: string): Section[] {
+  const nodes = topLevelNodes(html);
+  const result: Section[] = [];
+  nodes.forEach((node, i) => {
+    const level = headingLevel(node);
+    if (level === null) return;
+    const body: TopLevelNode[] = [];
+    for (const next of nodes.slice(i + 1)) {
+      const nextLevel = headingLevel(next);
+      if (nextLevel !== null && nextLevel <= level) break;
+      if (nextLevel === null) body.push(next);
+    }
+    result.push({ heading: htmlToText(node.inner), level, body });
+  });
+  return result;
+}
+
+function bodyText(body: TopLevelNode[]): string {
+  return body.map((node) => htmlToText(node.html)).filter(Boolean).join(' ');
+}
+
+// Headings phrased as questions, answered by the text below them
+export function extractFaq(html: string): FaqItem[] {
+  const items = sections(html)
+    .filter((section) => section.heading.endsWith('?'))
+    .map((section) => ({ question: section.heading, answer: bodyText(section.body) }))
+    .filter((item) => item.answer.length > 0);
+  return items.length >= MIN_FAQ_ITEMS ? items : [];
+}
+
+function firstSentence(text: string): string {
+  const sentence = /^[^.!?]+[.!?]?/.exec(text)?.[0] ?? text;
+  return sentence.length > 110 ? `${sentence.substring(0, 107)}...` : sentence.trim();
+}
+
+// "Step 1: ..." headings, or else the first ordered list under a how-to
+// heading (or in a post titled "How to ...")
+export function extractHowTo(html: string, title: string): HowToStep[] {
+  const stepSections = sections(html).filter((section) => STEP_HEADING.test(section.heading));
+  if (stepSections.length >= MIN_HOWTO_STEPS) {
+    return stepSections.map((section) => ({
+      name: section.heading.replace(STEP_HEADING, '') || section.heading,
+      text: bodyText(section.body) || section.heading,
+    }));
+  }
+
+  const isHowTo = /^how to\b/i.test(htmlToText(title));
+  const lists = isHowTo
+    ? topLevelNodes(html).filter((node) => node.tag === 'ol')
+    : sections(html).filter((section) => HOWTO_HEADING.test(section.heading))
+        .flatMap((section) => section.body.filter((node) => node.tag === 'ol'));
+
+  for (const list of lists) {
+    const steps = Array.from(list.inner.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi), (match) => htmlToText(match[1]))
+      .filter(Boolean)
+      .map((text) => ({ name: firstSentence(text), text }));
+    if (steps.length >= MIN_HOWTO_STEPS) return steps;
+  }
+  return [];
+}
@@ -0,0 +1,5 @@
+export * from "./build";
+export * from "./detect";
+export * from "./validate";
+export * from "./write";
+export type * from "./types";
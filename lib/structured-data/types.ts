@@ -0,0 +1,65 @@
+// Schema.org structured data (JSON-LD) for optimized posts: the article
+// itself, plus FAQPage and HowTo nodes when the content has that shape.
+
+export type ArticleType = 'Article' | 'NewsArticle' | 'BlogPosting';
+
+export type JsonLdNode = { '@type': string } & Record<string, unknown>;
+
+export interface JsonLdGraph {
+  '@context': 'https://schema.org';
+  '@graph': JsonLdNode[];
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+export interface HowToStep {
+  name: string;
+  text: string;
+}
+
+// What the markup is built from; the optimizer fills in what it knows, publish
+// the rest (real dates, the permalink, the uploaded image)
+export interface StructuredDataInput {
+  title: string;
+  description: string;
+  content: string;
+  keywords: string[];
+  category?: string;
+  authorName: string;
+  authorUrl?: string;
+  imageUrl?: string;
+  // ISO 8601 instants
+  datePublished: string;
+  dateModified?: string;
+  url?: string;
+}
+
+export interface StructuredDataIssue {
+  // JSON path, e.g. "@graph[1].mainEntity[0].acceptedAnswer.text"
+  path: string;
+  message: string;
+  // Errors keep the markup from being saved; warnings are only reported
+  severity: 'error' | 'warning';
+}
+
+export interface StructuredDataResult {
+  jsonLd: JsonLdGraph;
+  // @type of each node, e.g. ["NewsArticle", "FAQPage"]
+  types: string[];
+  issues: StructuredDataIssue[];
+  valid: boolean;
+}
+
+// Where publish-post wrote the markup and whether WordPress kept it
+export interface StructuredDataWriteResult {
+  target: 'seo-plugin' | 'meta';
+  key: string;
+  stored: boolean;
+  // Keys left by earlier publishes that this graph no longer produces
+  cleared?: string[];
+  // The write or the read-back failed; the post itself is published
+  error?: string;
+}
@@ -0,0 +1,163 @@
+import { HEADLINE_MAX } from "./build";
+import type { JsonLdGraph, JsonLdNode, StructuredDataIssue, StructuredDataResult } from "./types";
+
+// Checks the graph against the schema.org shapes search engines require for
+// these types (required properties and their value types). Not a full
+// schema.org validator: only the types this module produces are known.
+
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting'];
+
+type Check = (node: Record<string, unknown>, path: string, issues: StructuredDataIssue[]) => void;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// ISO 8601 date or date-time with a time zone
+function isIsoDate(value: unknown): boolean {
+  return typeof value === 'string'
+    && /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2}))?$/.test(value)
+    && !Number.isNaN(Date.parse(value));
+}
+
+function error(issues: StructuredDataIssue[], path: string, message: string): void {
+  issues.push({ path, message, severity: 'error' });
+}
+
+function warning(issues: StructuredDataIssue[], path: string, message: string): void {
+  issues.push({ path, message, severity: 'warning' });
+}
+
+function requireString(node: Record<string, unknown>, key: string, path: string, issues: StructuredDataIssue[]): void {
+  if (!nonEmptyString(node[key])) error(issues, `${path}.${key}`, `${key} is required`);
+}
+
+function requireType(value: unknown, type: string, path: string, issues: StructuredDataIssue[]): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    error(issues, path, `must be a ${type} object`);
+    return false;
+  }
+  if (value['@type'] !== type) {
+    error(issues, `${path}.@type`, `must be "${type}"`);
+  }
+  return true;
+}
+
+const checkArticle: Check = (node, path, issues) => {
+  requireString(node, 'headline', path, issues);
+  if (typeof node.headline === 'string' && node.headline.length > HEADLINE_MAX) {
+    error(issues, `${path}.headline`, `longer than ${HEADLINE_MAX} characters`);
+  }
+
+  const images = Array.isArray(node.image) ? node.image : node.image === undefined ? [] : [node.image];
+  if (images.length === 0) warning(issues, `${path}.image`, 'no image; articles without one get no rich result');
+  images.forEach((image, i) => {
+    if (!isUrl(image)) error(issues, `${path}.image[${i}]`, 'must be an absolute URL');
+  });
+
+  if (!isIsoDate(node.datePublished)) error(issues, `${path}.datePublished`, 'must be an ISO 8601 date');
+  if (node.dateModified !== undefined && !isIsoDate(node.dateModified)) {
+    error(issues, `${path}.dateModified`, 'must be an ISO 8601 date');
+  }
+  if (isIsoDate(node.datePublished) && isIsoDate(node.dateModified)
+    && Date.parse(node.dateModified as string) < Date.parse(node.datePublished as string)) {
+    warning(issues, `${path}.dateModified`, 'is before datePublished');
+  }
+
+  const authors = Array.isArray(node.author) ? node.author : [node.author];
+  authors.forEach((author, i) => {
+    const authorPath = Array.isArray(node.author) ? `${path}.author[${i}]` : `${path}.author`;
+    if (!isObject(author) || !['Person', 'Organization'].includes(author['@type'] as string)) {
+      error(issues, authorPath, 'must be a Person or Organization');
+      return;
+    }
+    requireString(author, 'name', authorPath, issues);
+    if (author.url !== undefined && !isUrl(author.url)) error(issues, `${authorPath}.url`, 'must be an absolute URL');
+  });
+
+  if (node.publisher !== undefined && requireType(node.publisher, 'Organization', `${path}.publisher`, issues)) {
+    requireString(node.publisher, 'name', `${path}.publisher`, issues);
+  }
+  if (node.mainEntityOfPage !== undefined && isObject(node.mainEntityOfPage) && !isUrl(node.mainEntityOfPage['@id'])) {
+    error(issues, `${path}.mainEntityOfPage.@id`, 'must be an absolute URL');
+  }
+  if (!nonEmptyString(node.description)) warning(issues, `${path}.description`, 'description is empty');
+};
+
+const checkFaqPage: Check = (node, path, issues) => {
+  if (!Array.isArray(node.mainEntity) || node.mainEntity.length === 0) {
+    error(issues, `${path}.mainEntity`, 'must be a non-empty list of Question');
+    return;
+  }
+  node.mainEntity.forEach((question, i) => {
+    const questionPath = `${path}.mainEntity[${i}]`;
+    if (!requireType(question, 'Question', questionPath, issues)) return;
+    requireString(question, 'name', questionPath, issues);
+    if (requireType(question.acceptedAnswer, 'Answer', `${questionPath}.acceptedAnswer`, issues)) {
+      requireString(question.acceptedAnswer, 'text', `${questionPath}.acceptedAnswer`, issues);
+    }
+  });
+};
+
+const checkHowTo: Check = (node, path, issues) => {
+  requireString(node, 'name', path, issues);
+  if (!Array.isArray(node.step) || node.step.length === 0) {
+    error(issues, `${path}.step`, 'must be a non-empty list of HowToStep');
+    return;
+  }
+  node.step.forEach((step, i) => {
+    const stepPath = `${path}.step[${i}]`;
+    if (!requireType(step, 'HowToStep', stepPath, issues)) return;
+    requireString(step, 'text', stepPath, issues);
+  });
+};
+
+const CHECKS: Record<string, Check> = {
+  ...Object.fromEntries(ARTICLE_TYPES.map((type) => [type, checkArticle])),
+  FAQPage: checkFaqPage,
+  HowTo: checkHowTo,
+};
+
+export function validateStructuredData(jsonLd: JsonLdGraph): StructuredDataResult {
+  const issues: StructuredDataIssue[] = [];
+  if (jsonLd['@context'] !== 'https://schema.org') {
+    error(issues, '@context', 'must be "https://schema.org"');
+  }
+
+  const nodes: JsonLdNode[] = Array.isArray(jsonLd['@graph']) ? jsonLd['@graph'] : [];
+  if (nodes.length === 0) error(issues, '@graph', 'is empty');
+  if (!nodes.some((node) => ARTICLE_TYPES.includes(node['@type']))) {
+    error(issues, '@graph', 'has no Article node');
+  }
+
+  nodes.forEach((node, i) => {
+    const path = `@graph[${i}]`;
+    const check = isObject(node) ? CHECKS[node['@type']] : undefined;
+    if (!check) {
+      error(issues, `${path}.@type`, `unsupported type ${isObject(node) ? String(node['@type']) : typeof node}`);
+      return;
+    }
+    check(node, path, issues);
+  });
+
+  return {
+    jsonLd,
+    types: nodes.map((node) => String(node?.['@type'])),
+    issues,
+    valid: !issues.some((issue) => issue.severity === 'error'),
+  };
+}
@@ -0,0 +1,102 @@
+import { getSeoAdapter } from "../seo/adapters";
+import type { SiteConfig } from "../sites";
+import type { WordPressClient } from "../wordpress";
+import type { StructuredDataResult, StructuredDataWriteResult } from "./types";
+
+// Saving validated JSON-LD to a post: into the SEO plugin's schema meta when
+// the plugin keeps it there, otherwise (or when the plugin's keys aren't
+// writable over REST) as a JSON string under the site's meta key, for the
+// theme to print. Like the SEO fields, every write is read back, and keys
+// an earlier publish wrote that this graph doesn't produce are cleared.
+
+const DEFAULT_META_KEY = 'json_ld';
+
+export function structuredDataMetaKey(site: SiteConfig): string {
+  return site.structuredData?.metaKey ?? DEFAULT_META_KEY;
+}
+
+// Node types buildStructuredData can produce
+const NODE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'FAQPage', 'HowTo'];
+
+// Every meta key saveStructuredData may write for the site, e.g. so a
+// snapshot can put them back
+export function structuredDataMetaKeys(site: SiteConfig): string[] {
+  const schemaMeta = (site.structuredData?.target ?? 'seo-plugin') === 'seo-plugin'
+    ? getSeoAdapter(site.seoPlugin).schemaMeta
+    : undefined;
+  const schemaKeys = schemaMeta
+    ? Object.keys(schemaMeta({ '@context': 'https://schema.org', '@graph': NODE_TYPES.map((type) => ({ '@type': type })) }))
+    : [];
+  return [...schemaKeys, structuredDataMetaKey(site)];
+}
+
+async function writeMeta(wp: WordPressClient, postId: number, meta: Record<string, unknown>): Promise<Record<string, unknown>> {
+  try {
+    await wp.updatePostMeta(postId, meta);
+  } catch (error) {
+    // An unregistered key can fail the request; reading back tells
+    console.warn('[DEBUG] Structured data meta update failed:', error instanceof Error ? error.message : error);
+  }
+  return wp.getPostMeta(postId);
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+// Empties the site's other structured data keys so markup for sections
+// edited out (or from the other target) isn't printed any more. Separate from
+// the write, since an unregistered key can fail the whole request.
+async function clearStaleMeta(
+  site: SiteConfig,
+  wp: WordPressClient,
+  postId: number,
+  stored: Record<string, unknown>,
+  written: string[]
+): Promise<string[]> {
+  const stale = structuredDataMetaKeys(site).filter((key) => !written.includes(key) && hasValue(stored[key]));
+  if (stale.length === 0) return [];
+  try {
+    await wp.updatePostMeta(postId, Object.fromEntries(stale.map((key) => [key, null])));
+    return stale;
+  } catch (error) {
+    console.warn('[DEBUG] Clearing stale structured data meta failed:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+export async function saveStructuredData(
+  site: SiteConfig,
+  wp: WordPressClient,
+  postId: number,
+  result: StructuredDataResult
+): Promise<StructuredDataWriteResult> {
+  const adapter = getSeoAdapter(site.seoPlugin);
+  const schemaMeta = (site.structuredData?.target ?? 'seo-plugin') === 'seo-plugin' ? adapter.schemaMeta : undefined;
+  let target: StructuredDataWriteResult['target'] = schemaMeta ? 'seo-plugin' : 'meta';
+  let key = structuredDataMetaKey(site);
+
+  // The post is already updated by now, so a failure is reported, not thrown
+  try {
+    if (schemaMeta) {
+      const entries = schemaMeta(result.jsonLd);
+      key = Object.keys(entries).join(', ');
+      const stored = await writeMeta(wp, postId, entries);
+      if (Object.keys(entries).every((entry) => hasValue(stored[entry]))) {
+        const cleared = await clearStaleMeta(site, wp, postId, stored, Object.keys(entries));
+        return { target, key, stored: true, cleared };
+      }
+      console.warn(`[DEBUG] ${adapter.name} did not keep the schema meta; falling back to the post meta key`);
+    }
+
+    target = 'meta';
+    key = structuredDataMetaKey(site);
+    const value = JSON.stringify(result.jsonLd);
+    const stored = await writeMeta(wp, postId, { [key]: value });
+    const cleared = await clearStaleMeta(site, wp, postId, stored, [key]);
+    return { target, key, stored: stored[key] === value, cleared };
+  } catch (error) {
+    console.error('Error saving structured data:', error);
+    return { target, key, stored: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
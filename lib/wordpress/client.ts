@@ -0,0 +1,276 @@
+import type {
+  WPErrorBody,
+  WPMedia,
+  WPMediaUpdate,
+  WPPage,
+  WPPost,
+  WPPostUpdate,
+  WPQuery,
+  WPRevision,
+  WPTerm,
+  WPUser,
+} from "./types";
+
+export interface WordPressClientConfig {
+  // Site root, e.g. https://digitalchew.com (the /wp-json suffix is optional)
+  baseUrl: string;
+  username: string;
+  password: string;
+}
+
+export type TermTaxonomy = 'categories' | 'tags';
+
+// Error thrown for any non-2xx REST response, carrying the WP error code
+export class WordPressError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly data?: WPErrorBody['data'];
+
+  constructor(status: number, code: string, message: string, data?: WPErrorBody['data']) {
+    super(message);
+    this.name = 'WordPressError';
+    this.status = status;
+    this.code = code;
+    this.data = data;
+  }
+
+  static async fromResponse(response: Response): Promise<WordPressError> {
+    let text = '';
+    try {
+      text = await response.text();
+    } catch {
+      text = '';
+    }
+
+    try {
+      const body = JSON.parse(text) as Partial<WPErrorBody>;
+      if (body && typeof body.code === 'string') {
+        return new WordPressError(
+          response.status,
+          body.code,
+          body.message || response.statusText,
+          body.data
+        );
+      }
+    } catch {
+      // Not a JSON error body (proxy error page, HTML from a security plugin, ...)
+    }
+
+    return new WordPressError(
+      response.status,
+      `http_${response.status}`,
+      `${response.statusText || 'Request failed'}${text ? `: ${text.substring(0, 200)}` : ''}`
+    );
+  }
+}
+
+interface RequestOptions {
+  method?: string;
+  query?: WPQuery;
+  json?: unknown;
+  body?: BodyInit;
+  headers?: Record<string, string>;
+}
+
+interface RequestResult<T> {
+  data: T;
+  headers: Headers;
+}
+
+// Helper function to create Basic Auth header
+function createAuthHeader(username: string, password: string): string {
+  const credentials = `${username}:${password}`;
+  const encodedCredentials = Buffer.from(credentials).toString('base64');
+  return `Basic ${encodedCredentials}`;
+}
+
+export function toSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Category slugs of a post fetched with _embed
+export function postCategorySlugs(post: WPPost): string[] {
+  return (post._embedded?.['wp:term'] ?? [])
+    .flat()
+    .filter((term) => term.taxonomy === 'category')
+    .map((term) => term.slug);
+}
+
+export class WordPressClient {
+  readonly apiUrl: string;
+  private readonly authHeader: string;
+
+  constructor(config: WordPressClientConfig) {
+    const root = config.baseUrl.replace(/\/+$/, '');
+    this.apiUrl = root.endsWith('/wp-json') ? root : `${root}/wp-json`;
+    this.authHeader = createAuthHeader(config.username, config.password);
+  }
+
+  private async request<T>(path: string, options: RequestOptions = {}): Promise<RequestResult<T>> {
+    const url = new URL(`${this.apiUrl}${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value === undefined) continue;
+      url.searchParams.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'Authorization': this.authHeader,
+      ...options.headers,
+    };
+
+    let body = options.body;
+    if (options.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.json);
+    }
+
+    const response = await fetch(url, {
+      method: options.method ?? 'GET',
+      headers,
+      body,
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await WordPressError.fromResponse(response);
+    }
+
+    return { data: (await response.json()) as T, headers: response.headers };
+  }
+
+  private async list<T>(path: string, query: WPQuery): Promise<WPPage<T>> {
+    const { data, headers } = await this.request<T[]>(path, { query });
+    return {
+      items: data,
+      total: parseInt(headers.get('x-wp-total') || '0'),
+      totalPages: parseInt(headers.get('x-wp-totalpages') || '0'),
+    };
+  }
+
+  // Posts
+
+  listPosts(query: WPQuery = {}): Promise<WPPage<WPPost>> {
+    return this.list<WPPost>('/wp/v2/posts', query);
+  }
+
+  async getPost(postId: number, query: WPQuery = {}): Promise<WPPost> {
+    const { data } = await this.request<WPPost>(`/wp/v2/posts/${postId}`, { query });
+    return data;
+  }
+
+  async updatePost(postId: number, update: WPPostUpdate): Promise<WPPost> {
+    const { data } = await this.request<WPPost>(`/wp/v2/posts/${postId}`, {
+      method: 'POST',
+      json: update,
+    });
+    return data;
+  }
+
+  // Revisions, newest first
+
+  listRevisions(postId: number, query: WPQuery = {}): Promise<WPPage<WPRevision>> {
+    return this.list<WPRevision>(`/wp/v2/posts/${postId}/revisions`, query);
+  }
+
+  // Meta
+
+  async getPostMeta(postId: number): Promise<Record<string, unknown>> {
+    const post = await this.getPost(postId, { context: 'edit', _fields: 'id,meta' });
+    return post.meta ?? {};
+  }
+
+  async updatePostMeta(postId: number, meta: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const post = await this.updatePost(postId, { meta });
+    return post.meta ?? {};
+  }
+
+  // Users
+
+  listUsers(query: WPQuery = {}): Promise<WPPage<WPUser>> {
+    return this.list<WPUser>('/wp/v2/users', query);
+  }
+
+  async getUser(userId: number, query: WPQuery = {}): Promise<WPUser> {
+    const { data } = await this.request<WPUser>(`/wp/v2/users/${userId}`, { query });
+    return data;
+  }
+
+  async findUserBySlug(slug: string): Promise<WPUser | null> {
+    const { items } = await this.listUsers({ slug, _fields: 'id,name,slug' });
+    return items[0] ?? null;
+  }
+
+  // Categories and tags
+
+  listTerms(taxonomy: TermTaxonomy, query: WPQuery = {}): Promise<WPPage<WPTerm>> {
+    return this.list<WPTerm>(`/wp/v2/${taxonomy}`, query);
+  }
+
+  async findTermBySlug(taxonomy: TermTaxonomy, slug: string): Promise<WPTerm | null> {
+    const { items } = await this.listTerms(taxonomy, { slug, _fields: 'id,name,slug' });
+    return items[0] ?? null;
+  }
+
+  async createTerm(taxonomy: TermTaxonomy, name: string, slug = toSlug(name)): Promise<WPTerm> {
+    const { data } = await this.request<WPTerm>(`/wp/v2/${taxonomy}`, {
+      method: 'POST',
+      json: { name, slug },
+    });
+    return data;
+  }
+
+  // Media
+
+  listMedia(query: WPQuery = {}): Promise<WPPage<WPMedia>> {
+    return this.list<WPMedia>('/wp/v2/media', query);
+  }
+
+  async getMedia(mediaId: number, query: WPQuery = {}): Promise<WPMedia> {
+    const { data } = await this.request<WPMedia>(`/wp/v2/media/${mediaId}`, { query });
+    return data;
+  }
+
+  async uploadMedia(bytes: Uint8Array<ArrayBuffer>, filename: string, contentType: string): Promise<WPMedia> {
+    const { data } = await this.request<WPMedia>('/wp/v2/media', {
+      method: 'POST',
+      headers: {
+        'Content-Type': contentType,
+        // Required by WordPress REST API for media uploads
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+      body: bytes,
+    });
+    return data;
+  }
+
+  async updateMedia(mediaId: number, update: WPMediaUpdate): Promise<WPMedia> {
+    const { data } = await this.request<WPMedia>(`/wp/v2/media/${mediaId}`, {
+      method: 'POST',
+      json: update,
+    });
+    return data;
+  }
+
+  // Media can't be trashed through the REST API, only deleted for good
+  async deleteMedia(mediaId: number): Promise<WPMedia> {
+    const { data } = await this.request<{ deleted: boolean; previous: WPMedia }>(`/wp/v2/media/${mediaId}`, {
+      method: 'DELETE',
+      query: { force: true },
+    });
+    return data.previous;
+  }
+}
+
+export function hasCredentials(config: WordPressClientConfig): boolean {
+  return Boolean(config.username && config.password);
+}
+
+export function createWordPressClient(config: WordPressClientConfig): WordPressClient {
+  return new WordPressClient(config);
+}
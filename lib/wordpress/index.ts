@@ -0,0 +1,4 @@
+export * from "./client";
+export * from "./posts";
+export * from "./terms";
+export type * from "./types";
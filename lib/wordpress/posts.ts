@@ -0,0 +1,148 @@
+import { toSlug, WordPressError, type TermTaxonomy, type WordPressClient } from "./client";
+import type { WPPage, WPPost, WPPostStatus, WPQuery } from "./types";
+
+// Filtering and paging for the draft listing. Filters arrive as query string
+// values from the dashboard and are translated into /wp/v2/posts arguments;
+// categories and tags may be given as ids, slugs or names.
+
+export const POST_STATUSES: WPPostStatus[] = ['draft', 'pending', 'future', 'private', 'publish'];
+
+export const MAX_PER_PAGE = 100;
+
+export interface PostFilters {
+  status: WPPostStatus[];
+  author?: number;
+  category?: string;
+  tag?: string;
+  // Inclusive calendar dates (YYYY-MM-DD), site time
+  after?: string;
+  before?: string;
+  search?: string;
+  page: number;
+  perPage: number;
+}
+
+// Invalid filter value in the query string
+export class PostFilterError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'PostFilterError';
+    this.status = status;
+  }
+}
+
+export interface DuplicatePost {
+  id: number;
+  title: string;
+  // The post that was kept
+  duplicateOf: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function positiveInt(value: string | null, name: string, fallback: number): number {
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new PostFilterError(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+function dateParam(value: string | null, name: string): string | undefined {
+  if (!value) return undefined;
+  if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new PostFilterError(`Invalid ${name} date: ${value} (expected YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+export function parsePostFilters(params: URLSearchParams): PostFilters {
+  const status = (params.get('status') || 'draft').split(',').map((s) => s.trim()).filter(Boolean);
+  const invalid = status.filter((s) => !POST_STATUSES.includes(s as WPPostStatus));
+  if (invalid.length > 0) {
+    throw new PostFilterError(`Invalid status: ${invalid.join(', ')}`);
+  }
+
+  const author = params.get('author');
+  const after = dateParam(params.get('after'), 'after');
+  const before = dateParam(params.get('before'), 'before');
+  if (after && before && after > before) {
+    throw new PostFilterError('"after" must not be later than "before"');
+  }
+
+  return {
+    status: status as WPPostStatus[],
+    author: author ? positiveInt(author, 'author', 0) : undefined,
+    category: params.get('category')?.trim() || undefined,
+    tag: params.get('tag')?.trim() || undefined,
+    after,
+    before,
+    search: params.get('search')?.trim() || undefined,
+    page: positiveInt(params.get('page'), 'page', 1),
+    perPage: Math.min(MAX_PER_PAGE, positiveInt(params.get('per_page'), 'per_page', MAX_PER_PAGE)),
+  };
+}
+
+// Term id for a filter value, or null when no such term exists
+async function resolveTermId(wp: WordPressClient, taxonomy: TermTaxonomy, value: string): Promise<number | null> {
+  if (/^\d+$/.test(value)) return Number(value);
+  const term = await wp.findTermBySlug(taxonomy, toSlug(value));
+  return term?.id ?? null;
+}
+
+export async function listFilteredPosts(wp: WordPressClient, filters: PostFilters): Promise<WPPage<WPPost>> {
+  const query: WPQuery = {
+    status: filters.status,
+    author: filters.author,
+    search: filters.search,
+    // Whole days: "after" from midnight, "before" up to the end of the day
+    after: filters.after && `${filters.after}T00:00:00`,
+    before: filters.before && `${filters.before}T23:59:59`,
+    page: filters.page,
+    per_page: filters.perPage,
+    _embed: true,
+  };
+
+  for (const [taxonomy, value] of [['categories', filters.category], ['tags', filters.tag]] as const) {
+    if (!value) continue;
+    const id = await resolveTermId(wp, taxonomy, value);
+    // An unknown term can't match any post; WordPress would ignore the filter
+    if (id === null) return { items: [], total: 0, totalPages: 0 };
+    query[taxonomy] = id;
+  }
+
+  try {
+    return await wp.listPosts(query);
+  } catch (error) {
+    // Past the last page (e.g. posts were published while scrolling)
+    if (error instanceof WordPressError && error.code === 'rest_post_invalid_page_number') {
+      return { items: [], total: 0, totalPages: 0 };
+    }
+    throw error;
+  }
+}
+
+// Keeps the first post for each title (drafts have no slug to tell them
+// apart) and reports the rest. Only applies to the posts of one page; the
+// dashboard checks later pages against the titles it already lists.
+export function dedupePostsByTitle(posts: WPPost[]): { posts: WPPost[]; duplicates: DuplicatePost[] } {
+  const seen = new Map<string, number>();
+  const duplicates: DuplicatePost[] = [];
+
+  const unique = posts.filter((post) => {
+    const title = post.title?.rendered || '';
+    const key = title.trim().toLowerCase();
+    const original = seen.get(key);
+    if (original !== undefined) {
+      duplicates.push({ id: post.id, title, duplicateOf: original });
+      return false;
+    }
+    seen.set(key, post.id);
+    return true;
+  });
+
+  return { posts: unique, duplicates };
+}
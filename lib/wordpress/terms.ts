@@ -0,0 +1,202 @@
+import { toSlug, WordPressError, type TermTaxonomy, type WordPressClient } from "./client";
+import type { WPTerm } from "./types";
+
+// Get-or-create resolution for categories and tags. Each requested name is
+// matched against the site's existing terms (exact slug, alias, then fuzzy),
+// and only created when the policy allows it.
+
+export interface TermPolicy {
+  // Create terms that don't match anything existing
+  createMissing: boolean;
+  // Slugs that may be created; undefined means any name may be created
+  allowlist?: string[];
+  // Extra name -> existing slug mappings, e.g. { "ai": "artificial-intelligence" }
+  aliases?: Record<string, string>;
+  // Minimum similarity (0-1) for a fuzzy match
+  fuzzyThreshold: number;
+}
+
+export interface ResolvedTerm {
+  requested: string;
+  id: number;
+  name: string;
+  slug: string;
+  // How the match was made: exact slug, alias, fuzzy (with score) or created
+  via: 'exact' | 'alias' | 'fuzzy' | 'created';
+  score?: number;
+}
+
+export interface RejectedTerm {
+  requested: string;
+  reason: string;
+}
+
+export interface TermReport {
+  matched: ResolvedTerm[];
+  created: ResolvedTerm[];
+  rejected: RejectedTerm[];
+}
+
+// Collections are paged at 100; stop after this many pages on huge tag sets
+const MAX_TERM_PAGES = 20;
+
+async function loadAllTerms(wp: WordPressClient, taxonomy: TermTaxonomy): Promise<WPTerm[]> {
+  const terms: WPTerm[] = [];
+  for (let page = 1; page <= MAX_TERM_PAGES; page++) {
+    const { items, totalPages } = await wp.listTerms(taxonomy, {
+      per_page: 100,
+      page,
+      hide_empty: false,
+      _fields: 'id,name,slug',
+    });
+    terms.push(...items);
+    if (page >= totalPages) break;
+  }
+  return terms;
+}
+
+// Normalised comparison key: slug without separators or a plural "s" on
+// words long enough for it to be one ("cars", but not "news" or "gas")
+function normalize(value: string): string {
+  return toSlug(value)
+    .split('-')
+    .map((word) => (word.length > 4 ? word.replace(/s$/, '') : word))
+    .join('');
+}
+
+// Score of an acronym match, used only when one term has those initials
+const ACRONYM_SCORE = 0.9;
+
+function acronym(slug: string): string {
+  const words = slug.split('-').filter(Boolean);
+  return words.length > 1 ? words.map((word) => word[0]).join('') : '';
+}
+
+// "ai" vs "artificial-intelligence", "ev" vs "electric-vehicles"
+function isAcronymOf(slug: string, existingSlug: string): boolean {
+  return acronym(existingSlug) === slug || acronym(slug) === existingSlug;
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Similarity between a requested name and an existing term slug, 0-1
+export function termSimilarity(requested: string, existingSlug: string): number {
+  const a = normalize(requested);
+  const b = normalize(existingSlug);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+export async function resolveTerms(
+  wp: WordPressClient,
+  taxonomy: TermTaxonomy,
+  names: string[],
+  policy: TermPolicy
+): Promise<TermReport> {
+  const report: TermReport = { matched: [], created: [], rejected: [] };
+  const requested = Array.from(new Set(names.map((name) => name.trim()).filter(Boolean)));
+  if (requested.length === 0) return report;
+
+  const existing = await loadAllTerms(wp, taxonomy);
+  const bySlug = new Map(existing.map((term) => [term.slug, term]));
+  const allowlist = policy.allowlist?.map(toSlug);
+
+  for (const name of requested) {
+    const slug = toSlug(name);
+    if (!slug) {
+      report.rejected.push({ requested: name, reason: 'Name has no usable characters' });
+      continue;
+    }
+
+    const exact = bySlug.get(slug);
+    if (exact) {
+      report.matched.push({ requested: name, id: exact.id, name: exact.name, slug: exact.slug, via: 'exact' });
+      continue;
+    }
+
+    const aliasSlug = policy.aliases?.[slug] ?? policy.aliases?.[name.toLowerCase()];
+    const alias = aliasSlug ? bySlug.get(aliasSlug) : undefined;
+    if (alias) {
+      report.matched.push({ requested: name, id: alias.id, name: alias.name, slug: alias.slug, via: 'alias' });
+      continue;
+    }
+
+    let best: { term: WPTerm; score: number } | null = null;
+    for (const term of existing) {
+      const score = termSimilarity(name, term.slug);
+      if (!best || score > best.score) best = { term, score };
+    }
+    // Initials are ambiguous ("ai" is also "adobe-illustrator"), so an
+    // acronym only matches when a single term has them; aliases cover the rest
+    const expansions = existing.filter((term) => isAcronymOf(slug, term.slug));
+    if (expansions.length === 1 && (!best || best.score < ACRONYM_SCORE)) {
+      best = { term: expansions[0], score: ACRONYM_SCORE };
+    }
+    if (best && best.score >= policy.fuzzyThreshold) {
+      report.matched.push({
+        requested: name,
+        id: best.term.id,
+        name: best.term.name,
+        slug: best.term.slug,
+        via: 'fuzzy',
+        score: Math.round(best.score * 100) / 100,
+      });
+      continue;
+    }
+
+    if (!policy.createMissing) {
+      report.rejected.push({ requested: name, reason: 'No matching term and creation is disabled' });
+      continue;
+    }
+
+    if (allowlist && !allowlist.includes(slug)) {
+      report.rejected.push({ requested: name, reason: 'Not in the site allowlist' });
+      continue;
+    }
+
+    try {
+      const term = await wp.createTerm(taxonomy, name, slug);
+      bySlug.set(term.slug, term);
+      existing.push(term);
+      report.created.push({ requested: name, id: term.id, name: term.name, slug: term.slug, via: 'created' });
+    } catch (error) {
+      // Created concurrently (or the slug differs only by case/accents)
+      const existingId = error instanceof WordPressError && error.code === 'term_exists'
+        ? Number(error.data?.term_id)
+        : NaN;
+      if (existingId) {
+        report.matched.push({ requested: name, id: existingId, name, slug, via: 'exact' });
+        continue;
+      }
+
+      console.error(`Error creating ${taxonomy} term "${name}":`, error);
+      report.rejected.push({
+        requested: name,
+        reason: error instanceof Error ? error.message : 'Failed to create term',
+      });
+    }
+  }
+
+  return report;
+}
+
+export function termIds(report: TermReport): number[] {
+  return Array.from(new Set([...report.matched, ...report.created].map((term) => term.id)));
+}
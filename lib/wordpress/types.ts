@@ -0,0 +1,128 @@
+// WordPress REST API response shapes (only the fields this tool relies on)
+
+export interface WPRendered {
+  rendered: string;
+  raw?: string;
+}
+
+export type WPPostStatus = 'publish' | 'future' | 'draft' | 'pending' | 'private';
+
+export interface WPPost {
+  id: number;
+  date: string;
+  date_gmt?: string;
+  modified?: string;
+  modified_gmt?: string;
+  slug: string;
+  status: WPPostStatus;
+  link?: string;
+  title: WPRendered;
+  content: WPRendered;
+  excerpt: WPRendered;
+  author?: number;
+  featured_media?: number;
+  categories?: number[];
+  tags?: number[];
+  meta?: Record<string, unknown>;
+  _embedded?: {
+    "wp:featuredmedia"?: Array<{
+      source_url: string;
+      alt_text: string;
+    }>;
+    // One array per taxonomy (categories, tags)
+    "wp:term"?: WPTerm[][];
+  };
+}
+
+// GET /wp/v2/posts/{id}/revisions
+export interface WPRevision {
+  id: number;
+  parent: number;
+  author?: number;
+  date: string;
+  modified?: string;
+  title?: WPRendered;
+}
+
+export interface WPUser {
+  id: number;
+  name: string;
+  slug: string;
+  avatar_urls?: {
+    [key: string]: string;
+  };
+}
+
+export interface WPTerm {
+  id: number;
+  name: string;
+  slug: string;
+  count?: number;
+  parent?: number;
+  taxonomy?: string;
+}
+
+export interface WPMedia {
+  id: number;
+  date?: string;
+  slug?: string;
+  // Post the file was uploaded to (0 when unattached)
+  post?: number | null;
+  source_url: string;
+  alt_text: string;
+  mime_type?: string;
+  caption?: WPRendered;
+  title?: WPRendered;
+  // Attachment page
+  link?: string;
+  media_type?: 'image' | 'file';
+  media_details?: {
+    width?: number;
+    height?: number;
+    sizes?: Record<string, { source_url: string; width: number; height: number }>;
+  };
+}
+
+// Writable fields for POST /wp/v2/posts/{id}
+export interface WPPostUpdate {
+  title?: string;
+  content?: string;
+  excerpt?: string;
+  status?: WPPostStatus;
+  // Site-local time; date_gmt takes precedence when both are sent
+  date?: string;
+  date_gmt?: string;
+  author?: number;
+  featured_media?: number;
+  categories?: number[];
+  tags?: number[];
+  meta?: Record<string, unknown>;
+}
+
+// Writable fields for POST /wp/v2/media/{id}
+export interface WPMediaUpdate {
+  title?: string;
+  alt_text?: string;
+  caption?: string;
+  description?: string;
+  meta?: Record<string, unknown>;
+}
+
+// Error body returned by the REST API, e.g. { code: 'rest_post_invalid_id', ... }
+export interface WPErrorBody {
+  code: string;
+  message: string;
+  data?: {
+    status?: number;
+    [key: string]: unknown;
+  };
+}
+
+// A single page of a collection endpoint plus the X-WP-Total* headers
+export interface WPPage<T> {
+  items: T[];
+  total: number;
+  totalPages: number;
+}
+
+export type WPQuery = Record<string, string | number | boolean | Array<string | number> | undefined>;